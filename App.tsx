@@ -4,13 +4,26 @@ import GameCanvas, { GameCanvasRef } from './components/GameCanvas';
 import UIControls from './components/UIControls';
 import LevelEditor from './components/LevelEditor';
 import LibraryModal from './components/LibraryModal';
-import { GameState, LevelConfiguration, ProjectileType, ProjectileConfig } from './types';
-import { POINTS_PER_BLOCK, POINTS_PER_KING, MIN_LAUNCH_POWER, MAX_LAUNCH_POWER, PROJECTILE_TYPES_CONFIG } from './constants'; 
+import ReplayPanel from './components/ReplayPanel';
+import LevelSelect from './components/LevelSelect';
+import InputSettings from './components/InputSettings';
+import { getAdjacentProjectileType } from './components/ProjectileSelector';
+import { GameState, LevelConfiguration, ProjectileType, ProjectileConfig, ShotReplay, ReplayPlaybackState, PlayerProfile, InputAction, InputBindings } from './types';
+import { POINTS_PER_BLOCK, POINTS_PER_DESTROYED_BLOCK, POINTS_PER_KING, POINTS_PER_CHAIN_LINK, RATING_SETTLE_POLL_MS, RATING_MAX_WAIT_MS, MIN_LAUNCH_POWER, PROJECTILE_TYPES_CONFIG, DEFAULT_SIMULATION_SEED, DELEGATE_TURN_INTERVAL_MS } from './constants'; 
 import { LEVEL_CONFIGS as PREDEFINED_LEVELS } from './levels';
+import { CAMPAIGN_PACKS } from './campaigns';
+import { parseLevelLibrary, describeRejectedLevels } from './lib/levelSchema';
+import { loadReplays, saveReplay, deleteReplay, parseReplay } from './lib/replayStorage';
+import { getLevelPar, rateLevelClear, formatStars } from './lib/starRating';
+import { withThumbnail } from './lib/levelThumbnail';
+import { loadInputBindings, saveInputBindings } from './lib/inputBindings';
+import { planShot, describeShotPlan } from './lib/shotSolver';
+import { loadProfile, saveProfile, parseProfile, createEmptyProfile, getLevelProgress, getBestStarsByLevel, recordAttemptResult, unlockLevel, setLastLevel } from './lib/playerProfile';
 
 const App: React.FC = () => {
   const [editorActive, setEditorActive] = useState(false);
   const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isLevelSelectOpen, setIsLevelSelectOpen] = useState(false);
   const [customLevels, setCustomLevels] = useState<LevelConfiguration[]>([]);
   const [allPlayableLevels, setAllPlayableLevels] = useState<LevelConfiguration[]>(PREDEFINED_LEVELS);
   const [levelToEditInEditor, setLevelToEditInEditor] = useState<LevelConfiguration | null>(null);
@@ -18,42 +31,83 @@ const App: React.FC = () => {
   const [isCharging, setIsCharging] = useState(false);
   const [currentLaunchPower, setCurrentLaunchPower] = useState(0);
   const [isDelegateModeActive, setDelegateModeActive] = useState(false);
+  const [showTrajectory, setShowTrajectory] = useState(() => localStorage.getItem('dominoCastleShowTrajectory') !== 'false');
+  const [inputBindings, setInputBindings] = useState<InputBindings>(() => loadInputBindings());
+  const [isInputSettingsOpen, setIsInputSettingsOpen] = useState(false);
   const delegateIntervalRef = useRef<number | null>(null);
+  const delegatePlanRef = useRef<AbortController | null>(null); // Auto-fire plan still being worked out
+
+  const [replays, setReplays] = useState<ShotReplay[]>([]); // Saved replays of the current level
+  const [activeReplay, setActiveReplay] = useState<ShotReplay | null>(null);
+  const [replayPlayback, setReplayPlayback] = useState<ReplayPlaybackState | null>(null);
+  const replaySavedRef = useRef(false); // The current attempt has already been stored
+
+  const [profile, setProfile] = useState<PlayerProfile>(() => loadProfile());
+  const levelStartTimeRef = useRef(Date.now()); // For the clear time of the current attempt
+  const attemptRecordedRef = useRef(false); // The current attempt's result is already in the profile
+
+  const updateProfile = useCallback((update: (profile: PlayerProfile) => PlayerProfile) => {
+    setProfile(prev => {
+      const next = update(prev);
+      if (next === prev) return prev;
+      try {
+        saveProfile(next);
+      } catch (error) {
+        console.error("Error saving player profile to localStorage:", error);
+      }
+      return next;
+    });
+  }, []);
 
   useEffect(() => {
+    // Resumes at the level played last (as stored when the app opened), if it is still there
+    const showLevels = (levels: LevelConfiguration[]) => {
+      const resumeIndex = levels.findIndex(level => String(level.levelId) === profile.lastLevelId);
+      if (resumeIndex > 0) {
+        setGameState(prev => ({ ...prev, currentLevelIndex: resumeIndex }));
+      }
+      setAllPlayableLevels(levels);
+    };
+
     const loadLevels = async () => {
       try {
         const storedCustomLevels = localStorage.getItem('dominoCastleCustomLevels');
         if (storedCustomLevels) {
-          const parsedLevels = JSON.parse(storedCustomLevels) as LevelConfiguration[];
+          const { levels: parsedLevels, rejected } = parseLevelLibrary(JSON.parse(storedCustomLevels));
+          if (rejected.length > 0) {
+            console.warn("Skipping invalid stored levels:\n" + describeRejectedLevels(rejected));
+          }
           setCustomLevels(parsedLevels);
-          setAllPlayableLevels([...PREDEFINED_LEVELS, ...parsedLevels]);
+          showLevels([...PREDEFINED_LEVELS, ...parsedLevels]);
         } else {
           try {
             const response = await fetch('./domino_castle_library.json');
             if (response.ok) {
-              const libraryLevels = await response.json() as LevelConfiguration[];
-              if (Array.isArray(libraryLevels)) {
+              const { levels: libraryLevels, rejected } = parseLevelLibrary(await response.json());
+              if (rejected.length > 0) {
+                console.warn("Skipping invalid levels in domino_castle_library.json:\n" + describeRejectedLevels(rejected));
+              }
+              if (libraryLevels.length > 0) {
                 setCustomLevels(libraryLevels);
-                setAllPlayableLevels([...PREDEFINED_LEVELS, ...libraryLevels]);
+                showLevels([...PREDEFINED_LEVELS, ...libraryLevels]);
                 localStorage.setItem('dominoCastleCustomLevels', JSON.stringify(libraryLevels));
                  console.log("Loaded default levels from domino_castle_library.json and saved to localStorage.");
               } else {
-                console.warn("domino_castle_library.json did not contain a valid array of levels. Using predefined levels only.");
-                setAllPlayableLevels([...PREDEFINED_LEVELS]);
+                console.warn("domino_castle_library.json did not contain any valid levels. Using predefined levels only.");
+                showLevels([...PREDEFINED_LEVELS]);
               }
             } else {
               console.warn("Could not fetch domino_castle_library.json. Status:", response.status, ". Using predefined levels only.");
-              setAllPlayableLevels([...PREDEFINED_LEVELS]);
+              showLevels([...PREDEFINED_LEVELS]);
             }
           } catch (fetchError) {
             console.error("Error fetching or parsing domino_castle_library.json:", fetchError, ". Using predefined levels only.");
-            setAllPlayableLevels([...PREDEFINED_LEVELS]);
+            showLevels([...PREDEFINED_LEVELS]);
           }
         }
       } catch (error) {
         console.error("Error during initial levels loading:", error);
-        setAllPlayableLevels([...PREDEFINED_LEVELS]); 
+        showLevels([...PREDEFINED_LEVELS]); 
       }
     };
 
@@ -81,9 +135,14 @@ const App: React.FC = () => {
       gameMessage: initialLevelConfig?.gameMessage || `레벨 1: ${initialLevelConfig?.name || '시작 레벨'}. 황금 블록을 무너뜨리세요!`,
       currentLevelIndex: 0,
       isLevelWon: false,
+      stars: 0,
     };
   });
-  const [fallenBlockIds, setFallenBlockIds] = useState<Set<string>>(new Set());
+  // Counted synchronously so blocks falling in the same step, or after the golden block, all count towards the par
+  const fallenBlockIdsRef = useRef<Set<string>>(new Set());
+  const kingFallenRef = useRef(false);
+  // Won, but the stars wait until the blocks still coming down have settled
+  const isRatingPending = gameState.isLevelWon && gameState.stars === 0;
   const gameCanvasRef = useRef<GameCanvasRef>(null);
 
   const setupLevel = useCallback((levelIndex: number) => {
@@ -96,9 +155,10 @@ const App: React.FC = () => {
         projectileCounts: initialCounts,
         selectedProjectileType: initialSelectedType,
         isGameOver: true, 
-        gameMessage: "플레이할 레벨을 불러올 수 없습니다! 에디터나 라이브러리에서 레벨을 추가하세요.", currentLevelIndex: 0, isLevelWon: false
+        gameMessage: "플레이할 레벨을 불러올 수 없습니다! 에디터나 라이브러리에서 레벨을 추가하세요.", currentLevelIndex: 0, isLevelWon: false, stars: 0
       }));
-      setFallenBlockIds(new Set());
+      fallenBlockIdsRef.current = new Set();
+      kingFallenRef.current = false;
       return;
     }
 
@@ -119,10 +179,15 @@ const App: React.FC = () => {
       gameMessage: levelConfig.gameMessage || `레벨 ${targetIndex + 1}: ${levelConfig.name}. 황금 블록을 무너뜨리세요!`,
       currentLevelIndex: targetIndex,
       isLevelWon: false,
+      stars: 0,
     }));
-    setFallenBlockIds(new Set());
+    fallenBlockIdsRef.current = new Set();
+    kingFallenRef.current = false;
     setIsCharging(false);
     setCurrentLaunchPower(0);
+    replaySavedRef.current = false;
+    attemptRecordedRef.current = false;
+    levelStartTimeRef.current = Date.now();
     if (isDelegateModeActive) { 
         setGameState(g => ({...g, gameMessage: "자동 발사 모드 활성됨. 다음 행동 대기 중..."}));
     }
@@ -203,42 +268,67 @@ const App: React.FC = () => {
   }, [canCurrentlyLaunch, gameState.isGameOver, gameState.isLevelWon, gameState.selectedProjectileType, handleLaunchProjectile, isDelegateModeActive]);
 
 
-  const handleBlockFallen = useCallback((blockId: string, isKing: boolean) => {
-    if (gameStateRef.current.isGameOver || gameStateRef.current.isLevelWon || fallenBlockIds.has(blockId)) { // Use ref
+  const handleBlockFallen = useCallback((blockId: string, isKing: boolean, wasDestroyed = false, chainDepth = 0) => {
+    if (gameStateRef.current.isGameOver || fallenBlockIdsRef.current.has(blockId)) { // Use ref
       return;
     }
-    setFallenBlockIds(prev => new Set(prev).add(blockId));
-    const pointsEarned = isKing ? POINTS_PER_KING : POINTS_PER_BLOCK;
+    fallenBlockIdsRef.current.add(blockId);
+    // Blocks that come down after the golden block count towards the par but score nothing
+    if (kingFallenRef.current) return;
+    if (isKing) kingFallenRef.current = true;
+    // Blocks brought down by a chain of block explosions earn a bonus for each link
+    const chainBonus = chainDepth * POINTS_PER_CHAIN_LINK;
+    const pointsEarned = (isKing ? POINTS_PER_KING : (wasDestroyed ? POINTS_PER_DESTROYED_BLOCK : POINTS_PER_BLOCK)) + chainBonus;
     
     setGameState(prev => {
       const newScoreForLevel = prev.score + pointsEarned;
-      let newGameMessage = `블록 명중! +${pointsEarned}점 획득. 현재 레벨 점수: ${newScoreForLevel}`;
-      let newIsGameOver = prev.isGameOver;
-      let newIsLevelWon = prev.isLevelWon;
-      const currentLevelConfig = allPlayableLevels[prev.currentLevelIndex];
-      const currentLevelName = currentLevelConfig?.name || '';
-
+      const hitLabel = chainDepth > 0 ? `연쇄 폭발 x${chainDepth}!` : (wasDestroyed ? '블록 파괴!' : '블록 명중!');
       if (isKing) {
-        newIsLevelWon = true;
-        const isLastLevel = prev.currentLevelIndex === allPlayableLevels.length - 1;
-        if (isLastLevel) {
-          newGameMessage = `모든 레벨 클리어! 최종 점수 (마지막 레벨): ${newScoreForLevel}. 대단해요! 모든 황금 블록을 무너뜨렸습니다!`;
-          newIsGameOver = true; 
-        } else {
-          newGameMessage = `레벨 ${prev.currentLevelIndex + 1} (${currentLevelName}) 클리어! 잠시 후 다음 레벨로 이동합니다. 점수: ${newScoreForLevel}`;
-        }
+        return {
+          ...prev,
+          score: newScoreForLevel,
+          gameMessage: `황금 블록 명중! +${pointsEarned}점 획득. 무너지는 블록이 멈추면 별점을 매깁니다...`,
+          isLevelWon: true,
+        };
       }
-      
-      return {
-        ...prev,
-        score: newScoreForLevel,
-        gameMessage: newGameMessage,
-        isGameOver: newIsGameOver,
-        isLevelWon: newIsLevelWon,
-      };
+      return { ...prev, score: newScoreForLevel, gameMessage: `${hitLabel} +${pointsEarned}점 획득. 현재 레벨 점수: ${newScoreForLevel}` };
+    });
+
+  }, []); 
+
+  const finishLevelRating = useCallback(() => {
+    setGameState(prev => {
+      if (!prev.isLevelWon || prev.stars > 0) return prev;
+      const currentLevelConfig = allPlayableLevels[prev.currentLevelIndex];
+      const totalProjectiles = Object.values(getDefaultProjectileCounts()).reduce((sum, count) => sum + count, 0);
+      const projectilesRemaining = Object.values(prev.projectileCounts).reduce((sum, count) => sum + count, 0);
+      const rating = rateLevelClear(getLevelPar(currentLevelConfig, totalProjectiles), {
+        shotsFired: totalProjectiles - projectilesRemaining,
+        projectilesRemaining,
+        blocksToppled: fallenBlockIdsRef.current.size,
+      });
+      const score = prev.score + rating.bonusPoints;
+      const ratingLabel = `${formatStars(rating.stars)} (파 ${rating.parMet}/${rating.parTotal}, 남은 발사체 보너스 +${rating.bonusPoints}점)`;
+      const isLastLevel = prev.currentLevelIndex === allPlayableLevels.length - 1;
+      const gameMessage = isLastLevel
+        ? `모든 레벨 클리어! ${ratingLabel} 최종 점수 (마지막 레벨): ${score}. 대단해요! 모든 황금 블록을 무너뜨렸습니다!`
+        : `레벨 ${prev.currentLevelIndex + 1} (${currentLevelConfig?.name || ''}) 클리어! ${ratingLabel} 잠시 후 다음 레벨로 이동합니다. 점수: ${score}`;
+      return { ...prev, score, stars: rating.stars, gameMessage, isGameOver: isLastLevel || prev.isGameOver };
     });
+  }, [allPlayableLevels]);
 
-  }, [fallenBlockIds, allPlayableLevels]); 
+  // A won level is rated once the world has settled, or after RATING_MAX_WAIT_MS at the latest
+  useEffect(() => {
+    if (!isRatingPending) return;
+    const wonAt = Date.now();
+    const timer = setInterval(() => {
+      const isSettled = gameCanvasRef.current?.getWorldSnapshot()?.isSettled ?? false;
+      if (!isSettled && Date.now() - wonAt < RATING_MAX_WAIT_MS) return;
+      clearInterval(timer);
+      finishLevelRating();
+    }, RATING_SETTLE_POLL_MS);
+    return () => clearInterval(timer);
+  }, [isRatingPending, finishLevelRating]);
   
   useEffect(() => {
     const totalProjectilesLeft = Object.values(gameState.projectileCounts).reduce((sum, count) => sum + count, 0);
@@ -253,6 +343,120 @@ const App: React.FC = () => {
     }
   }, [gameState.projectileCounts, gameState.isLevelWon, gameState.isGameOver, gameState.currentLevelIndex, gameState.score, allPlayableLevels]);
 
+  const currentLevelId = allPlayableLevels[gameState.currentLevelIndex]?.levelId;
+
+  useEffect(() => {
+    if (currentLevelId !== undefined) updateProfile(prev => setLastLevel(prev, currentLevelId));
+  }, [currentLevelId, updateProfile]);
+
+  // Records every finished attempt in the profile; a win also unlocks the next level
+  useEffect(() => {
+    if (!(gameState.isLevelWon || gameState.isGameOver) || isRatingPending || activeReplay || attemptRecordedRef.current || currentLevelId === undefined) return;
+    attemptRecordedRef.current = true;
+    const nextLevel = allPlayableLevels[gameState.currentLevelIndex + 1];
+    updateProfile(prev => {
+      const updated = recordAttemptResult(prev, currentLevelId, {
+        won: gameState.isLevelWon,
+        score: gameState.score,
+        stars: gameState.stars,
+        timeMs: Date.now() - levelStartTimeRef.current,
+      });
+      return gameState.isLevelWon && nextLevel ? unlockLevel(updated, nextLevel.levelId) : updated;
+    });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameState.isLevelWon, gameState.isGameOver, isRatingPending]);
+
+  useEffect(() => {
+    setActiveReplay(null);
+    setReplayPlayback(null);
+    setReplays(currentLevelId !== undefined ? loadReplays(currentLevelId) : []);
+  }, [currentLevelId]);
+
+  // Stores every finished attempt (won, or out of projectiles) as a replay of the current level
+  useEffect(() => {
+    if (!(gameState.isLevelWon || gameState.isGameOver) || isRatingPending || activeReplay || replaySavedRef.current) return;
+    const levelConfig = allPlayableLevels[gameState.currentLevelIndex];
+    const shots = gameCanvasRef.current?.getRecordedShots() ?? [];
+    if (!levelConfig || shots.length === 0) return;
+    replaySavedRef.current = true;
+    try {
+      setReplays(saveReplay({
+        id: `replay_${Date.now()}`,
+        levelId: levelConfig.levelId,
+        levelName: levelConfig.name,
+        level: levelConfig,
+        shots,
+        score: gameState.score,
+        kingFallen: gameState.isLevelWon,
+        recordedAt: Date.now(),
+        seed: DEFAULT_SIMULATION_SEED,
+      }));
+    } catch (error) {
+      console.error("Error saving replay to localStorage:", error);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [gameState.isLevelWon, gameState.isGameOver, isRatingPending]);
+
+  const handlePlayReplay = useCallback((replay: ShotReplay) => {
+    if (isDelegateModeActive) setDelegateModeActive(false);
+    setIsCharging(false);
+    setCurrentLaunchPower(0);
+    setActiveReplay(replay);
+    gameCanvasRef.current?.startReplay(replay);
+  }, [isDelegateModeActive]);
+
+  const handleStopReplay = useCallback(() => {
+    gameCanvasRef.current?.stopReplay();
+    setActiveReplay(null);
+    setReplayPlayback(null);
+    setupLevel(gameState.currentLevelIndex); // The level is reloaded fresh, so start a new attempt
+  }, [setupLevel, gameState.currentLevelIndex]);
+
+  const handleToggleReplayPause = useCallback(() => {
+    gameCanvasRef.current?.setReplayPaused(!replayPlayback?.isPaused);
+  }, [replayPlayback]);
+
+  const handleExportReplay = (replay: ShotReplay) => {
+    try {
+      const blob = new Blob([JSON.stringify(replay, null, 2)], { type: 'application/json' });
+      const href = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = `replay_${replay.levelId}_${replay.recordedAt}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(href);
+    } catch (error) {
+      console.error("Error exporting replay:", error);
+      alert("리플레이를 내보내는 중 오류가 발생했습니다.");
+    }
+  };
+
+  const handleImportReplay = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const replay = parseReplay(JSON.parse(e.target?.result as string));
+        const levelReplays = saveReplay(replay);
+        if (replay.levelId === currentLevelId) setReplays(levelReplays);
+        handlePlayReplay(replay);
+      } catch (error) {
+        console.error("Error importing replay:", error);
+        alert(`리플레이를 가져오는 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleDeleteReplay = (replay: ShotReplay) => {
+    try {
+      setReplays(deleteReplay(replay.levelId, replay.id));
+    } catch (error) {
+      console.error("Error deleting replay:", error);
+    }
+  };
+
   const handleResetGame = useCallback(() => {
     if(isDelegateModeActive) setDelegateModeActive(false); 
     setupLevel(0);
@@ -266,16 +470,17 @@ const App: React.FC = () => {
   }, [gameState.currentLevelIndex, allPlayableLevels.length, setupLevel]);
 
   useEffect(() => {
-    if (gameState.isLevelWon && !gameState.isGameOver && gameState.currentLevelIndex < allPlayableLevels.length - 1) {
+    if (gameState.isLevelWon && !isRatingPending && !gameState.isGameOver && gameState.currentLevelIndex < allPlayableLevels.length - 1) {
       const timer = setTimeout(() => {
         handleNextLevel();
       }, 1500); 
       return () => clearTimeout(timer);
     }
-  }, [gameState.isLevelWon, gameState.isGameOver, gameState.currentLevelIndex, allPlayableLevels.length, handleNextLevel]);
+  }, [gameState.isLevelWon, isRatingPending, gameState.isGameOver, gameState.currentLevelIndex, allPlayableLevels.length, handleNextLevel]);
 
   const toggleEditor = () => {
     if (isLibraryOpen) setIsLibraryOpen(false);
+    if (isLevelSelectOpen) setIsLevelSelectOpen(false);
     setEditorActive(prev => {
       const newEditorActiveState = !prev;
       if (!newEditorActiveState) { 
@@ -286,7 +491,69 @@ const App: React.FC = () => {
     });
   };
 
+  const toggleLevelSelect = () => {
+    if (editorActive) {
+        setEditorActive(false);
+        setLevelToEditInEditor(null);
+    }
+    if (isLibraryOpen) setIsLibraryOpen(false);
+    setIsLevelSelectOpen(prev => {
+        const newLevelSelectState = !prev;
+        if (newLevelSelectState && isDelegateModeActive) setDelegateModeActive(false);
+        return newLevelSelectState;
+    });
+  };
+
+  const handleSelectLevel = (levelIndex: number) => {
+    if (activeReplay) {
+      gameCanvasRef.current?.stopReplay();
+      setActiveReplay(null);
+      setReplayPlayback(null);
+    }
+    setupLevel(levelIndex);
+    setIsLevelSelectOpen(false);
+  };
+
+  const handleExportProfile = () => {
+    try {
+      const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+      const href = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = href;
+      link.download = 'castle_breaker_profile.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(href);
+    } catch (error) {
+      console.error("Error exporting profile:", error);
+      alert("프로필을 내보내는 중 오류가 발생했습니다.");
+    }
+  };
+
+  const handleImportProfile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const importedProfile = parseProfile(JSON.parse(e.target?.result as string));
+        if (!window.confirm("가져온 프로필로 현재 진행 기록을 덮어씁니다. 계속할까요?")) return;
+        updateProfile(() => importedProfile);
+        alert("플레이어 프로필을 가져왔습니다!");
+      } catch (error) {
+        console.error("Error importing profile:", error);
+        alert(`프로필을 가져오는 중 오류가 발생했습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleResetProfile = () => {
+    if (!window.confirm("모든 레벨의 진행 기록(잠금 해제, 최고 점수, 별점)을 지웁니다. 계속할까요?")) return;
+    updateProfile(() => createEmptyProfile());
+  };
+
   const toggleLibrary = () => {
+    if (isLevelSelectOpen) setIsLevelSelectOpen(false);
     if (editorActive) {
         setEditorActive(false); 
         setLevelToEditInEditor(null); 
@@ -330,7 +597,7 @@ const App: React.FC = () => {
       return;
     }
     try {
-      const jsonString = JSON.stringify(customLevels, null, 2);
+      const jsonString = JSON.stringify(customLevels.map(withThumbnail), null, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
       const href = URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -352,21 +619,19 @@ const App: React.FC = () => {
     reader.onload = (e) => {
       try {
         const importedJson = e.target?.result as string;
-        const importedLevels = JSON.parse(importedJson) as LevelConfiguration[];
-        
-        if (!Array.isArray(importedLevels)) {
-            throw new Error("가져온 파일이 레벨 배열 형식이 아닙니다.");
+        const { levels: importedLevels, rejected } = parseLevelLibrary(JSON.parse(importedJson));
+        if (rejected.length > 0) {
+          console.warn("Skipping invalid level data from import:\n" + describeRejectedLevels(rejected));
         }
+        const rejectedNote = rejected.length > 0
+          ? `\n\n형식 오류로 ${rejected.length}개 레벨을 건너뛰었습니다:\n${describeRejectedLevels(rejected)}`
+          : '';
 
         const existingLevelIds = new Set(customLevels.map(l => l.levelId));
         const existingLevelNames = new Set(customLevels.map(l => l.name));
         
         let newLevelsAddedCount = 0;
         const validNewLevels = importedLevels.filter(importedLevel => {
-          if (!importedLevel.levelId || !importedLevel.name || !Array.isArray(importedLevel.structure) || typeof importedLevel.initialProjectiles !== 'number') {
-            console.warn("Skipping invalid level data from import:", importedLevel);
-            return false;
-          }
           const isDuplicate = existingLevelIds.has(importedLevel.levelId) || existingLevelNames.has(importedLevel.name);
           if (!isDuplicate) {
             newLevelsAddedCount++;
@@ -380,9 +645,9 @@ const App: React.FC = () => {
           localStorage.setItem('dominoCastleCustomLevels', JSON.stringify(updatedCustomLevels));
           setCustomLevels(updatedCustomLevels);
           setAllPlayableLevels([...PREDEFINED_LEVELS, ...updatedCustomLevels]);
-          alert(`${newLevelsAddedCount}개의 새로운 레벨을 라이브러리로 가져왔습니다.`);
+          alert(`${newLevelsAddedCount}개의 새로운 레벨을 라이브러리로 가져왔습니다.${rejectedNote}`);
         } else {
-          alert("새로 가져온 레벨이 없거나 모두 중복된 레벨입니다.");
+          alert(`새로 가져온 레벨이 없거나 모두 중복된 레벨입니다.${rejectedNote}`);
         }
       } catch (error) {
         console.error("Error importing library:", error);
@@ -443,6 +708,50 @@ const App: React.FC = () => {
     }
   };
 
+  const toggleTrajectory = useCallback(() => {
+    setShowTrajectory(prev => {
+      try {
+        localStorage.setItem('dominoCastleShowTrajectory', String(!prev));
+      } catch (error) {
+        console.error("Error saving trajectory preference to localStorage:", error);
+      }
+      return !prev;
+    });
+  }, []);
+
+  const handleInputBindingsChange = useCallback((bindings: InputBindings) => {
+    setInputBindings(bindings);
+    try {
+      saveInputBindings(bindings);
+    } catch (error) {
+      console.error("Error saving input bindings to localStorage:", error);
+    }
+  }, []);
+
+  // Keyboard and gamepad actions the game canvas passes up
+  const handleInputAction = useCallback((action: InputAction) => {
+    if (activeReplay) return;
+    if (action === 'previousProjectile' || action === 'nextProjectile') {
+      if (isCharging || isDelegateModeActive) return;
+      const { projectileCounts, selectedProjectileType } = gameStateRef.current;
+      handleSelectProjectileType(getAdjacentProjectileType(PROJECTILE_TYPES_CONFIG, projectileCounts, selectedProjectileType, action === 'nextProjectile' ? 1 : -1));
+    } else if (action === 'restartLevel') {
+      const levelConfig = allPlayableLevels[gameState.currentLevelIndex];
+      if (!levelConfig) return;
+      gameCanvasRef.current?.resetLevel(levelConfig);
+      setupLevel(gameState.currentLevelIndex);
+    } else if (action === 'nextLevel') {
+      const levelConfig = allPlayableLevels[gameState.currentLevelIndex];
+      if (gameState.currentLevelIndex >= allPlayableLevels.length - 1 || !levelConfig) {
+        setGameState(prev => ({ ...prev, gameMessage: "마지막 레벨입니다." }));
+      } else if (gameState.isLevelWon || getLevelProgress(profile, levelConfig.levelId).completions > 0) {
+        handleNextLevel();
+      } else {
+        setGameState(prev => ({ ...prev, gameMessage: "이 레벨을 클리어해야 다음 레벨로 넘어갈 수 있습니다." }));
+      }
+    }
+  }, [activeReplay, isCharging, isDelegateModeActive, handleSelectProjectileType, allPlayableLevels, gameState.currentLevelIndex, gameState.isLevelWon, profile, setupLevel, handleNextLevel]);
+
   const toggleDelegateMode = useCallback(() => {
     setDelegateModeActive(prev => {
       const newMode = !prev;
@@ -470,13 +779,14 @@ const App: React.FC = () => {
   }, [isDelegateModeActive]);
 
   useEffect(() => {
+    // Each turn copies the world once it has come to rest, plans a shot against the copy and fires it.
+    // Turns that come round while a plan is still being worked out are skipped.
     const performDelegateAction = () => {
+      if (delegatePlanRef.current) return;
       const gs = gameStateRef.current;
-      const availableProjectileTypes = PROJECTILE_TYPES_CONFIG.filter(
-        config => gs.projectileCounts[config.id] > 0
-      );
+      const hasProjectiles = PROJECTILE_TYPES_CONFIG.some(config => gs.projectileCounts[config.id] > 0);
   
-      if (availableProjectileTypes.length === 0) {
+      if (!hasProjectiles) {
         setGameState(prev => ({
           ...prev,
           gameMessage: "자동 발사: 사용 가능한 발사체가 없습니다. 모드를 비활성화합니다.",
@@ -484,46 +794,43 @@ const App: React.FC = () => {
         setDelegateModeActive(false); // Modifies isDelegateModeActive, which will clear interval via its own effect
         return;
       }
-  
-      const randomProjectileConfig = availableProjectileTypes[Math.floor(Math.random() * availableProjectileTypes.length)];
-      const selectedType = randomProjectileConfig.id;
-      
-      handleSelectProjectileType(selectedType); // Update selected type
-      
-      const randomPowerFactor = 0.7 + Math.random() * 0.3; // Favor higher power (70-100%)
-      const randomPower = Math.max(MIN_LAUNCH_POWER, randomPowerFactor * MAX_LAUNCH_POWER);
-      const finalPower = Math.min(MAX_LAUNCH_POWER, randomPower);
-      
-      let aimMessageSegment = "";
-      const goldenBlockPosition = gameCanvasRef.current?.getGoldenBlockPosition();
 
-      if (goldenBlockPosition) {
-        gameCanvasRef.current?.pointCameraTowards(goldenBlockPosition);
-        aimMessageSegment = `황금 블록 조준! (${randomProjectileConfig.name}, 파워: ${Math.round(finalPower * 100)}%)`;
-      } else {
-        aimMessageSegment = `황금 블록 없음. 현재 방향으로 발사. (${randomProjectileConfig.name}, 파워: ${Math.round(finalPower * 100)}%)`;
-      }
-      
-      setGameState(prev => ({
-          ...prev,
-          gameMessage: `자동 발사: ${aimMessageSegment}`
-      }));
+      const snapshot = gameCanvasRef.current?.getWorldSnapshot();
+      if (!snapshot?.isSettled) return; // Blocks are still moving; try again next turn
 
-      // Short delay for camera to orient and message to display before launching
-      setTimeout(() => {
-        // Re-check conditions as state might have changed (e.g., game over, level won)
-        if (isDelegateModeActiveRef.current && !gameStateRef.current.isGameOver && !gameStateRef.current.isLevelWon) {
-           handleLaunchProjectile(finalPower, selectedType);
-        }
-      }, 300); 
+      const controller = new AbortController();
+      delegatePlanRef.current = controller;
+      setGameState(prev => ({ ...prev, gameMessage: "자동 발사: 시뮬레이션으로 발사 계획을 세우는 중..." }));
+
+      planShot(snapshot, gs.projectileCounts, { signal: controller.signal }).then(plan => {
+        if (delegatePlanRef.current === controller) delegatePlanRef.current = null;
+        if (!plan || controller.signal.aborted) return;
+
+        handleSelectProjectileType(plan.projectileType);
+        gameCanvasRef.current?.setLauncherAim(plan.aim);
+        const planMessage = `자동 발사: ${describeShotPlan(plan)}`;
+        setGameState(prev => ({ ...prev, gameMessage: planMessage }));
+
+        // Short delay for the launcher to turn and message to display before launching
+        setTimeout(() => {
+          // Re-check conditions as state might have changed (e.g., game over, level won)
+          if (isDelegateModeActiveRef.current && !gameStateRef.current.isGameOver && !gameStateRef.current.isLevelWon) {
+            handleLaunchProjectile(plan.power, plan.projectileType);
+            setGameState(prev => ({ ...prev, gameMessage: planMessage }));
+          }
+        }, 300);
+      }).catch(error => {
+        if (delegatePlanRef.current === controller) delegatePlanRef.current = null;
+        console.error("Error planning auto-fire shot:", error);
+      });
     };
   
-    if (isDelegateModeActive && !gameState.isGameOver && !gameState.isLevelWon && !editorActive && !isLibraryOpen) {
+    if (isDelegateModeActive && !gameState.isGameOver && !gameState.isLevelWon && !editorActive && !isLibraryOpen && !isLevelSelectOpen && !activeReplay) {
       if (delegateIntervalRef.current) { // Clear any existing interval before starting a new one
         clearInterval(delegateIntervalRef.current);
       }
       performDelegateAction(); // Perform action immediately, then set interval
-      delegateIntervalRef.current = window.setInterval(performDelegateAction, 2500);
+      delegateIntervalRef.current = window.setInterval(performDelegateAction, DELEGATE_TURN_INTERVAL_MS);
     } else {
       if (delegateIntervalRef.current) {
         clearInterval(delegateIntervalRef.current);
@@ -536,13 +843,19 @@ const App: React.FC = () => {
         clearInterval(delegateIntervalRef.current);
         delegateIntervalRef.current = null;
       }
+      delegatePlanRef.current?.abort();
+      delegatePlanRef.current = null;
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isDelegateModeActive, gameState.isGameOver, gameState.isLevelWon, editorActive, isLibraryOpen, handleLaunchProjectile, handleSelectProjectileType]);
+  }, [isDelegateModeActive, gameState.isGameOver, gameState.isLevelWon, editorActive, isLibraryOpen, isLevelSelectOpen, activeReplay, handleLaunchProjectile, handleSelectProjectileType]);
 
 
   const currentLevelConfig = allPlayableLevels.length > 0 ? allPlayableLevels[gameState.currentLevelIndex] : null;
-  const canAttemptCharge = gameState.projectilesLeft > 0 && !gameState.isGameOver && !gameState.isLevelWon && !isDelegateModeActive;
+  const canAttemptCharge = gameState.projectilesLeft > 0 && !gameState.isGameOver && !gameState.isLevelWon && !isDelegateModeActive && !activeReplay;
+  const isTrajectoryAllowed = !currentLevelConfig?.hideTrajectory;
+  const trajectoryPreview = showTrajectory && isTrajectoryAllowed && canAttemptCharge
+    ? { projectileType: gameState.selectedProjectileType, power: Math.max(MIN_LAUNCH_POWER, isCharging ? currentLaunchPower : 0) }
+    : null;
 
   if (allPlayableLevels.length === 0 && !editorActive && !isLibraryOpen) {
       return (
@@ -574,11 +887,17 @@ const App: React.FC = () => {
   const currentSelectedProjectileConfig = PROJECTILE_TYPES_CONFIG.find(p => p.id === gameState.selectedProjectileType) || PROJECTILE_TYPES_CONFIG[0];
 
   return (
-    <div className={`flex flex-col items-center justify-start min-h-screen bg-gradient-to-br from-gray-800 to-gray-900 text-white selection:bg-yellow-500 selection:text-gray-900 ${editorActive || isLibraryOpen ? 'p-0 sm:p-0' : 'p-4'}`}>
-      <header className={`text-center w-full ${editorActive || isLibraryOpen ? 'max-w-full p-3 bg-gray-900/50 flex-shrink-0' : 'max-w-4xl mb-2 sm:mb-4'}`}>
+    <div className={`flex flex-col items-center justify-start min-h-screen bg-gradient-to-br from-gray-800 to-gray-900 text-white selection:bg-yellow-500 selection:text-gray-900 ${editorActive || isLibraryOpen || isLevelSelectOpen ? 'p-0 sm:p-0' : 'p-4'}`}>
+      <header className={`text-center w-full ${editorActive || isLibraryOpen || isLevelSelectOpen ? 'max-w-full p-3 bg-gray-900/50 flex-shrink-0' : 'max-w-4xl mb-2 sm:mb-4'}`}>
         <div className="flex justify-between items-center">
-          <h1 className={`font-bold text-yellow-400 tracking-wider ${editorActive || isLibraryOpen ? 'text-2xl sm:text-3xl' : 'text-4xl sm:text-5xl'}`} style={{fontFamily: "'Orbitron', sans-serif"}}>캐슬 브레이커</h1>
+          <h1 className={`font-bold text-yellow-400 tracking-wider ${editorActive || isLibraryOpen || isLevelSelectOpen ? 'text-2xl sm:text-3xl' : 'text-4xl sm:text-5xl'}`} style={{fontFamily: "'Orbitron', sans-serif"}}>캐슬 브레이커</h1>
           <div className="flex space-x-2">
+            <button 
+              onClick={toggleLevelSelect}
+              className="px-3 py-1.5 sm:px-4 sm:py-2 bg-amber-600 hover:bg-amber-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-amber-400 text-xs sm:text-sm"
+            >
+              {isLevelSelectOpen ? "레벨 선택 닫기" : "레벨 선택"}
+            </button>
             <button 
               onClick={toggleLibrary}
               className="px-3 py-1.5 sm:px-4 sm:py-2 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-indigo-400 text-xs sm:text-sm"
@@ -593,10 +912,11 @@ const App: React.FC = () => {
             </button>
           </div>
         </div>
-        {!editorActive && !isLibraryOpen && currentLevelConfig && (
+        {!editorActive && !isLibraryOpen && !isLevelSelectOpen && currentLevelConfig && (
           <>
             <p className="text-gray-300 text-sm sm:text-lg mt-1">
               {`레벨 ${gameState.currentLevelIndex + 1}${PREDEFINED_LEVELS.find(l => l.levelId === currentLevelConfig.levelId) ? '' : ' (커스텀)'}: ${currentLevelConfig.name}`}
+              <span className="ml-2 text-yellow-300" title="이 레벨의 최고 별점">{formatStars(getLevelProgress(profile, currentLevelConfig.levelId).bestStars)}</span>
             </p>
             <p className="text-gray-300 text-xs sm:text-md mt-1">{gameState.gameMessage}</p>
           </>
@@ -620,9 +940,23 @@ const App: React.FC = () => {
             onDeleteLevel={handleDeleteCustomLevelFromLibrary}
             onLoadLevel={handleLoadLevelFromLibraryToEditor}
             onPlayLevel={handlePlayCustomLevelFromLibrary}
+            bestStars={getBestStarsByLevel(profile)}
+          />
+        ) : isLevelSelectOpen ? (
+          <LevelSelect
+            isOpen={isLevelSelectOpen}
+            onClose={toggleLevelSelect}
+            levels={allPlayableLevels}
+            campaignPacks={CAMPAIGN_PACKS}
+            currentLevelIndex={gameState.currentLevelIndex}
+            profile={profile}
+            onSelectLevel={handleSelectLevel}
+            onExportProfile={handleExportProfile}
+            onImportProfile={handleImportProfile}
+            onResetProfile={handleResetProfile}
           />
         ) : currentLevelConfig ? ( 
-          <div className={`w-full h-full flex flex-col items-center ${editorActive || isLibraryOpen ? '' : 'p-4'}`}>
+          <div className={`w-full h-full flex flex-col items-center ${editorActive || isLibraryOpen || isLevelSelectOpen ? '' : 'p-4'}`}>
             <UIControls
               score={gameState.score}
               projectilesLeftCount={gameState.projectilesLeft}
@@ -636,6 +970,10 @@ const App: React.FC = () => {
               canAttemptCharge={canAttemptCharge}
               isDelegateModeActive={isDelegateModeActive}
               onToggleDelegateMode={toggleDelegateMode}
+              showTrajectory={showTrajectory}
+              isTrajectoryAllowed={isTrajectoryAllowed}
+              onToggleTrajectory={toggleTrajectory}
+              onOpenInputSettings={() => setIsInputSettingsOpen(true)}
             />
             <div className="w-full max-w-4xl aspect-[16/9] bg-gray-700 rounded-lg shadow-2xl overflow-hidden border-2 border-yellow-500 mt-2 sm:mt-4">
                <GameCanvas 
@@ -648,11 +986,36 @@ const App: React.FC = () => {
                   onChargeProgress={handleChargeProgress}
                   onChargeComplete={handleChargeComplete}
                   isDelegateModeActive={isDelegateModeActive}
+                  onReplayProgress={setReplayPlayback}
+                  trajectoryPreview={trajectoryPreview}
+                  showReticle={!activeReplay}
+                  inputBindings={inputBindings}
+                  isInputEnabled={!isInputSettingsOpen}
+                  onInputAction={handleInputAction}
               />
             </div>
+            <ReplayPanel
+              replays={replays}
+              activeReplay={activeReplay}
+              playback={replayPlayback}
+              onPlay={handlePlayReplay}
+              onStop={handleStopReplay}
+              onTogglePause={handleToggleReplayPause}
+              onSeek={(time) => gameCanvasRef.current?.seekReplay(time)}
+              onSpeedChange={(speed) => gameCanvasRef.current?.setReplaySpeed(speed)}
+              onExport={handleExportReplay}
+              onImport={handleImportReplay}
+              onDelete={handleDeleteReplay}
+            />
+            <InputSettings
+              isOpen={isInputSettingsOpen}
+              onClose={() => setIsInputSettingsOpen(false)}
+              bindings={inputBindings}
+              onChange={handleInputBindingsChange}
+            />
              <footer className="mt-auto pt-4 sm:pt-8 text-center text-gray-500 text-xs sm:text-sm flex-shrink-0">
               <p>React, Three.js, Cannon-es, Tailwind CSS로 제작되었습니다.</p>
-              <p>팁: 화면을 길게 눌러 파워를 모아 발사하세요! 연쇄 반응을 만들어보세요!</p>
+              <p>팁: 화면을 길게 눌러(또는 Space) 파워를 모으고, 누른 채 드래그하거나 방향키로 발사대를 조준하세요! 키보드와 게임패드 설정은 "조작 설정"에서 바꿀 수 있습니다. 터치 화면에서는 한 손가락으로 조준하고, 두 손가락으로 카메라를 돌리거나 확대하며, 발사 버튼을 누르고 있다가 떼면 발사됩니다.</p>
             </footer>
           </div>
         ) : (
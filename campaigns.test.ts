@@ -0,0 +1,21 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { CAMPAIGN_PACKS } from './campaigns';
+import { LEVEL_CONFIGS } from './levels';
+import { parseLevelLibrary } from './lib/levelSchema';
+import { analyzeStability } from './lib/stabilityAnalyzer';
+
+const { levels: libraryLevels } = parseLevelLibrary(JSON.parse(readFileSync(new URL('./domino_castle_library.json', import.meta.url), 'utf8')));
+const shippedLevels = new Map([...LEVEL_CONFIGS, ...libraryLevels].map(level => [String(level.levelId), level]));
+
+describe('CAMPAIGN_PACKS', () => {
+  CAMPAIGN_PACKS.forEach(pack => pack.chapters.forEach(chapter => {
+    it(`${pack.id}/${chapter.id} lists shipped levels that stand until the first shot`, () => {
+      chapter.levelIds.forEach(levelId => {
+        const level = shippedLevels.get(String(levelId));
+        expect(level, String(levelId)).toBeDefined();
+        expect(analyzeStability(level!).fallenBlockIds, String(levelId)).toEqual([]);
+      });
+    }, 60000);
+  }));
+});
@@ -0,0 +1,45 @@
+import { CampaignPack } from './types';
+import { LEVEL_CONFIGS } from './levels';
+
+export const CAMPAIGN_PACKS: CampaignPack[] = [
+  {
+    id: 'main',
+    name: '메인 캠페인',
+    chapters: [
+      {
+        id: 'basics',
+        name: '1장: 첫 번째 성',
+        description: '기본 제공 레벨로 발사와 조준을 익히세요.',
+        levelIds: LEVEL_CONFIGS.map(level => level.levelId),
+        sequential: true,
+      },
+      {
+        id: 'outposts',
+        name: '2장: 변방의 전초기지',
+        description: '기본 라이브러리의 작은 구조물들입니다.',
+        levelIds: [
+          'custom_1750224626654_721h6',
+          'custom_1750224796969_v7btk',
+          'custom_1750221225105',
+          'custom_1750224570685_e1ta5',
+          'custom_1750221193595',
+          'custom_1750224705021_i0z7c',
+        ],
+        unlock: { type: 'chapterCleared', chapterId: 'basics' },
+        sequential: true,
+      },
+      {
+        id: 'fortresses',
+        name: '3장: 거대한 요새',
+        description: '수십에서 수백 개의 블록으로 이루어진 대형 구조물입니다.',
+        levelIds: [
+          'custom_1750221670117_zvkpd',
+          'custom_1750225830429_p7zro',
+          'custom_1750221982949_cqydb',
+          'custom_1750223590685_a975w',
+        ],
+        unlock: { type: 'stars', stars: 15 },
+      },
+    ],
+  },
+];
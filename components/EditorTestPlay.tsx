@@ -0,0 +1,206 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import GameCanvas, { GameCanvasRef } from './GameCanvas';
+import PowerGauge from './PowerGauge';
+import ProjectileSelector, { getAdjacentProjectileType } from './ProjectileSelector';
+import { InputAction, LevelConfiguration, ProjectileType } from '../types';
+import { MIN_LAUNCH_POWER, PROJECTILE_TYPES_CONFIG } from '../constants';
+import { getLevelPar, rateLevelClear, formatStars } from '../lib/starRating';
+import { loadInputBindings } from '../lib/inputBindings';
+
+interface EditorTestPlayProps {
+  level: LevelConfiguration; // The editor's unsaved level; keep the object stable while playing
+  onExit: () => void;
+}
+
+interface TestPlayEvent {
+  blockId: string;
+  blockNumber: number; // 1-based position in the structure, as a designer can find it
+  isKing: boolean;
+  wasDestroyed: boolean;
+  chainDepth: number;
+  time: number; // Simulated seconds
+  beforeFirstShot: boolean; // Collapsed while the structure was settling
+}
+
+const getDefaultProjectileCounts = (): Record<ProjectileType, number> => {
+  return PROJECTILE_TYPES_CONFIG.reduce((acc, config) => {
+    acc[config.id] = config.defaultCount;
+    return acc;
+  }, {} as Record<ProjectileType, number>);
+};
+
+const describeEvent = (event: TestPlayEvent): string => {
+  const cause = event.chainDepth > 0 ? `연쇄 폭발 x${event.chainDepth}` : (event.wasDestroyed ? '파괴' : '넘어짐');
+  return `${event.isKing ? '황금 블록' : `블록 #${event.blockNumber}`} ${cause}`;
+};
+
+// Plays the editor's structure in a real game session without saving it. Nothing is recorded in the
+// profile or the replays, and leaving hands control straight back to the editor underneath.
+const EditorTestPlay: React.FC<EditorTestPlayProps> = ({ level, onExit }) => {
+  const gameCanvasRef = useRef<GameCanvasRef>(null);
+  const [projectileCounts, setProjectileCounts] = useState(getDefaultProjectileCounts);
+  const [selectedProjectileType, setSelectedProjectileType] = useState(ProjectileType.STANDARD);
+  const [isCharging, setIsCharging] = useState(false);
+  const [currentLaunchPower, setCurrentLaunchPower] = useState(0);
+  const [events, setEvents] = useState<TestPlayEvent[]>([]);
+  const [isLevelWon, setIsLevelWon] = useState(false);
+  const [message, setMessage] = useState('화면이나 발사 버튼을 길게 눌러 파워를 모아 발사하세요.');
+  const [showEvents, setShowEvents] = useState(true);
+  const [inputBindings] = useState(loadInputBindings);
+  const fallenBlockIdsRef = useRef<Set<string>>(new Set());
+  const projectileCountsRef = useRef(projectileCounts);
+  useEffect(() => { projectileCountsRef.current = projectileCounts; }, [projectileCounts]);
+
+  const totalProjectiles = Object.values(getDefaultProjectileCounts()).reduce((sum, count) => sum + count, 0);
+  const projectilesRemaining = Object.values(projectileCounts).reduce((sum, count) => sum + count, 0);
+  const shotsFired = totalProjectiles - projectilesRemaining;
+  const isOutOfProjectiles = projectilesRemaining === 0;
+  const canAttemptCharge = projectileCounts[selectedProjectileType] > 0 && !isLevelWon;
+  const settleCollapseCount = events.filter(event => event.beforeFirstShot).length;
+
+  const handleRestart = useCallback(() => {
+    gameCanvasRef.current?.resetLevel(level);
+    fallenBlockIdsRef.current = new Set();
+    setProjectileCounts(getDefaultProjectileCounts());
+    setIsCharging(false);
+    setCurrentLaunchPower(0);
+    setEvents([]);
+    setIsLevelWon(false);
+    setMessage('레벨을 다시 시작했습니다.');
+  }, [level]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onExit();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onExit]);
+
+  useEffect(() => {
+    if (isOutOfProjectiles && !isLevelWon) {
+      setMessage('발사체를 모두 사용했습니다! 황금 블록을 무너뜨리지 못했습니다.');
+    }
+  }, [isOutOfProjectiles, isLevelWon]);
+
+  const handleBlockFallen = useCallback((blockId: string, isKing: boolean, wasDestroyed = false, chainDepth = 0, time = 0) => {
+    if (fallenBlockIdsRef.current.has(blockId)) return;
+    fallenBlockIdsRef.current.add(blockId);
+    const beforeFirstShot = (gameCanvasRef.current?.getRecordedShots().length ?? 0) === 0;
+    setEvents(prev => [...prev, {
+      blockId,
+      blockNumber: level.structure.findIndex(block => block.id === blockId) + 1,
+      isKing,
+      wasDestroyed,
+      chainDepth,
+      time,
+      beforeFirstShot,
+    }]);
+    if (isKing) {
+      setIsLevelWon(true);
+      const remaining = Object.values(projectileCountsRef.current).reduce((sum, count) => sum + count, 0);
+      const rating = rateLevelClear(getLevelPar(level, totalProjectiles), {
+        shotsFired: totalProjectiles - remaining,
+        projectilesRemaining: remaining,
+        blocksToppled: fallenBlockIdsRef.current.size,
+      });
+      setMessage(beforeFirstShot
+        ? '황금 블록이 발사 전에 스스로 무너졌습니다! 구조물을 보강하세요.'
+        : `황금 블록을 무너뜨렸습니다! ${formatStars(rating.stars)} (파 ${rating.parMet}/${rating.parTotal})`);
+    }
+  }, [level, totalProjectiles]);
+
+  const handleChargeStart = useCallback(() => {
+    if (canAttemptCharge) {
+      setIsCharging(true);
+      setCurrentLaunchPower(0);
+    }
+  }, [canAttemptCharge]);
+
+  const handleChargeComplete = useCallback((finalPower: number) => {
+    setIsCharging(false);
+    setCurrentLaunchPower(0);
+    if (!canAttemptCharge) return;
+    const launchPower = Math.max(MIN_LAUNCH_POWER, finalPower);
+    gameCanvasRef.current?.launchProjectile(launchPower, selectedProjectileType);
+    setProjectileCounts(prev => ({ ...prev, [selectedProjectileType]: Math.max(0, prev[selectedProjectileType] - 1) }));
+    const launchedByName = PROJECTILE_TYPES_CONFIG.find(config => config.id === selectedProjectileType)?.name || '발사체';
+    setMessage(`${launchedByName} 발사! (파워: ${Math.round(launchPower * 100)}%)`);
+  }, [canAttemptCharge, selectedProjectileType]);
+
+  const handleSelectProjectileType = useCallback((type: ProjectileType) => {
+    if (projectileCounts[type] > 0) setSelectedProjectileType(type);
+  }, [projectileCounts]);
+
+  // There is no next level here, so that action does nothing
+  const handleInputAction = useCallback((action: InputAction) => {
+    if (action === 'restartLevel') handleRestart();
+    else if ((action === 'previousProjectile' || action === 'nextProjectile') && !isCharging) {
+      setSelectedProjectileType(getAdjacentProjectileType(PROJECTILE_TYPES_CONFIG, projectileCounts, selectedProjectileType, action === 'nextProjectile' ? 1 : -1));
+    }
+  }, [handleRestart, isCharging, projectileCounts, selectedProjectileType]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900/95 flex flex-col items-center p-2 sm:p-4 z-50 overflow-y-auto" role="dialog" aria-label="테스트 플레이">
+      <div className="w-full max-w-4xl flex flex-wrap items-center gap-2 mb-2">
+        <h2 className="text-lg sm:text-xl font-bold text-yellow-400 orbitron-font flex-grow truncate">테스트 플레이: {level.name}</h2>
+        <label className="flex items-center gap-1 text-xs sm:text-sm text-gray-300 cursor-pointer select-none">
+          <input type="checkbox" checked={showEvents} onChange={(e) => setShowEvents(e.target.checked)} className="accent-yellow-400" />
+          무너짐 기록 표시
+        </label>
+        <button onClick={handleRestart} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md shadow-sm text-xs sm:text-sm transition-colors">다시 시작</button>
+        <button onClick={onExit} title="에디터로 돌아가기 (Esc)" className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-md shadow-sm text-xs sm:text-sm transition-colors">에디터로 돌아가기</button>
+      </div>
+      <p className="w-full max-w-4xl text-gray-300 text-xs sm:text-sm mb-2">
+        발사 {shotsFired}회 · 넘어진 블록 {events.length}/{level.structure.length}개 · {message}
+      </p>
+      <div className="relative w-full max-w-4xl aspect-[16/9] bg-gray-700 rounded-lg shadow-2xl overflow-hidden border-2 border-yellow-500 flex-shrink-0">
+        <GameCanvas
+          ref={gameCanvasRef}
+          onBlockFallen={handleBlockFallen}
+          initialLevelConfig={level}
+          canAttemptCharge={canAttemptCharge}
+          onChargeStart={handleChargeStart}
+          onChargeProgress={setCurrentLaunchPower}
+          onChargeComplete={handleChargeComplete}
+          isDelegateModeActive={false}
+          trajectoryPreview={canAttemptCharge && !level.hideTrajectory
+            ? { projectileType: selectedProjectileType, power: Math.max(MIN_LAUNCH_POWER, isCharging ? currentLaunchPower : 0) }
+            : null}
+          inputBindings={inputBindings}
+          onInputAction={handleInputAction}
+        />
+        {showEvents && (
+          <div className="absolute top-2 left-2 max-h-[80%] w-48 sm:w-60 overflow-y-auto p-2 bg-gray-900/80 rounded-md text-xs pointer-events-auto" aria-live="polite">
+            <p className={`font-semibold mb-1 ${settleCollapseCount > 0 ? 'text-red-400' : 'text-gray-200'}`}>
+              {settleCollapseCount > 0 ? `발사 전 붕괴 ${settleCollapseCount}개` : '무너짐 기록'}
+            </p>
+            {events.length === 0 ? (
+              <p className="text-gray-400">아직 무너진 블록이 없습니다.</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {events.map(event => (
+                  <li key={event.blockId} className={event.beforeFirstShot ? 'text-red-300' : (event.isKing ? 'text-yellow-300' : 'text-gray-300')}>
+                    {event.time.toFixed(1)}초 · {describeEvent(event)}{event.beforeFirstShot ? ' (발사 전)' : ''}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="w-full max-w-4xl">
+        <PowerGauge isCharging={isCharging && canAttemptCharge} power={currentLaunchPower} />
+        <ProjectileSelector
+          projectileConfigs={PROJECTILE_TYPES_CONFIG}
+          projectileCounts={projectileCounts}
+          selectedProjectileType={selectedProjectileType}
+          onSelectProjectile={handleSelectProjectileType}
+          disabled={isCharging}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default EditorTestPlay;
@@ -1,29 +1,51 @@
 
-import React, { useRef, useEffect, useImperativeHandle, forwardRef, useCallback } from 'react';
+import React, { useRef, useEffect, useImperativeHandle, forwardRef, useCallback, useState } from 'react';
 import *                           as THREE from 'three';
-import *                           as CANNON from 'cannon-es';
 import { OrbitControls }           from 'three/examples/jsm/controls/OrbitControls.js';
-import { PhysicsObject, LevelConfiguration, BlockConfig, BlockShape, ProjectileType, ExplosionParticleSystem } from '../types';
+import * as CANNON from 'cannon-es';
+import { PhysicsObject, LevelConfiguration, LauncherAim, LauncherConfig, InputAction, InputBindings, RecordedShot, ShotConfig, ShotReplay, ReplayPlaybackState, ProjectileType, ExplosionParticleSystem, WorldSnapshot } from '../types';
 import { 
-  PROJECTILE_RADIUS, PROJECTILE_MASS, PROJECTILE_VELOCITY_MULTIPLIER, 
-  BLOCK_SIZE, BLOCK_MASS, MAX_CHARGE_DURATION_MS, MIN_LAUNCH_POWER, MAX_LAUNCH_POWER,
-  STANDARD_PROJECTILE_COLOR,
-  HEAVY_PROJECTILE_RADIUS, HEAVY_PROJECTILE_MASS, HEAVY_PROJECTILE_COLOR,
-  EXPLOSIVE_PROJECTILE_RADIUS, EXPLOSIVE_PROJECTILE_MASS, EXPLOSIVE_PROJECTILE_COLOR, EXPLOSION_RADIUS, EXPLOSION_STRENGTH, EXPLOSIVE_PROJECTILE_LIFESPAN_MS,
-  CLUSTER_PROJECTILE_RADIUS, CLUSTER_PROJECTILE_MASS, CLUSTER_PROJECTILE_COLOR, CLUSTER_SPLIT_DELAY_MS,
-  SUBMUNITION_COUNT, SUBMUNITION_RADIUS, SUBMUNITION_MASS, SUBMUNITION_COLOR, SUBMUNITION_SPREAD_IMPULSE, SUBMUNITION_LIFESPAN_MS,
+  BLOCK_SIZE, SIMULATION_TIME_STEP, DEFAULT_SIMULATION_SEED, MAX_CHARGE_DURATION_MS, MIN_LAUNCH_POWER, MAX_LAUNCH_POWER,
+  SUBMUNITION_RADIUS, SUBMUNITION_COLOR,
   EXPLOSION_PARTICLE_COUNT, EXPLOSION_PARTICLE_COLOR, EXPLOSION_PARTICLE_SIZE, EXPLOSION_PARTICLE_LIFESPAN_MS,
-  EXPLOSION_PARTICLE_INITIAL_SPEED, EXPLOSION_PARTICLE_GRAVITY, EXPLOSION_PARTICLE_DAMPING
+  EXPLOSION_PARTICLE_INITIAL_SPEED, EXPLOSION_PARTICLE_GRAVITY, EXPLOSION_PARTICLE_DAMPING,
+  TRAJECTORY_PREVIEW_TIME, TRAJECTORY_PREVIEW_COLOR, LAUNCHER_DRAG_SENSITIVITY, LAUNCHER_KEY_AIM_SPEED,
+  DEFAULT_INPUT_BINDINGS, CAMERA_KEY_ORBIT_SPEED,
+  TOUCH_AIM_SENSITIVITY, HAPTIC_CHARGE_START_MS, HAPTIC_FULL_POWER_MS, HAPTIC_FIRE_PATTERN
 } from '../constants';
+import { createSimulation, getProjectileSpec, msToSteps, predictTrajectory, Simulation } from '../lib/physicsSimulation';
+import { createAnchorOutline, createBlockGeometry, createBlockMaterial, createLauncherMesh, setLauncherMeshAim, disposeLauncherMesh } from '../lib/blockMeshes';
+import { getLevelLauncher, getInitialAim, clampAim, getAimDirection, getAimFromDirection, getAimTowards, getLauncherShot } from '../lib/launcher';
+import { getActionsForKey, getActionsForGamepadButton, readGamepad } from '../lib/inputBindings';
+import { captureWorldSnapshot } from '../lib/shotSolver';
+import { createSeededRandom } from '../lib/random';
+import { vibrate } from '../lib/haptics';
+import { getLevelCameraView } from '../lib/blockGeometry';
+import { getReplayDuration } from '../lib/replayStorage';
+import { DEG_TO_RAD } from '../lib/math';
 
 interface GameCanvasProps {
-  onBlockFallen: (blockId: string, isKing: boolean) => void;
+  // wasDestroyed: the block shattered. chainDepth: block explosions in the chain that brought it down. time: simulated seconds
+  onBlockFallen: (blockId: string, isKing: boolean, wasDestroyed?: boolean, chainDepth?: number, time?: number) => void;
   initialLevelConfig: LevelConfiguration;
   canAttemptCharge: boolean;
   onChargeStart: () => void;
   onChargeProgress: (power: number) => void;
   onChargeComplete: (power: number) => void;
   isDelegateModeActive: boolean; 
+  onReplayProgress?: (state: ReplayPlaybackState | null) => void; // null once the replay is stopped
+  trajectoryPreview?: TrajectoryPreview | null; // Arc of the shot a release would fire now; hidden when null
+  showReticle?: boolean; // Crosshair over the point the launcher is aimed at. Defaults to true
+  inputBindings?: InputBindings; // Keyboard and gamepad controls. Defaults to DEFAULT_INPUT_BINDINGS
+  isInputEnabled?: boolean; // False while a dialog over the canvas needs the keyboard. Defaults to true
+  // Actions the canvas leaves to its parent (projectile cycling, restart, next level); aiming, charging and the
+  // camera are handled here
+  onInputAction?: (action: InputAction) => void;
+}
+
+export interface TrajectoryPreview {
+  projectileType: ProjectileType;
+  power: number;
 }
 
 export interface GameCanvasRef {
@@ -31,15 +53,46 @@ export interface GameCanvasRef {
   resetLevel: (levelConfig: LevelConfiguration) => void;
   getGoldenBlockPosition: () => THREE.Vector3 | null;
   pointCameraTowards: (targetWorldPosition: THREE.Vector3) => void;
+  aimLauncherAt: (targetWorldPosition: THREE.Vector3) => void; // Straight line, within the launcher's range
+  getLauncherAim: () => LauncherAim;
+  setLauncherAim: (aim: LauncherAim) => void; // Clamped to the launcher's range
+  getRecordedShots: () => RecordedShot[]; // Every launch since the level was loaded
+  getWorldSnapshot: () => WorldSnapshot | null; // The level as it stands now; null during a replay
+  startReplay: (replay: ShotReplay) => void;
+  stopReplay: () => void; // Returns to the level being played, freshly loaded
+  setReplayPaused: (isPaused: boolean) => void;
+  seekReplay: (time: number) => void;
+  setReplaySpeed: (speed: number) => void;
+}
+
+interface ReplayPlayback {
+  replay: ShotReplay;
+  clock: number; // Replay position in simulated seconds
+  duration: number;
+  nextShotIndex: number;
+  isPaused: boolean;
+  speed: number;
+  isSeeking: boolean; // Fast-forwarding; skips effects that would all fire at once
+  lastReportedAt: number; // performance.now() of the last progress report
 }
 
-const GOLDEN_BLOCK_RENDER_COLOR = 0xffd700;
-const DEFAULT_BLOCK_RENDER_COLOR = 0xaaaaaa;
-const CYLINDER_SEGMENTS = 16; 
-const SPHERE_SEGMENTS = 16;   
+const REPLAY_PROGRESS_INTERVAL_MS = 100;
+const REPLAY_TIME_EPSILON = 1e-6;
+const EXPLOSION_PARTICLE_LIFESPAN_STEPS = msToSteps(EXPLOSION_PARTICLE_LIFESPAN_MS);
+const TRAJECTORY_PREVIEW_MAX_POINTS = Math.ceil(TRAJECTORY_PREVIEW_TIME / SIMULATION_TIME_STEP) + 1;
+const RETICLE_DISTANCE = BLOCK_SIZE * 8; // How far along the barrel the reticle is drawn
+const CAMERA_MIN_POLAR_ANGLE = 0.05; // Radians from straight above
+const CAMERA_MAX_POLAR_ANGLE = Math.PI / 2 - 0.05; // Stay above the ground
+
+type ChargeSource = 'pointer' | 'keyboard' | 'gamepad' | 'fireButton';
 
-let sphereShapeTypeNumber: number = 1;
+const FIRE_BUTTON_RING_RADIUS = 26;
+const FIRE_BUTTON_RING_LENGTH = 2 * Math.PI * FIRE_BUTTON_RING_RADIUS;
 
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT' || element.isContentEditable);
+};
 
 const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({ 
   onBlockFallen, 
@@ -48,7 +101,13 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
   onChargeStart,
   onChargeProgress,
   onChargeComplete,
-  isDelegateModeActive
+  isDelegateModeActive,
+  onReplayProgress,
+  trajectoryPreview = null,
+  showReticle = true,
+  inputBindings = DEFAULT_INPUT_BINDINGS,
+  isInputEnabled = true,
+  onInputAction
 }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -56,10 +115,33 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
   
-  const worldRef = useRef<CANNON.World | null>(null);
-  const physicsObjectsRef = useRef<PhysicsObject[]>([]);
-  const projectilesRef = useRef<PhysicsObject[]>([]);
+  const simulationRef = useRef<Simulation | null>(null);
+  const simulationSeedRef = useRef(DEFAULT_SIMULATION_SEED);
+  const loadedLevelRef = useRef<LevelConfiguration | null>(null); // Level the simulation was last loaded with
+  const meshesRef = useRef<Map<string, THREE.Mesh>>(new Map());
   const explosionParticleSystemsRef = useRef<ExplosionParticleSystem[]>([]);
+  const trajectoryLineRef = useRef<THREE.Line | null>(null);
+  const reticleRef = useRef<HTMLDivElement>(null);
+
+  // The launcher is aimed independently of the camera; shots leave from its muzzle
+  const launcherRef = useRef<LauncherConfig | null>(null);
+  const aimRef = useRef<LauncherAim>({ yaw: 0, pitch: 0 });
+  const launcherMeshRef = useRef<THREE.Group | null>(null);
+  const heldKeysRef = useRef<Set<string>>(new Set()); // KeyboardEvent.code of bound keys being held
+  const pressedGamepadButtonsRef = useRef<Set<number>>(new Set()); // As of the last frame, to find presses and releases
+  const lastAimPointerRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Touch: one finger aims, two or more belong to OrbitControls (orbit and pinch), the fire button charges
+  const touchPointerIdsRef = useRef<Set<number>>(new Set());
+  const aimTouchIdRef = useRef<number | null>(null);
+  const chargeRingRef = useRef<SVGCircleElement>(null);
+  const chargeTurnsRef = useRef(0); // Times the charge has passed full power, for the haptic tick
+  const [showTouchControls, setShowTouchControls] = useState(() =>
+    typeof window !== 'undefined' && !!window.matchMedia?.('(pointer: coarse)').matches);
+
+  const simulationUnsubscribeRef = useRef<(() => void) | null>(null);
+  const recordedShotsRef = useRef<RecordedShot[]>([]);
+  const replayRef = useRef<ReplayPlayback | null>(null);
 
   const animationFrameIdRef = useRef<number | null>(null); 
   const chargeUpdateRafId = useRef<number | null>(null); 
@@ -67,6 +149,10 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
 
   const onBlockFallenRef = useRef(onBlockFallen);
   useEffect(() => { onBlockFallenRef.current = onBlockFallen; }, [onBlockFallen]);
+  const onReplayProgressRef = useRef(onReplayProgress);
+  useEffect(() => { onReplayProgressRef.current = onReplayProgress; }, [onReplayProgress]);
+  const initialLevelConfigRef = useRef(initialLevelConfig);
+  useEffect(() => { initialLevelConfigRef.current = initialLevelConfig; }, [initialLevelConfig]);
 
   const onChargeStartRef = useRef(onChargeStart);
   useEffect(() => { onChargeStartRef.current = onChargeStart; }, [onChargeStart]);
@@ -81,169 +167,143 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
   const isDelegateModeActiveRef = useRef(isDelegateModeActive); 
   useEffect(() => { isDelegateModeActiveRef.current = isDelegateModeActive; }, [isDelegateModeActive]);
 
+  const trajectoryPreviewRef = useRef(trajectoryPreview);
+  useEffect(() => { trajectoryPreviewRef.current = trajectoryPreview; }, [trajectoryPreview]);
+
+  const inputBindingsRef = useRef(inputBindings);
+  useEffect(() => { inputBindingsRef.current = inputBindings; }, [inputBindings]);
+  const isInputEnabledRef = useRef(isInputEnabled);
+  useEffect(() => { isInputEnabledRef.current = isInputEnabled; }, [isInputEnabled]);
+  const onInputActionRef = useRef(onInputAction);
+  useEffect(() => { onInputActionRef.current = onInputAction; }, [onInputAction]);
+
 
   const isDraggingCameraRef = useRef(false);
   const isChargingActiveRef = useRef(false);
+  const chargeSourceRef = useRef<ChargeSource | null>(null); // Only the input that started a charge can release it
   const chargeStartTimeRef = useRef(0);
 
-  const cleanUpPhysicsObject = (obj: PhysicsObject, world: CANNON.World, scene: THREE.Scene) => {
-    if (obj.body) {
-        if (obj.projectileType === ProjectileType.EXPLOSIVE && obj.onCollideHandler) {
-           obj.body.removeEventListener("collide", obj.onCollideHandler);
-        }
-        world.removeBody(obj.body);
-    }
-    if (obj.mesh) {
-        scene.remove(obj.mesh);
-        obj.mesh.geometry.dispose();
-        if (obj.mesh.material) { 
-          const material = obj.mesh.material as THREE.Material | THREE.Material[];
-          if (Array.isArray(material)) {
-            material.forEach(m => m.dispose());
-          } else {
-            material.dispose();
-          }
-        }
+  const disposeMesh = (mesh: THREE.Mesh, scene: THREE.Scene) => {
+    scene.remove(mesh);
+    mesh.geometry.dispose();
+    mesh.children.forEach(child => {
+      const outline = child as THREE.LineSegments;
+      outline.geometry.dispose();
+      (outline.material as THREE.Material).dispose();
+    });
+    const material = mesh.material as THREE.Material | THREE.Material[];
+    if (Array.isArray(material)) {
+      material.forEach(m => m.dispose());
+    } else {
+      material.dispose();
     }
   };
 
+  const clearMeshes = (scene: THREE.Scene) => {
+    meshesRef.current.forEach(mesh => disposeMesh(mesh, scene));
+    meshesRef.current.clear();
+  };
+
   const cleanUpExplosionParticleSystem = (system: ExplosionParticleSystem, scene: THREE.Scene) => {
     scene.remove(system.points);
     system.points.geometry.dispose();
     (system.points.material as THREE.Material).dispose();
   };
-  
-  const createBlockVisualAndPhysics = (blockConf: BlockConfig, scene: THREE.Scene, world: CANNON.World): PhysicsObject => {
-    const shapeType: BlockShape = blockConf.shape || 'cube';
-    let geometry: THREE.BufferGeometry;
-    let cannonShape: CANNON.Shape;
-
-    switch (shapeType) {
-        case 'cylinder':
-            geometry = new THREE.CylinderGeometry(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE, CYLINDER_SEGMENTS);
-            cannonShape = new CANNON.Cylinder(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE, CYLINDER_SEGMENTS);
-            break;
-        case 'sphere':
-            geometry = new THREE.SphereGeometry(BLOCK_SIZE / 2, SPHERE_SEGMENTS, SPHERE_SEGMENTS);
-            cannonShape = new CANNON.Sphere(BLOCK_SIZE / 2);
-            break;
-        case 'cube_2x1x1': 
-            geometry = new THREE.BoxGeometry(BLOCK_SIZE * 2, BLOCK_SIZE, BLOCK_SIZE);
-            cannonShape = new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE, BLOCK_SIZE / 2, BLOCK_SIZE / 2)); 
-            break;
-        case 'cube_3x1x1': 
-            geometry = new THREE.BoxGeometry(BLOCK_SIZE * 3, BLOCK_SIZE, BLOCK_SIZE);
-            cannonShape = new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE * 1.5, BLOCK_SIZE / 2, BLOCK_SIZE / 2)); 
-            break;
-        case 'cube':
-        default:
-            geometry = new THREE.BoxGeometry(BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
-            cannonShape = new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE / 2));
-            break;
+
+  const createMeshForObject = (obj: PhysicsObject): THREE.Mesh => {
+    if (obj.isDebris && obj.blockConfig) {
+      const { halfExtents } = obj.body.shapes[0] as CANNON.Box;
+      const mesh = new THREE.Mesh(
+        new THREE.BoxGeometry(halfExtents.x * 2, halfExtents.y * 2, halfExtents.z * 2),
+        createBlockMaterial(obj.blockConfig)
+      );
+      mesh.castShadow = true;
+      return mesh;
     }
-    
-    const blockColor = blockConf.isKing ? GOLDEN_BLOCK_RENDER_COLOR : (blockConf.color !== undefined ? blockConf.color : DEFAULT_BLOCK_RENDER_COLOR);
-    const material = new THREE.MeshStandardMaterial({ 
-      color: blockColor,
-      metalness: blockConf.isKing ? 0.8 : 0.3,
-      roughness: blockConf.isKing ? 0.2 : 0.6,
-    });
-    const mesh = new THREE.Mesh(geometry, material);
+    if (obj.blockConfig) {
+      const material = createBlockMaterial(obj.blockConfig);
+      const mesh = new THREE.Mesh(createBlockGeometry(obj.blockConfig.shape), material);
+      if (obj.blockConfig.anchor) {
+        mesh.add(createAnchorOutline(mesh.geometry, obj.blockConfig.anchor));
+      }
+      mesh.userData.baseColor = material.color.clone();
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      return mesh;
+    }
+    if (obj.isSubmunition) {
+      const mesh = new THREE.Mesh(
+        new THREE.SphereGeometry(SUBMUNITION_RADIUS, 8, 8),
+        new THREE.MeshStandardMaterial({ color: SUBMUNITION_COLOR, metalness: 0.3, roughness: 0.7 })
+      );
+      mesh.castShadow = true;
+      return mesh;
+    }
+    const { radius, color } = getProjectileSpec(obj.projectileType || ProjectileType.STANDARD);
+    const mesh = new THREE.Mesh(
+      new THREE.SphereGeometry(radius, 16, 16),
+      new THREE.MeshStandardMaterial({ color, metalness: 0.5, roughness: 0.5 })
+    );
     mesh.castShadow = true;
-    mesh.receiveShadow = true;
-    mesh.position.set(blockConf.x, blockConf.y, blockConf.z); 
-    scene.add(mesh);
-
-    const body = new CANNON.Body({ mass: BLOCK_MASS, shape: cannonShape });
-    body.position.set(blockConf.x, blockConf.y, blockConf.z); 
-    world.addBody(body);
-    
-    return { 
-        mesh, 
-        body, 
-        id: blockConf.id, 
-        isKing: !!blockConf.isKing,
-        initialY: blockConf.y, 
-        isFallen: false 
-    };
+    return mesh;
   };
 
-  const createStructure = useCallback((levelConfig: LevelConfiguration) => {
-    if (!worldRef.current || !sceneRef.current) return;
-    
-    physicsObjectsRef.current.forEach(obj => cleanUpPhysicsObject(obj, worldRef.current!, sceneRef.current!));
-    physicsObjectsRef.current = [];
-
-    levelConfig.structure.forEach((blockConf: BlockConfig) => {
-      const physObj = createBlockVisualAndPhysics(blockConf, sceneRef.current!, worldRef.current!);
-      physicsObjectsRef.current.push(physObj);
+  // Mirrors the simulation's bodies into the scene: new bodies get a mesh, removed bodies lose theirs.
+  const syncMeshes = (simulation: Simulation, scene: THREE.Scene) => {
+    const liveIds = new Set<string>();
+    [...simulation.getBlocks(), ...simulation.getProjectiles(), ...simulation.getDebris()].forEach(obj => {
+      liveIds.add(obj.id);
+      let mesh = meshesRef.current.get(obj.id);
+      if (!mesh) {
+        mesh = createMeshForObject(obj);
+        scene.add(mesh);
+        meshesRef.current.set(obj.id, mesh);
+      }
+      mesh.position.copy(obj.body.position as unknown as THREE.Vector3);
+      mesh.quaternion.copy(obj.body.quaternion as unknown as THREE.Quaternion);
+      // Damaged blocks darken as they lose health
+      if (obj.maxHealth && obj.health !== undefined && mesh.userData.baseColor) {
+        const healthRatio = obj.health / obj.maxHealth;
+        (mesh.material as THREE.MeshStandardMaterial).color.copy(mesh.userData.baseColor).multiplyScalar(0.4 + 0.6 * healthRatio);
+      }
+    });
+    meshesRef.current.forEach((mesh, id) => {
+      if (!liveIds.has(id)) {
+        disposeMesh(mesh, scene);
+        meshesRef.current.delete(id);
+      }
     });
+  };
 
-    if (cameraRef.current && controlsRef.current) {
-        if (levelConfig.cameraPosition) {
-            cameraRef.current.position.set(levelConfig.cameraPosition.x, levelConfig.cameraPosition.y, levelConfig.cameraPosition.z);
-        } else { 
-            let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity;
-            if (levelConfig.structure.length > 0) {
-                 levelConfig.structure.forEach(b => {
-                    let halfWidth = BLOCK_SIZE / 2; let halfDepth = BLOCK_SIZE / 2;
-                    if (b.shape === 'cube_2x1x1') halfWidth = BLOCK_SIZE;
-                    else if (b.shape === 'cube_3x1x1') halfWidth = BLOCK_SIZE * 1.5;
-                    
-                    minX = Math.min(minX, b.x - halfWidth); maxX = Math.max(maxX, b.x + halfWidth);
-                    minY = Math.min(minY, b.y - BLOCK_SIZE/2); maxY = Math.max(maxY, b.y + BLOCK_SIZE/2); 
-                    minZ = Math.min(minZ, b.z - halfDepth); maxZ = Math.max(maxZ, b.z + halfDepth);
-                });
-                const centerX = (minX + maxX) / 2;
-                const centerY = (minY + maxY) / 2;
-                const centerZ = (minZ + maxZ) / 2;
-                const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ, BLOCK_SIZE * 5) || BLOCK_SIZE * 5; 
-                cameraRef.current.position.set(centerX, centerY + extent * 0.75, centerZ + extent * 1.5);
-            } else {
-                 cameraRef.current.position.set(0, BLOCK_SIZE * 2, BLOCK_SIZE * 5);
-            }
-        }
-        if (levelConfig.cameraTarget) {
-            controlsRef.current.target.set(levelConfig.cameraTarget.x, levelConfig.cameraTarget.y, levelConfig.cameraTarget.z);
-        } else { 
-            if (levelConfig.structure.length > 0) {
-                 let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity;
-                 levelConfig.structure.forEach(b => {
-                    let halfWidth = BLOCK_SIZE / 2; let halfDepth = BLOCK_SIZE / 2;
-                     if (b.shape === 'cube_2x1x1') halfWidth = BLOCK_SIZE;
-                     else if (b.shape === 'cube_3x1x1') halfWidth = BLOCK_SIZE * 1.5;
-
-                    minX = Math.min(minX, b.x - halfWidth); maxX = Math.max(maxX, b.x + halfWidth);
-                    minY = Math.min(minY, b.y - BLOCK_SIZE/2); maxY = Math.max(maxY, b.y + BLOCK_SIZE/2);
-                    minZ = Math.min(minZ, b.z - halfDepth); maxZ = Math.max(maxZ, b.z + halfDepth);
-                });
-                controlsRef.current.target.set((minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2);
-            } else {
-                 controlsRef.current.target.set(0, BLOCK_SIZE, 0); 
-            }
-        }
-        controlsRef.current.update();
-    }
+  const frameCamera = useCallback((levelConfig: LevelConfiguration) => {
+    if (!cameraRef.current || !controlsRef.current) return;
+
+    const { position, target } = getLevelCameraView(levelConfig);
+    cameraRef.current.position.set(position.x, position.y, position.z);
+    controlsRef.current.target.set(target.x, target.y, target.z);
+    controlsRef.current.update();
   }, []);
 
-   const handleExplosion = useCallback((position: CANNON.Vec3, explosionRadius: number, explosionStrength: number) => {
-    if (!worldRef.current || !sceneRef.current) return;
+  const spawnExplosionParticles = useCallback((position: { x: number; y: number; z: number }) => {
+    if (!sceneRef.current || !simulationRef.current) return;
 
+    // Each burst is seeded from the step it happens on, so a replay draws the same particles even after seeking
+    const creationStep = simulationRef.current.getStepCount();
+    const random = createSeededRandom(simulationSeedRef.current * 100003 + creationStep);
     const particlePositions: number[] = [];
     const particleVelocities: THREE.Vector3[] = [];
-    const systemCreationTime = performance.now();
 
     for (let i = 0; i < EXPLOSION_PARTICLE_COUNT; i++) {
         particlePositions.push(0, 0, 0); 
 
-        const theta = Math.random() * 2 * Math.PI;
-        const phi = Math.acos((Math.random() * 2) - 1);
+        const theta = random() * 2 * Math.PI;
+        const phi = Math.acos((random() * 2) - 1);
         const x = Math.sin(phi) * Math.cos(theta);
         const y = Math.sin(phi) * Math.sin(theta);
         const z = Math.cos(phi);
         
         const velocity = new THREE.Vector3(x, y, z);
-        velocity.multiplyScalar(EXPLOSION_PARTICLE_INITIAL_SPEED * (0.75 + Math.random() * 0.5));
+        velocity.multiplyScalar(EXPLOSION_PARTICLE_INITIAL_SPEED * (0.75 + random() * 0.5));
         particleVelocities.push(velocity);
     }
 
@@ -259,35 +319,187 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     });
 
     const points = new THREE.Points(geometry, material);
-    points.position.copy(position as unknown as THREE.Vector3);
+    points.position.set(position.x, position.y, position.z);
     sceneRef.current.add(points);
 
     explosionParticleSystemsRef.current.push({
         points,
         velocities: particleVelocities,
-        creationTime: systemCreationTime,
+        creationStep,
+        lastStep: creationStep,
     });
+  }, []);
 
-    physicsObjectsRef.current.forEach(obj => { 
-      if (obj.body) {
-        const distVec = new CANNON.Vec3();
-        obj.body.position.vsub(position, distVec);
-        const distance = distVec.length();
-
-        if (distance < explosionRadius) {
-          distVec.normalize();
-          const strengthFactor = Math.max(0, (1 - (distance / explosionRadius)));
-          const impulseMagnitude = explosionStrength * strengthFactor;
-          distVec.scale(impulseMagnitude, distVec);
-          obj.body.applyImpulse(distVec, obj.body.position);
-          if (obj.body.sleepState === CANNON.Body.SLEEPING) {
-            obj.body.wakeUp();
-          }
-        }
+  // Replaces the current simulation (if any) with a fresh one for levelConfig and mirrors it into the scene.
+  // Replays always start from a fresh world so they step exactly like the recorded attempt did.
+  const attachSimulation = useCallback((levelConfig: LevelConfiguration, seed = DEFAULT_SIMULATION_SEED): Simulation => {
+    simulationUnsubscribeRef.current?.();
+    simulationRef.current?.dispose();
+    if (sceneRef.current) {
+      clearMeshes(sceneRef.current);
+      explosionParticleSystemsRef.current.forEach(system => cleanUpExplosionParticleSystem(system, sceneRef.current!));
+      explosionParticleSystemsRef.current = [];
+    }
+
+    const simulation = createSimulation(levelConfig, { seed, deterministic: true });
+    simulationRef.current = simulation;
+    loadedLevelRef.current = levelConfig;
+    simulationSeedRef.current = seed;
+    simulationUnsubscribeRef.current = simulation.subscribe(event => {
+      if (event.type === 'explosion') {
+        if (!replayRef.current?.isSeeking) spawnExplosionParticles(event.position);
+      } else if (replayRef.current) {
+        return; // Replays never score
+      } else if (event.type === 'blockFallen') {
+        onBlockFallenRef.current(event.blockId, event.isKing, false, event.chainDepth, event.time);
+      } else if (event.type === 'blockDestroyed') {
+        onBlockFallenRef.current(event.blockId, event.isKing, true, event.chainDepth, event.time);
       }
     });
-  }, []);
+    if (sceneRef.current) {
+      syncMeshes(simulation, sceneRef.current);
+    }
+    return simulation;
+  }, [spawnExplosionParticles]);
+
+  const reportReplayProgress = (force = false) => {
+    const playback = replayRef.current;
+    if (!playback) return;
+    const now = performance.now();
+    if (!force && now - playback.lastReportedAt < REPLAY_PROGRESS_INTERVAL_MS) return;
+    playback.lastReportedAt = now;
+    onReplayProgressRef.current?.({ time: playback.clock, duration: playback.duration, isPaused: playback.isPaused, speed: playback.speed });
+  };
+
+  // Steps the replay on the fixed grid up to targetTime, firing each shot on the step it was recorded at
+  const advanceReplay = (playback: ReplayPlayback, simulation: Simulation, targetTime: number) => {
+    const { shots } = playback.replay;
+    const fireDueShots = () => {
+      const elapsed = simulation.getStepCount() * SIMULATION_TIME_STEP;
+      while (playback.nextShotIndex < shots.length && shots[playback.nextShotIndex].fireAt <= elapsed + REPLAY_TIME_EPSILON) {
+        const shot = shots[playback.nextShotIndex++];
+        simulation.launch(shot);
+        setAim(getAimFromDirection(shot.direction));
+      }
+    };
+    fireDueShots();
+    while ((simulation.getStepCount() + 1) * SIMULATION_TIME_STEP <= targetTime + REPLAY_TIME_EPSILON) {
+      simulation.step();
+      fireDueShots();
+    }
+  };
+
+  // Replaces the launcher (and its mesh) and points it the way the launcher starts out
+  const setupLauncher = (launcher: LauncherConfig) => {
+    launcherRef.current = launcher;
+    aimRef.current = getInitialAim(launcher);
+    if (launcherMeshRef.current) disposeLauncherMesh(launcherMeshRef.current);
+    launcherMeshRef.current = null;
+    if (sceneRef.current) {
+      launcherMeshRef.current = createLauncherMesh(launcher);
+      setLauncherMeshAim(launcherMeshRef.current, aimRef.current);
+      sceneRef.current.add(launcherMeshRef.current);
+    }
+  };
+
+  const setAim = (aim: LauncherAim) => {
+    if (!launcherRef.current) return;
+    aimRef.current = clampAim(launcherRef.current, aim);
+    if (launcherMeshRef.current) setLauncherMeshAim(launcherMeshRef.current, aimRef.current);
+  };
+
+  // Turns the launcher by screen-relative amounts: positive yaw turns it left as seen from the camera, whichever
+  // side of the launcher the camera has been orbited to
+  const turnAim = (deltaYaw: number, deltaPitch: number) => {
+    if (!cameraRef.current) return;
+    const view = new THREE.Vector3();
+    cameraRef.current.getWorldDirection(view);
+    const barrel = getAimDirection(aimRef.current);
+    const yawSign = view.x * barrel.x + view.z * barrel.z >= 0 ? 1 : -1;
+    setAim({ yaw: aimRef.current.yaw + deltaYaw * yawSign, pitch: aimRef.current.pitch + deltaPitch });
+  };
+
+  const getAimShot = (launchPower: number, projectileType: ProjectileType): ShotConfig => {
+    return getLauncherShot(launcherRef.current!, aimRef.current, launchPower, projectileType);
+  };
+
+  // Keeps the reticle over a point a little way along the barrel
+  const updateReticle = (camera: THREE.PerspectiveCamera) => {
+    const reticle = reticleRef.current;
+    const launcher = launcherRef.current;
+    if (!reticle || !launcher) return;
+    const direction = getAimDirection(aimRef.current);
+    const point = new THREE.Vector3(launcher.position.x, launcher.position.y, launcher.position.z)
+      .addScaledVector(new THREE.Vector3(direction.x, direction.y, direction.z), RETICLE_DISTANCE)
+      .project(camera);
+    const isOnScreen = point.z < 1 && Math.abs(point.x) <= 1 && Math.abs(point.y) <= 1;
+    reticle.style.display = isOnScreen ? '' : 'none';
+    reticle.style.left = `${(point.x + 1) * 50}%`;
+    reticle.style.top = `${(1 - point.y) * 50}%`;
+  };
+
+  const updateTrajectoryLine = (simulation: Simulation) => {
+    const line = trajectoryLineRef.current;
+    if (!line) return;
+    const preview = trajectoryPreviewRef.current;
+    line.visible = !!preview && !replayRef.current && !!launcherRef.current;
+    if (!line.visible) return;
+
+    const points = predictTrajectory(getAimShot(preview!.power, preview!.projectileType), { world: simulation.world });
+    const positions = line.geometry.attributes.position as THREE.BufferAttribute;
+    points.forEach((point, i) => positions.setXYZ(i, point.x, point.y, point.z));
+    positions.needsUpdate = true;
+    line.geometry.setDrawRange(0, points.length);
+    line.geometry.computeBoundingSphere();
+    line.computeLineDistances();
+  };
+
+  // Moves the camera around the orbit target; positive azimuth goes right, positive polar goes down
+  const orbitCamera = (deltaAzimuth: number, deltaPolar: number) => {
+    const camera = cameraRef.current;
+    const controls = controlsRef.current;
+    if (!camera || !controls) return;
+    const offset = camera.position.clone().sub(controls.target);
+    const spherical = new THREE.Spherical().setFromVector3(offset);
+    spherical.theta += deltaAzimuth;
+    spherical.phi = Math.max(CAMERA_MIN_POLAR_ANGLE, Math.min(CAMERA_MAX_POLAR_ANGLE, spherical.phi + deltaPolar));
+    camera.position.copy(controls.target).add(offset.setFromSpherical(spherical));
+    camera.lookAt(controls.target);
+  };
+
+  // Polled every frame: held keys, buttons and sticks turn the launcher and the camera, and gamepad buttons that
+  // changed since the last frame count as presses and releases
+  const updateHeldInput = (deltaTime: number, canAim: boolean) => {
+    const bindings = inputBindingsRef.current;
+    const gamepad = isInputEnabledRef.current ? readGamepad() : null;
+    const pressedButtons = gamepad?.pressedButtons ?? new Set<number>();
+    const previousButtons = pressedGamepadButtonsRef.current;
+    pressedGamepadButtonsRef.current = pressedButtons;
+    previousButtons.forEach(button => {
+      if (!pressedButtons.has(button)) getActionsForGamepadButton(bindings, button).forEach(action => handleActionReleased(action, 'gamepad'));
+    });
+    pressedButtons.forEach(button => {
+      if (!previousButtons.has(button)) getActionsForGamepadButton(bindings, button).forEach(action => handleActionPressed(action, 'gamepad'));
+    });
+
+    const isHeld = (action: InputAction) =>
+      bindings[action].keys.some(code => heldKeysRef.current.has(code)) || bindings[action].gamepadButtons.some(button => pressedButtons.has(button));
+    const axis = (negative: InputAction, positive: InputAction) => (isHeld(positive) ? 1 : 0) - (isHeld(negative) ? 1 : 0);
+    const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
 
+    const yawRate = clampUnit(axis('aimRight', 'aimLeft') - (gamepad?.leftStick.x ?? 0));
+    const pitchRate = clampUnit(axis('aimDown', 'aimUp') - (gamepad?.leftStick.y ?? 0));
+    if (canAim && (yawRate !== 0 || pitchRate !== 0)) {
+      turnAim(yawRate * LAUNCHER_KEY_AIM_SPEED * deltaTime, pitchRate * LAUNCHER_KEY_AIM_SPEED * deltaTime);
+    }
+
+    const azimuthRate = clampUnit(axis('cameraLeft', 'cameraRight') + (gamepad?.rightStick.x ?? 0));
+    const polarRate = clampUnit(axis('cameraUp', 'cameraDown') + (gamepad?.rightStick.y ?? 0));
+    if (azimuthRate !== 0 || polarRate !== 0) {
+      const step = CAMERA_KEY_ORBIT_SPEED * DEG_TO_RAD * deltaTime;
+      orbitCamera(azimuthRate * step, polarRate * step);
+    }
+  };
 
   const animate = useCallback(() => {
     animationFrameIdRef.current = requestAnimationFrame(animate);
@@ -297,147 +509,61 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     
     deltaTime = Math.max(0, Math.min(1/30, deltaTime));
 
-    if (worldRef.current && sceneRef.current && rendererRef.current && cameraRef.current) {
-      worldRef.current.step(1 / 60, deltaTime, 3);
-      
-      physicsObjectsRef.current.forEach(obj => {
-        if (obj.mesh && obj.body) {
-          obj.mesh.position.copy(obj.body.position as unknown as THREE.Vector3);
-          obj.mesh.quaternion.copy(obj.body.quaternion as unknown as THREE.Quaternion);
-          if (!obj.isFallen) {
-            const currentCenterY = obj.body.position.y;
-            const hasDroppedSignificantly = currentCenterY < (obj.initialY - BLOCK_SIZE * 0.375);
-            const upVector = new CANNON.Vec3(0, 1, 0);
-            const bodyUpDirection = obj.body.quaternion.vmult(upVector);
-            const isSignificantlyTilted = bodyUpDirection.y < 0.5; 
-            let isSphere = false;
-            if (obj.body.shapes && obj.body.shapes.length > 0 && obj.body.shapes[0]) {
-                isSphere = obj.body.shapes[0].type === sphereShapeTypeNumber;
-            }
-            if (hasDroppedSignificantly || (!isSphere && isSignificantlyTilted) ) {
-              obj.isFallen = true;
-              onBlockFallenRef.current(obj.id, !!obj.isKing);
-            }
-          }
-        }
-      });
-      
-      const projectilesToRemove: PhysicsObject[] = [];
-      const newSubmunitions: PhysicsObject[] = [];
-
-      projectilesRef.current.forEach(proj => {
-        if (!proj.body || !worldRef.current || !sceneRef.current) {
-            projectilesToRemove.push(proj);
-            return;
-        }
-        if (proj.mesh) {
-             proj.mesh.position.copy(proj.body.position as unknown as THREE.Vector3);
-             proj.mesh.quaternion.copy(proj.body.quaternion as unknown as THREE.Quaternion);
-        }
-
-        let expired = false;
-        if(proj.lifeSpan && proj.creationTime){
-            if((currentTime - proj.creationTime) > proj.lifeSpan){
-                expired = true;
-            }
-        }
-
-        if (proj.projectileType === ProjectileType.EXPLOSIVE && !proj.hasSplit) {
-            const shouldExplodeByTimeoutOrSleep = expired || proj.body.sleepState === CANNON.Body.SLEEPING;
-            if (shouldExplodeByTimeoutOrSleep) {
-                handleExplosion(proj.body.position.clone(), EXPLOSION_RADIUS, EXPLOSION_STRENGTH);
-                proj.hasSplit = true; 
-            }
-        }
-        else if (proj.projectileType === ProjectileType.CLUSTER && !proj.hasSplit && expired) {
-          proj.hasSplit = true; 
-          
-          for (let i = 0; i < SUBMUNITION_COUNT; i++) {
-            const submunitionGeometry = new THREE.SphereGeometry(SUBMUNITION_RADIUS, 8, 8);
-            const submunitionMaterial = new THREE.MeshStandardMaterial({ color: SUBMUNITION_COLOR, metalness: 0.3, roughness: 0.7 });
-            const submunitionMesh = new THREE.Mesh(submunitionGeometry, submunitionMaterial);
-            submunitionMesh.castShadow = true;
-
-            const submunitionShape = new CANNON.Sphere(SUBMUNITION_RADIUS);
-            const submunitionBody = new CANNON.Body({ mass: SUBMUNITION_MASS, shape: submunitionShape });
-            submunitionBody.linearDamping = 0.2;
-            
-            submunitionBody.position.copy(proj.body.position);
-            submunitionMesh.position.copy(proj.body.position as unknown as THREE.Vector3);
-
-            const spreadDir = new CANNON.Vec3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).unit();
-            submunitionBody.velocity.copy(proj.body.velocity); 
-            submunitionBody.applyImpulse(spreadDir.scale(SUBMUNITION_SPREAD_IMPULSE, spreadDir), submunitionBody.position);
-            
-            sceneRef.current.add(submunitionMesh);
-            worldRef.current.addBody(submunitionBody);
-            newSubmunitions.push({
-              mesh: submunitionMesh, body: submunitionBody,
-              id: `sub_${proj.id}_${i}`, initialY: submunitionBody.position.y, isFallen: false,
-              projectileType: ProjectileType.STANDARD, 
-              isSubmunition: true,
-              lifeSpan: SUBMUNITION_LIFESPAN_MS,
-              creationTime: currentTime,
-            });
-          }
-        }
-
-        let shouldRemove = false;
-        if (proj.body.position.y < -10) {
-            shouldRemove = true;
-        } else if (proj.hasSplit) {
-            shouldRemove = true;
-        } else if (expired && proj.isSubmunition) {
-            shouldRemove = true;
-        } else if (proj.body.sleepState === CANNON.Body.SLEEPING && proj.body.velocity.lengthSquared() < 0.01) {
-            if (!proj.projectileType || proj.isSubmunition) {
-                shouldRemove = true;
-            }
-        }
-
-        if (shouldRemove) {
-            projectilesToRemove.push(proj);
-        }
-      });
-
-      projectilesToRemove.forEach(p => cleanUpPhysicsObject(p, worldRef.current!, sceneRef.current!));
-      projectilesRef.current = projectilesRef.current.filter(p => !projectilesToRemove.includes(p));
-      if (newSubmunitions.length > 0) {
-        projectilesRef.current.push(...newSubmunitions);
+    if (simulationRef.current && sceneRef.current && rendererRef.current && cameraRef.current) {
+      const playback = replayRef.current;
+      if (!playback) {
+        simulationRef.current.step(deltaTime);
+      } else if (!playback.isPaused) {
+        playback.clock = Math.min(playback.duration, playback.clock + deltaTime * playback.speed);
+        advanceReplay(playback, simulationRef.current, playback.clock);
+        playback.isPaused = playback.clock >= playback.duration; // Hold the last frame at the end
+        reportReplayProgress(playback.isPaused);
       }
+      syncMeshes(simulationRef.current, sceneRef.current);
 
       for (let i = explosionParticleSystemsRef.current.length - 1; i >= 0; i--) {
         const system = explosionParticleSystemsRef.current[i];
-        const age = currentTime - system.creationTime;
+        const stepCount = simulationRef.current.getStepCount();
+        const age = stepCount - system.creationStep;
 
-        if (age > EXPLOSION_PARTICLE_LIFESPAN_MS) {
+        if (age > EXPLOSION_PARTICLE_LIFESPAN_STEPS) {
             cleanUpExplosionParticleSystem(system, sceneRef.current);
             explosionParticleSystemsRef.current.splice(i, 1);
             continue;
         }
 
-        const lifeRatio = age / EXPLOSION_PARTICLE_LIFESPAN_MS;
+        const lifeRatio = age / EXPLOSION_PARTICLE_LIFESPAN_STEPS;
         const material = system.points.material as THREE.PointsMaterial;
         material.opacity = Math.max(0, 1.0 - lifeRatio * 1.5);
         material.size = Math.max(0.01, EXPLOSION_PARTICLE_SIZE * (1.0 - lifeRatio * 0.75));
 
+        // Particles move once per simulation step, so they freeze and slow down with the simulation
         const positions = system.points.geometry.attributes.position as THREE.BufferAttribute;
-        for (let j = 0; j < system.velocities.length; j++) {
-            const vel = system.velocities[j];
-            positions.setX(j, positions.getX(j) + vel.x * deltaTime);
-            positions.setY(j, positions.getY(j) + vel.y * deltaTime);
-            positions.setZ(j, positions.getZ(j) + vel.z * deltaTime);
-            
-            vel.y += EXPLOSION_PARTICLE_GRAVITY * deltaTime;
-            vel.multiplyScalar(EXPLOSION_PARTICLE_DAMPING);
+        for (; system.lastStep < stepCount; system.lastStep++) {
+          for (let j = 0; j < system.velocities.length; j++) {
+              const vel = system.velocities[j];
+              positions.setX(j, positions.getX(j) + vel.x * SIMULATION_TIME_STEP);
+              positions.setY(j, positions.getY(j) + vel.y * SIMULATION_TIME_STEP);
+              positions.setZ(j, positions.getZ(j) + vel.z * SIMULATION_TIME_STEP);
+              
+              vel.y += EXPLOSION_PARTICLE_GRAVITY * SIMULATION_TIME_STEP;
+              vel.multiplyScalar(EXPLOSION_PARTICLE_DAMPING);
+          }
         }
         positions.needsUpdate = true;
       }
       
+      updateHeldInput(deltaTime, !playback);
       controlsRef.current?.update();
+      updateReticle(cameraRef.current);
+      updateTrajectoryLine(simulationRef.current);
       rendererRef.current.render(sceneRef.current, cameraRef.current);
     }
-  }, [handleExplosion]); 
+  }, []); 
+
+  const setChargeRing = (power: number) => {
+    chargeRingRef.current?.setAttribute('stroke-dashoffset', String(FIRE_BUTTON_RING_LENGTH * (1 - power / MAX_LAUNCH_POWER)));
+  };
 
   const chargeUpdateLoop = useCallback(() => {
     if (!isChargingActiveRef.current) return;
@@ -451,6 +577,12 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     }
     
     onChargeProgressRef.current(displayPower);
+    setChargeRing(displayPower);
+    const turns = Math.floor(rawPower / MAX_LAUNCH_POWER);
+    if (turns > chargeTurnsRef.current) {
+      chargeTurnsRef.current = turns;
+      if (chargeSourceRef.current === 'fireButton') vibrate(HAPTIC_FULL_POWER_MS);
+    }
     chargeUpdateRafId.current = requestAnimationFrame(chargeUpdateLoop);
   }, []);
 
@@ -466,29 +598,20 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     }
   }, []);
 
-  const handlePointerDown = useCallback((event: PointerEvent) => {
-    if (event.button !== 0) return; 
-    if (!canAttemptChargeRef.current || isDraggingCameraRef.current || isChargingActiveRef.current || isDelegateModeActiveRef.current) {
-      return;
-    }
-     if (mountRef.current && rendererRef.current && (event.target === rendererRef.current.domElement || mountRef.current.contains(event.target as Node))) {
-        isChargingActiveRef.current = true;
-        chargeStartTimeRef.current = performance.now();
-        onChargeStartRef.current();
-        startCharge();
-        
-        window.addEventListener('pointerup', handlePointerUpGlobal);
-        window.addEventListener('pointercancel', handlePointerUpGlobal);
-     }
-  }, [startCharge]); 
-
-  const handlePointerUpGlobal = useCallback((event: PointerEvent) => {
-    if (!isChargingActiveRef.current) {
-      window.removeEventListener('pointerup', handlePointerUpGlobal);
-      window.removeEventListener('pointercancel', handlePointerUpGlobal);
-      return;
-    }
-    
+  const beginCharge = useCallback((source: ChargeSource): boolean => {
+    if (!canAttemptChargeRef.current || isChargingActiveRef.current || isDelegateModeActiveRef.current) return false;
+    isChargingActiveRef.current = true;
+    chargeSourceRef.current = source;
+    chargeStartTimeRef.current = performance.now();
+    chargeTurnsRef.current = 0;
+    if (source === 'fireButton') vibrate(HAPTIC_CHARGE_START_MS);
+    onChargeStartRef.current();
+    startCharge();
+    return true;
+  }, [startCharge]);
+
+  const releaseCharge = useCallback(() => {
+    if (!isChargingActiveRef.current) return;
     stopCharge();
     const elapsedTime = performance.now() - chargeStartTimeRef.current;
     let rawFinalPower = elapsedTime / MAX_CHARGE_DURATION_MS; 
@@ -501,31 +624,94 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     const finalLaunchPower = Math.max(MIN_LAUNCH_POWER, effectiveFinalPower); 
     
     onChargeCompleteRef.current(finalLaunchPower);
+    setChargeRing(0);
+    if (chargeSourceRef.current === 'fireButton') vibrate(HAPTIC_FIRE_PATTERN);
     
     isChargingActiveRef.current = false;
+    chargeSourceRef.current = null;
+  }, [stopCharge]);
+
+  const handleActionPressed = (action: InputAction, source: ChargeSource) => {
+    if (action === 'charge') beginCharge(source);
+    else if (!action.startsWith('aim') && !action.startsWith('camera')) onInputActionRef.current?.(action);
+  };
+
+  const handleActionReleased = (action: InputAction, source: ChargeSource) => {
+    if (action === 'charge' && chargeSourceRef.current === source) releaseCharge();
+  };
+
+  const handlePointerDown = useCallback((event: PointerEvent) => {
+    if (event.pointerType === 'touch') {
+      handleTouchStart(event);
+      return;
+    }
+    if (event.button !== 0 || isDraggingCameraRef.current) return; 
+     if (mountRef.current && rendererRef.current && (event.target === rendererRef.current.domElement || mountRef.current.contains(event.target as Node))) {
+        if (!beginCharge('pointer')) return;
+        lastAimPointerRef.current = { x: event.clientX, y: event.clientY };
+        
+        window.addEventListener('pointermove', handlePointerMoveGlobal);
+        window.addEventListener('pointerup', handlePointerUpGlobal);
+        window.addEventListener('pointercancel', handlePointerUpGlobal);
+     }
+  }, [beginCharge]); 
+
+  // A lone finger aims without charging, so holding still never fights a pinch; a second finger hands the
+  // gesture to OrbitControls until every finger is lifted
+  const handleTouchStart = (event: PointerEvent) => {
+    setShowTouchControls(true);
+    touchPointerIdsRef.current.add(event.pointerId);
+    if (touchPointerIdsRef.current.size === 1) {
+      aimTouchIdRef.current = event.pointerId;
+      lastAimPointerRef.current = { x: event.clientX, y: event.clientY };
+    } else {
+      aimTouchIdRef.current = null;
+      lastAimPointerRef.current = null;
+    }
+    window.addEventListener('pointermove', handlePointerMoveGlobal);
+    window.addEventListener('pointerup', handlePointerUpGlobal);
+    window.addEventListener('pointercancel', handlePointerUpGlobal);
+  };
+
+  // Dragging while charging (mouse) or with one finger (touch) swings the launcher; the camera stays where it is
+  const handlePointerMoveGlobal = useCallback((event: PointerEvent) => {
+    const last = lastAimPointerRef.current;
+    if (!last) return;
+    let sensitivity = LAUNCHER_DRAG_SENSITIVITY;
+    if (event.pointerType === 'touch') {
+      if (event.pointerId !== aimTouchIdRef.current || replayRef.current || isDelegateModeActiveRef.current) return;
+      sensitivity = TOUCH_AIM_SENSITIVITY;
+    } else if (chargeSourceRef.current !== 'pointer') {
+      return;
+    }
+    turnAim(-(event.clientX - last.x) * sensitivity, -(event.clientY - last.y) * sensitivity);
+    lastAimPointerRef.current = { x: event.clientX, y: event.clientY };
+  }, []);
+
+  const handlePointerUpGlobal = useCallback((event: PointerEvent) => {
+    if (event.pointerType === 'touch') {
+      if (!touchPointerIdsRef.current.delete(event.pointerId)) return;
+      if (event.pointerId === aimTouchIdRef.current) {
+        aimTouchIdRef.current = null;
+        lastAimPointerRef.current = null;
+      }
+      if (touchPointerIdsRef.current.size > 0) return;
+    } else {
+      if (chargeSourceRef.current === 'pointer') releaseCharge();
+      lastAimPointerRef.current = null;
+    }
     
+    window.removeEventListener('pointermove', handlePointerMoveGlobal);
     window.removeEventListener('pointerup', handlePointerUpGlobal);
     window.removeEventListener('pointercancel', handlePointerUpGlobal);
 
-  }, [stopCharge]);
+  }, [releaseCharge, handlePointerMoveGlobal]);
 
 
   const init = useCallback((levelConfig: LevelConfiguration) => {
     if (!mountRef.current) return;
     const currentMountRef = mountRef.current; 
 
-    if (CANNON && CANNON.Sphere) {
-        try {
-            const tempSphere = new CANNON.Sphere(0.1); 
-            sphereShapeTypeNumber = tempSphere.type; 
-        } catch (e) {
-            console.warn("Failed to determine sphere shape type. Using default (1).", e);
-            sphereShapeTypeNumber = 1;
-        }
-    } else {
-        sphereShapeTypeNumber = 1; 
-    }
-
     sceneRef.current = new THREE.Scene();
     sceneRef.current.background = new THREE.Color(0x2d3748);
     cameraRef.current = new THREE.PerspectiveCamera(75, currentMountRef.clientWidth / currentMountRef.clientHeight, 0.1, 1000);
@@ -538,6 +724,7 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     const controls = new OrbitControls(cameraRef.current, rendererRef.current.domElement);
     controlsRef.current = controls;
     controls.mouseButtons = { MIDDLE: THREE.MOUSE.DOLLY, RIGHT: THREE.MOUSE.ROTATE };
+    controls.touches = { ONE: null, TWO: THREE.TOUCH.DOLLY_ROTATE }; // One finger aims (see handleTouchStart)
     controls.enableDamping = true;
     controls.dampingFactor = 0.1;
     controls.minDistance = BLOCK_SIZE * 2;
@@ -559,22 +746,28 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     directionalLight.shadow.camera.top = 15; directionalLight.shadow.camera.bottom = -15;
     sceneRef.current.add(directionalLight);
 
-    worldRef.current = new CANNON.World({ gravity: new CANNON.Vec3(0, -9.82, 0) });
-    worldRef.current.broadphase = new CANNON.SAPBroadphase(worldRef.current);
-    (worldRef.current.solver as CANNON.GSSolver).iterations = 10;
-
     const groundGeometry = new THREE.PlaneGeometry(50, 50);
     const groundMaterial = new THREE.MeshStandardMaterial({ color: 0x4a5568, roughness: 0.8, metalness: 0.2 });
     const groundMesh = new THREE.Mesh(groundGeometry, groundMaterial);
     groundMesh.rotation.x = -Math.PI / 2;
     groundMesh.receiveShadow = true;
     sceneRef.current.add(groundMesh);
-    const groundShape = new CANNON.Plane();
-    const groundBody = new CANNON.Body({ mass: 0, shape: groundShape });
-    groundBody.quaternion.setFromEuler(-Math.PI / 2, 0, 0); 
-    worldRef.current.addBody(groundBody);
 
-    createStructure(levelConfig); 
+    const trajectoryGeometry = new THREE.BufferGeometry();
+    trajectoryGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAJECTORY_PREVIEW_MAX_POINTS * 3), 3));
+    const trajectoryLine = new THREE.Line(trajectoryGeometry, new THREE.LineDashedMaterial({
+      color: TRAJECTORY_PREVIEW_COLOR, dashSize: 0.3, gapSize: 0.2, transparent: true, opacity: 0.8,
+    }));
+    trajectoryLine.visible = false;
+    trajectoryLine.frustumCulled = false;
+    trajectoryLineRef.current = trajectoryLine;
+    sceneRef.current.add(trajectoryLine);
+
+    replayRef.current = null;
+    recordedShotsRef.current = [];
+    attachSimulation(levelConfig);
+    frameCamera(levelConfig);
+    setupLauncher(getLevelLauncher(levelConfig));
     
     const handleResize = () => {
         if (cameraRef.current && rendererRef.current && currentMountRef && currentMountRef.clientWidth > 0 && currentMountRef.clientHeight > 0) {
@@ -586,14 +779,46 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
     window.addEventListener('resize', handleResize);
     currentMountRef.addEventListener('pointerdown', handlePointerDown);
 
+    // Bound keys: aim and camera keys are read while held (see updateHeldInput), the rest act on press
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isInputEnabledRef.current || event.altKey || event.ctrlKey || event.metaKey || isEditableTarget(event.target)) return;
+      const actions = getActionsForKey(inputBindingsRef.current, event.code);
+      if (actions.length === 0) return;
+      event.preventDefault(); // e.g. Space would otherwise press the focused button or scroll the page
+      if (heldKeysRef.current.has(event.code)) return; // Auto-repeat
+      heldKeysRef.current.add(event.code);
+      actions.forEach(action => handleActionPressed(action, 'keyboard'));
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (!heldKeysRef.current.delete(event.code)) return;
+      event.preventDefault();
+      getActionsForKey(inputBindingsRef.current, event.code).forEach(action => handleActionReleased(action, 'keyboard'));
+    };
+    // Keys released while the window is in the background never send keyup
+    const releaseHeldKeys = () => {
+      heldKeysRef.current.clear();
+      if (chargeSourceRef.current === 'keyboard') releaseCharge();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseHeldKeys);
+
     lastCallTimeRef.current = performance.now();
     animate();
 
     return () => {
         window.removeEventListener('resize', handleResize);
         currentMountRef?.removeEventListener('pointerdown', handlePointerDown);
+        window.removeEventListener('pointermove', handlePointerMoveGlobal);
         window.removeEventListener('pointerup', handlePointerUpGlobal);
         window.removeEventListener('pointercancel', handlePointerUpGlobal);
+        window.removeEventListener('keydown', handleKeyDown);
+        window.removeEventListener('keyup', handleKeyUp);
+        window.removeEventListener('blur', releaseHeldKeys);
+        heldKeysRef.current.clear();
+        pressedGamepadButtonsRef.current = new Set();
+        touchPointerIdsRef.current.clear();
+        aimTouchIdRef.current = null;
 
         stopCharge(); 
         if (animationFrameIdRef.current) cancelAnimationFrame(animationFrameIdRef.current); 
@@ -601,10 +826,10 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
         controls.removeEventListener('start', onControlsStart);
         controls.removeEventListener('end', onControlsEnd);
         
-        projectilesRef.current.forEach(obj => cleanUpPhysicsObject(obj, worldRef.current!, sceneRef.current!));
-        projectilesRef.current = [];
-        physicsObjectsRef.current.forEach(obj => cleanUpPhysicsObject(obj, worldRef.current!, sceneRef.current!));
-        physicsObjectsRef.current = [];
+        simulationUnsubscribeRef.current?.();
+        simulationUnsubscribeRef.current = null;
+        simulationRef.current?.dispose();
+        clearMeshes(sceneRef.current!);
         explosionParticleSystemsRef.current.forEach(system => cleanUpExplosionParticleSystem(system, sceneRef.current!));
         explosionParticleSystemsRef.current = [];
 
@@ -614,6 +839,11 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
         }
         rendererRef.current?.dispose();
         controlsRef.current?.dispose();
+        trajectoryGeometry.dispose();
+        (trajectoryLine.material as THREE.Material).dispose();
+        trajectoryLineRef.current = null;
+        if (launcherMeshRef.current) disposeLauncherMesh(launcherMeshRef.current);
+        launcherMeshRef.current = null;
 
         sceneRef.current?.traverse((object) => {
           if (object instanceof THREE.Mesh || object instanceof THREE.Points) {
@@ -623,9 +853,9 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
           }
         });
         sceneRef.current = null;
-        worldRef.current = null; 
+        simulationRef.current = null; 
     };
-  }, [createStructure, animate, handlePointerDown, handlePointerUpGlobal, stopCharge]); 
+  }, [frameCamera, attachSimulation, animate, handlePointerDown, handlePointerMoveGlobal, handlePointerUpGlobal, releaseCharge, stopCharge]); 
 
   useEffect(() => {
     const cleanup = init(initialLevelConfig); 
@@ -633,113 +863,105 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
   }, [initialLevelConfig, init]);
 
   const launchProjectile = useCallback((launchPower: number, projectileType: ProjectileType) => {
-    if (!worldRef.current || !sceneRef.current || !cameraRef.current) return;
-
-    let radius, mass, color, lifeSpan;
-    switch (projectileType) {
-      case ProjectileType.HEAVY:
-        radius = HEAVY_PROJECTILE_RADIUS; mass = HEAVY_PROJECTILE_MASS; color = HEAVY_PROJECTILE_COLOR;
-        break;
-      case ProjectileType.EXPLOSIVE:
-        radius = EXPLOSIVE_PROJECTILE_RADIUS; mass = EXPLOSIVE_PROJECTILE_MASS; color = EXPLOSIVE_PROJECTILE_COLOR;
-        lifeSpan = EXPLOSIVE_PROJECTILE_LIFESPAN_MS;
-        break;
-      case ProjectileType.CLUSTER:
-        radius = CLUSTER_PROJECTILE_RADIUS; mass = CLUSTER_PROJECTILE_MASS; color = CLUSTER_PROJECTILE_COLOR;
-        lifeSpan = CLUSTER_SPLIT_DELAY_MS;
-        break;
-      case ProjectileType.STANDARD:
-      default:
-        radius = PROJECTILE_RADIUS; mass = PROJECTILE_MASS; color = STANDARD_PROJECTILE_COLOR;
-        break;
-    }
+    if (!simulationRef.current || !launcherRef.current || replayRef.current) return;
 
-    const projectileGeometry = new THREE.SphereGeometry(radius, 16, 16);
-    const projectileMaterial = new THREE.MeshStandardMaterial({ color, metalness: 0.5, roughness: 0.5 });
-    const projectileMesh = new THREE.Mesh(projectileGeometry, projectileMaterial);
-    projectileMesh.castShadow = true;
-    
-    const projectileBody = new CANNON.Body({ mass, shape: new CANNON.Sphere(radius) });
-    projectileBody.linearDamping = 0.1; 
-
-    const camPos = cameraRef.current.position;
-    const camDir = new THREE.Vector3();
-    cameraRef.current.getWorldDirection(camDir);
-
-    const launchOffset = radius + 0.5 + BLOCK_SIZE / 2;
-    projectileBody.position.set(
-        camPos.x + camDir.x * launchOffset, 
-        camPos.y + camDir.y * launchOffset,
-        camPos.z + camDir.z * launchOffset
-    );
-    projectileMesh.position.copy(projectileBody.position as unknown as THREE.Vector3);
-
-    const finalVelocity = PROJECTILE_VELOCITY_MULTIPLIER * launchPower;
-    const velocityVec = new CANNON.Vec3(camDir.x * finalVelocity, camDir.y * finalVelocity, camDir.z * finalVelocity);
-    projectileBody.velocity.copy(velocityVec);
-
-    sceneRef.current.add(projectileMesh);
-    worldRef.current.addBody(projectileBody);
-    
-    const projectileObject: PhysicsObject = { 
-        mesh: projectileMesh, body: projectileBody, 
-        id: `proj_${projectileType}_${Date.now()}_${Math.random()}`, 
-        initialY: projectileBody.position.y, isFallen: false,
-        projectileType,
-        lifeSpan: lifeSpan, 
-        creationTime: performance.now(),
-        hasSplit: false,
+    const shot: RecordedShot = {
+      ...getAimShot(launchPower, projectileType),
+      fireAt: simulationRef.current.getStepCount() * SIMULATION_TIME_STEP,
+      timestamp: Date.now(),
     };
-
-    if (projectileType === ProjectileType.EXPLOSIVE) {
-        const bodyRef = projectileBody; 
-        const onCollideExplosive = (event: any) => {
-            if (projectileObject.hasSplit) { 
-                bodyRef.removeEventListener("collide", onCollideExplosive);
-                return;
-            }
-
-            if (!event.contact || !event.contact.bi || !event.contact.bj) {
-                return;
-            }
-            
-            const otherBody = event.contact.bi === bodyRef ? event.contact.bj : event.contact.bi;
-            const isBlock = physicsObjectsRef.current.some(pObj => pObj.body === otherBody);
-
-            if (isBlock && Math.abs(event.contact.getImpactVelocityAlongNormal()) > 1.0) {
-                if (!projectileObject.hasSplit) { 
-                    handleExplosion(bodyRef.position.clone(), EXPLOSION_RADIUS, EXPLOSION_STRENGTH);
-                    projectileObject.hasSplit = true; 
-                    bodyRef.removeEventListener("collide", onCollideExplosive); 
-                }
-            }
-        };
-        projectileBody.addEventListener("collide", onCollideExplosive);
-        projectileObject.onCollideHandler = onCollideExplosive; 
-    }
-
-    projectilesRef.current.push(projectileObject);
-
-  }, [handleExplosion]);
+    recordedShotsRef.current.push(shot);
+    simulationRef.current.launch(shot);
+  }, []);
 
   const resetLevel = useCallback((levelConfig: LevelConfiguration) => {
-    if (!worldRef.current || !sceneRef.current) return;
+    if (!simulationRef.current || !sceneRef.current) return;
     
-    projectilesRef.current.forEach(obj => cleanUpPhysicsObject(obj, worldRef.current!, sceneRef.current!));
-    projectilesRef.current = [];
+    clearMeshes(sceneRef.current);
     explosionParticleSystemsRef.current.forEach(system => cleanUpExplosionParticleSystem(system, sceneRef.current!));
     explosionParticleSystemsRef.current = [];
-    createStructure(levelConfig); 
+    simulationRef.current.loadLevel(levelConfig);
+    loadedLevelRef.current = levelConfig;
+    recordedShotsRef.current = [];
+    syncMeshes(simulationRef.current, sceneRef.current);
+    frameCamera(levelConfig);
+    setupLauncher(getLevelLauncher(levelConfig));
+    lastCallTimeRef.current = performance.now();
+  }, [frameCamera]);
+
+  const startReplay = useCallback((replay: ShotReplay) => {
+    if (!sceneRef.current) return;
+    replayRef.current = {
+      replay, clock: 0, duration: getReplayDuration(replay), nextShotIndex: 0,
+      isPaused: false, speed: 1, isSeeking: false, lastReportedAt: 0,
+    };
+    attachSimulation(replay.level, replay.seed);
+    frameCamera(replay.level);
+    // Put the launcher where the first shot was fired from, turning freely; each shot swings it as it fires
+    const firstShot = replay.shots[0];
+    if (firstShot) {
+      const aim = getAimFromDirection(firstShot.direction);
+      setupLauncher({
+        position: { ...firstShot.origin },
+        yaw: { min: aim.yaw - 180, max: aim.yaw + 180, initial: aim.yaw },
+        pitch: { min: -90, max: 90, initial: aim.pitch },
+      });
+    } else {
+      setupLauncher(getLevelLauncher(replay.level));
+    }
+    lastCallTimeRef.current = performance.now();
+    reportReplayProgress(true);
+  }, [attachSimulation, frameCamera]);
+
+  const stopReplay = useCallback(() => {
+    if (!replayRef.current) return;
+    replayRef.current = null;
+    recordedShotsRef.current = [];
+    attachSimulation(initialLevelConfigRef.current);
+    frameCamera(initialLevelConfigRef.current);
+    setupLauncher(getLevelLauncher(initialLevelConfigRef.current));
     lastCallTimeRef.current = performance.now();
-  }, [createStructure]);
+    onReplayProgressRef.current?.(null);
+  }, [attachSimulation, frameCamera]);
+
+  const seekReplay = useCallback((time: number) => {
+    const playback = replayRef.current;
+    if (!playback || !simulationRef.current) return;
+    const targetTime = Math.max(0, Math.min(playback.duration, time));
+    // The simulation only runs forwards, so seeking backwards replays from the start
+    if (targetTime < simulationRef.current.getStepCount() * SIMULATION_TIME_STEP) {
+      attachSimulation(playback.replay.level, playback.replay.seed);
+      playback.nextShotIndex = 0;
+      if (launcherRef.current) setAim(getInitialAim(launcherRef.current));
+    }
+    playback.isSeeking = true;
+    advanceReplay(playback, simulationRef.current!, targetTime);
+    playback.isSeeking = false;
+    playback.clock = targetTime;
+    reportReplayProgress(true);
+  }, [attachSimulation]);
+
+  const setReplayPaused = useCallback((isPaused: boolean) => {
+    const playback = replayRef.current;
+    if (!playback) return;
+    if (!isPaused && playback.clock >= playback.duration) {
+      seekReplay(0); // Play again from the start
+    }
+    playback.isPaused = isPaused;
+    lastCallTimeRef.current = performance.now();
+    reportReplayProgress(true);
+  }, [seekReplay]);
+
+  const setReplaySpeed = useCallback((speed: number) => {
+    if (!replayRef.current) return;
+    replayRef.current.speed = speed;
+    reportReplayProgress(true);
+  }, []);
 
 
   const getGoldenBlockPosition = useCallback((): THREE.Vector3 | null => {
-    const goldenBlock = physicsObjectsRef.current.find(obj => obj.isKing && !obj.isFallen && obj.body);
-    if (goldenBlock && goldenBlock.body) {
-      return new THREE.Vector3(goldenBlock.body.position.x, goldenBlock.body.position.y, goldenBlock.body.position.z);
-    }
-    return null;
+    const kingPosition = simulationRef.current?.getKingPosition();
+    return kingPosition ? new THREE.Vector3(kingPosition.x, kingPosition.y, kingPosition.z) : null;
   }, []);
 
   const pointCameraTowards = useCallback((targetWorldPosition: THREE.Vector3) => {
@@ -761,14 +983,69 @@ const GameCanvas = forwardRef<GameCanvasRef, GameCanvasProps>(({
   }, []);
 
 
+  const getWorldSnapshot = useCallback((): WorldSnapshot | null => {
+    if (!simulationRef.current || !loadedLevelRef.current || !launcherRef.current || replayRef.current) return null;
+    return captureWorldSnapshot(loadedLevelRef.current, simulationRef.current, launcherRef.current);
+  }, []);
+
+  const aimLauncherAt = useCallback((targetWorldPosition: THREE.Vector3) => {
+    if (!launcherRef.current) return;
+    setAim(getAimTowards(launcherRef.current, targetWorldPosition));
+  }, []);
+
+
   useImperativeHandle(ref, () => ({
     launchProjectile,
     resetLevel,
     getGoldenBlockPosition,
     pointCameraTowards,
+    aimLauncherAt,
+    getLauncherAim: () => ({ ...aimRef.current }),
+    setLauncherAim: setAim,
+    getRecordedShots: () => [...recordedShotsRef.current],
+    getWorldSnapshot,
+    startReplay,
+    stopReplay,
+    setReplayPaused,
+    seekReplay,
+    setReplaySpeed,
   }));
 
-  return <div ref={mountRef} className="w-full h-full" />;
+  return (
+    <div className="relative w-full h-full">
+      <div ref={mountRef} className="w-full h-full" />
+      {showReticle && (
+        <div ref={reticleRef} className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full border-2 border-white/70 flex items-center justify-center pointer-events-none" aria-hidden="true">
+          <div className="w-1 h-1 rounded-full bg-white/90" />
+        </div>
+      )}
+      {showTouchControls && (
+        <button
+          type="button"
+          onPointerDown={(event) => {
+            event.preventDefault();
+            if (beginCharge('fireButton')) event.currentTarget.setPointerCapture(event.pointerId);
+          }}
+          onPointerUp={() => { if (chargeSourceRef.current === 'fireButton') releaseCharge(); }}
+          onPointerCancel={() => { if (chargeSourceRef.current === 'fireButton') releaseCharge(); }}
+          onContextMenu={(event) => event.preventDefault()}
+          disabled={!canAttemptCharge || isDelegateModeActive}
+          className="absolute bottom-3 right-3 w-16 h-16 rounded-full bg-red-600/80 active:bg-red-500 disabled:bg-gray-600/60 disabled:opacity-60 text-white font-bold text-sm shadow-lg flex items-center justify-center select-none touch-none"
+          aria-label="누르고 있으면 파워를 모으고, 떼면 발사"
+        >
+          <svg className="absolute inset-0 w-full h-full -rotate-90 pointer-events-none" viewBox="0 0 64 64" aria-hidden="true">
+            <circle cx="32" cy="32" r={FIRE_BUTTON_RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth="4" />
+            <circle
+              ref={chargeRingRef}
+              cx="32" cy="32" r={FIRE_BUTTON_RING_RADIUS} fill="none" stroke="#facc15" strokeWidth="4" strokeLinecap="round"
+              strokeDasharray={FIRE_BUTTON_RING_LENGTH} strokeDashoffset={FIRE_BUTTON_RING_LENGTH}
+            />
+          </svg>
+          발사
+        </button>
+      )}
+    </div>
+  );
 });
 
 export default GameCanvas;
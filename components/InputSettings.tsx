@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { InputAction, InputBindings } from '../types';
+import { INPUT_ACTIONS_CONFIG } from '../constants';
+import { InputDevice, bindInput, clearInput, describeKey, describeGamepadButton, getDefaultInputBindings, readGamepad } from '../lib/inputBindings';
+
+interface InputSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+}
+
+// The game ignores key presses made with Ctrl, Alt or Meta held (browser shortcuts), so those keys can't be bound
+const MODIFIER_KEY_PATTERN = /^(Control|Alt|Meta|OS)/;
+
+// Rebinding screen. Click a binding, then press the key or gamepad button to use; Esc cancels.
+const InputSettings: React.FC<InputSettingsProps> = ({ isOpen, onClose, bindings, onChange }) => {
+  const [capture, setCapture] = useState<{ action: InputAction; device: InputDevice } | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) setCapture(null);
+  }, [isOpen]);
+
+  // Keyboard: listens in the capture phase so the key doesn't also reach the game or the focused button
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!capture) {
+        if (event.key === 'Escape') onClose();
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code === 'Escape') setCapture(null);
+      else if (capture.device === 'keys' && !MODIFIER_KEY_PATTERN.test(event.code)) {
+        onChange(bindInput(bindings, capture.action, 'keys', event.code));
+        setCapture(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isOpen, capture, bindings, onChange, onClose]);
+
+  // Gamepad: waits for a button that was not already held when capture began
+  useEffect(() => {
+    if (!capture || capture.device !== 'gamepadButtons') return;
+    const heldAtStart = readGamepad()?.pressedButtons ?? new Set<number>();
+    let rafId = 0;
+    const poll = () => {
+      const pressed = readGamepad()?.pressedButtons ?? new Set<number>();
+      heldAtStart.forEach(button => { if (!pressed.has(button)) heldAtStart.delete(button); });
+      const button = Array.from(pressed).find(index => !heldAtStart.has(index));
+      if (button !== undefined) {
+        onChange(bindInput(bindings, capture.action, 'gamepadButtons', button));
+        setCapture(null);
+        return;
+      }
+      rafId = requestAnimationFrame(poll);
+    };
+    rafId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(rafId);
+  }, [capture, bindings, onChange]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const renderBinding = (action: InputAction, device: InputDevice) => {
+    const isCapturing = capture?.action === action && capture.device === device;
+    const inputs = device === 'keys'
+      ? bindings[action].keys.map(describeKey)
+      : bindings[action].gamepadButtons.map(describeGamepadButton);
+    return (
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setCapture(isCapturing ? null : { action, device })}
+          className={`flex-grow min-w-[5rem] px-2 py-1 rounded border text-xs sm:text-sm transition-colors ${isCapturing ? 'bg-yellow-500 text-gray-900 border-yellow-400 animate-pulse' : 'bg-gray-700 text-white border-gray-600 hover:bg-gray-600'}`}
+          aria-label={`${INPUT_ACTIONS_CONFIG.find(config => config.id === action)?.name} ${device === 'keys' ? '키' : '게임패드 버튼'} 변경`}
+        >
+          {isCapturing ? (device === 'keys' ? '키를 누르세요' : '버튼을 누르세요') : (inputs.length > 0 ? inputs.join(', ') : '없음')}
+        </button>
+        <button
+          onClick={() => onChange(clearInput(bindings, action, device))}
+          disabled={inputs.length === 0}
+          className="px-1.5 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+          title="지우기"
+          aria-label="지우기"
+        >
+          &times;
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50 backdrop-blur-sm" role="dialog" aria-label="조작 설정">
+      <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-2xl w-full max-w-xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl sm:text-3xl font-bold text-yellow-400 orbitron-font">조작 설정</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors text-2xl" aria-label="조작 설정 닫기">
+            &times;
+          </button>
+        </div>
+        <p className="text-gray-400 text-xs sm:text-sm mb-3">
+          항목을 누른 뒤 사용할 키나 게임패드 버튼을 누르세요 (Esc: 취소). 게임패드의 왼쪽 스틱은 항상 조준, 오른쪽 스틱은 카메라 회전입니다. 설정은 브라우저에 저장됩니다.
+        </p>
+        <div className="overflow-y-auto flex-grow">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-xs">
+                <th className="text-left font-medium pb-1">동작</th>
+                <th className="text-left font-medium pb-1">키보드</th>
+                <th className="text-left font-medium pb-1">게임패드</th>
+              </tr>
+            </thead>
+            <tbody>
+              {INPUT_ACTIONS_CONFIG.map(config => (
+                <tr key={config.id} className="border-t border-gray-700">
+                  <td className="py-1.5 pr-2 text-gray-200 text-xs sm:text-sm">{config.name}</td>
+                  <td className="py-1.5 pr-2">{renderBinding(config.id, 'keys')}</td>
+                  <td className="py-1.5">{renderBinding(config.id, 'gamepadButtons')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            onClick={() => { onChange(getDefaultInputBindings()); setCapture(null); }}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-md shadow-sm text-sm transition-colors"
+          >
+            기본값으로
+          </button>
+          <button onClick={onClose} className="px-4 py-2 bg-yellow-500 hover:bg-yellow-400 text-gray-900 font-semibold rounded-md shadow-sm text-sm transition-colors">
+            닫기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputSettings;
@@ -1,10 +1,24 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { LevelConfiguration, BlockConfig, BlockShape } from '../types';
-import { BLOCK_SIZE } from '../constants';
+import { LevelConfiguration, LevelPar, LauncherConfig, LauncherAngleRange, EditorSymmetry, EditorArray, EditorArrayMode, BlockConfig, BlockShape, BlockRotation, BlockMaterial, BlockAnchor, SpecialBlockType, StabilityReport, GenerationAttempt, ProceduralGeneratorOptions, ProceduralStyle, ProceduralDifficulty } from '../types';
+import { BLOCK_SIZE, BLOCK_MATERIALS_CONFIG, DEFAULT_BLOCK_MATERIAL, BLOCK_ANCHORS_CONFIG, SPECIAL_BLOCKS_CONFIG, LEVEL_FORMAT_VERSION, LAUNCHER_PIVOT_HEIGHT, MIN_PROCEDURAL_BLOCKS, MAX_PROCEDURAL_BLOCKS, DEFAULT_PROCEDURAL_BLOCKS } from '../constants';
 import { generateLevelWithGemini, getGeminiStatus, initializeAiClient } from '../lib/geminiService';
+import { analyzeStabilityAsync, describeStabilityReport, getStructureHash } from '../lib/stabilityAnalyzer';
+import { getBlockMaterialConfig } from '../lib/physicsSimulation';
+import { generateStableProceduralLevel, PROCEDURAL_STYLE_LABELS, PROCEDURAL_DIFFICULTY_LABELS } from '../lib/proceduralGenerator';
+import { randomSeed } from '../lib/random';
+import { parseLevel, parseBlockFragment, isBlockFragmentText, validateLevel, formatLevelSchemaErrors } from '../lib/levelSchema';
+import { withThumbnail } from '../lib/levelThumbnail';
+import EditorTestPlay from './EditorTestPlay';
+import { findPlacementProblem, translateBlocks, duplicateBlocks, recolorBlocks, reshapeBlocks, createBlockFragment, instantiateFragment, createBlockIds } from '../lib/editorSelection';
+import { NO_SYMMETRY, NO_ARRAY, hasPlacementTools, expandPlacement, removeOverlappingCopies } from '../lib/editorSymmetry';
+import { EditorDocument, EditorDocumentPatch, EditorHistory, EMPTY_EDITOR_HISTORY, capturePatch, recordCommand, travelHistory, canUndo, canRedo } from '../lib/editorHistory';
+import { blocksOverlap, getBlockHalfExtents, getLevelCameraView, getStructureBounds, hasRotation } from '../lib/blockGeometry';
+import { createLauncher, getInitialAim, getLevelLauncher } from '../lib/launcher';
+import { createBlockGeometry, createAnchorOutline, createBlockMaterial, createLauncherMesh, setLauncherMeshAim, disposeLauncherMesh } from '../lib/blockMeshes';
+import { DEG_TO_RAD } from '../lib/math';
 
 interface LevelEditorProps {
   onSave: (levelConfig: LevelConfiguration, originalLevelId?: string | number) => void;
@@ -13,11 +27,21 @@ interface LevelEditorProps {
 }
 
 const GOLDEN_BLOCK_COLOR = 0xffd700; // Gold - for the target 'Golden Block'
-const DEFAULT_BLOCK_COLOR = 0xaaaaaa;
-const CYLINDER_SEGMENTS = 16;
-const SPHERE_SEGMENTS = 16;
+const FALLEN_BLOCK_HIGHLIGHT = 0xff0000; // Blocks that collapsed during the stability check
+const MOVED_BLOCK_HIGHLIGHT = 0xff8800; // Blocks that drifted during the stability check
+const SELECTED_BLOCK_HIGHLIGHT = 0x22d3ee;
+const BOX_SELECT_MIN_DRAG_PX = 4; // Shorter shift-drags count as a shift-click
+const SYMMETRY_GUIDE_COLOR = 0xa855f7;
+const RADIAL_COUNT_OPTIONS = [1, 2, 3, 4, 6, 8];
+const MAX_ARRAY_COUNT = 10;
 
 const LOCAL_STORAGE_API_KEY_ID = 'dominoCastleGeminiApiKey';
+const NO_ROTATION: BlockRotation = { x: 0, y: 0, z: 0 };
+
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.tagName === 'SELECT');
+};
 
 const editorColors = [
   { name: 'Green', value: 0x4ade80 }, // green-400
@@ -42,18 +66,48 @@ const editorShapes: { name: string, type: BlockShape, label: string }[] = [
 const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelData }) => {
   const [levelName, setLevelName] = useState('커스텀 레벨');
   const [initialProjectiles, setInitialProjectiles] = useState(10);
+  const [par, setPar] = useState<LevelPar>({}); // Empty = rated against the default par
+  const [hideTrajectory, setHideTrajectory] = useState(false);
+  const [launcher, setLauncher] = useState<LauncherConfig | null>(null);
   const [structure, setStructure] = useState<BlockConfig[]>([]);
   const [editingLevelId, setEditingLevelId] = useState<string | number | null>(null);
+  const [history, setHistory] = useState<EditorHistory>(EMPTY_EDITOR_HISTORY);
+  const [selectedBlockIds, setSelectedBlockIds] = useState<Set<string>>(new Set());
+  const [selectionBox, setSelectionBox] = useState<{ start: { x: number; y: number }; end: { x: number; y: number } } | null>(null);
+  const [symmetry, setSymmetry] = useState<EditorSymmetry>(NO_SYMMETRY);
+  const [arrayPlacement, setArrayPlacement] = useState<EditorArray>(NO_ARRAY);
   
   const [selectedColorValue, setSelectedColorValue] = useState<number>(editorColors[3].value); 
   const [selectedShape, setSelectedShape] = useState<BlockShape>(editorShapes[0].type);
+  const [selectedRotation, setSelectedRotation] = useState<BlockRotation>(NO_ROTATION);
+  const [selectedMaterial, setSelectedMaterial] = useState<BlockMaterial>(DEFAULT_BLOCK_MATERIAL);
+  const [selectedHealth, setSelectedHealth] = useState<number>(0); // 0 = use the material's default health
+  const [selectedSpecial, setSelectedSpecial] = useState<SpecialBlockType | null>(null);
+  const [selectedAnchor, setSelectedAnchor] = useState<BlockAnchor | null>(null);
   const [isDraggingCamera, setIsDraggingCamera] = useState(false);
 
   const [editorMessage, setEditorMessage] = useState<string | null>(null);
-  const [messageType, setMessageType] = useState<'error' | 'success' | null>(null);
+  const [messageType, setMessageType] = useState<'error' | 'success' | 'warning' | null>(null);
+  // Last stability report, kept with the hash of the structure it was computed for so edits invalidate the highlights
+  // and saving an unchanged structure doesn't run the check again
+  const [stabilityCheck, setStabilityCheck] = useState<{ structureHash: string; report: StabilityReport } | null>(null);
+  const [stabilityProgress, setStabilityProgress] = useState<number | null>(null); // Null when no check is running
+  // Offered after a save or export was refused because blocks collapse on their own, until the structure changes
+  const [collapseOverride, setCollapseOverride] = useState<{ action: 'save' | 'export'; structureHash: string } | null>(null);
+  // Snapshot being test-played; the editor stays mounted underneath so nothing is lost on return
+  const [testPlayLevel, setTestPlayLevel] = useState<LevelConfiguration | null>(null);
 
   const [aiPrompt, setAiPrompt] = useState<string>('');
   const [isAiGenerating, setIsAiGenerating] = useState<boolean>(false);
+  const [aiAttempts, setAiAttempts] = useState<GenerationAttempt[]>([]);
+  const [generatorMode, setGeneratorMode] = useState<'ai' | 'procedural'>('ai');
+  const [proceduralOptions, setProceduralOptions] = useState<ProceduralGeneratorOptions>(() => ({
+    seed: randomSeed(),
+    style: 'tower',
+    blockBudget: DEFAULT_PROCEDURAL_BLOCKS,
+    shapeMix: { cube: 1, cylinder: 1, cube_2x1x1: 1, cube_3x1x1: 1 },
+    difficulty: 'normal',
+  }));
   const [apiKeyInput, setApiKeyInput] = useState<string>('');
   const [apiKeyMessage, setApiKeyMessage] = useState<{text: string, type: 'success' | 'error'} | null>(null);
   const [geminiApiStatus, setGeminiApiStatus] = useState({ isActive: false, message: '확인 중...' });
@@ -71,14 +125,27 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
   const gridHelperRef = useRef<THREE.GridHelper | null>(null);
   const ghostBlockMeshRef = useRef<THREE.Mesh | null>(null);
   const placedBlocksGroupRef = useRef<THREE.Group>(new THREE.Group());
+  const ghostCopiesGroupRef = useRef<THREE.Group>(new THREE.Group()); // Where the symmetry/array copies of the ghost block will go
+  const symmetryGuidesGroupRef = useRef<THREE.Group>(new THREE.Group());
+  const launcherGroupRef = useRef<THREE.Group>(new THREE.Group());
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const animationFrameIdRef = useRef<number | null>(null);
+  const stabilityRunRef = useRef<AbortController | null>(null);
   const initialSetupRafId = useRef<number | null>(null);
 
+  // Latest document fields, for edits that finish asynchronously (file import, AI generation)
+  const documentRef = useRef<EditorDocument>({ levelName, initialProjectiles, par, hideTrajectory, launcher, structure, editingLevelId });
+  useEffect(() => {
+    documentRef.current = { levelName, initialProjectiles, par, hideTrajectory, launcher, structure, editingLevelId };
+  }, [levelName, initialProjectiles, par, hideTrajectory, launcher, structure, editingLevelId]);
+
 
   const editorGridSize = 30; 
-  const placementYOffset = BLOCK_SIZE / 2; 
+
+  const structureHash = useMemo(() => getStructureHash(structure), [structure]);
+
+  useEffect(() => () => stabilityRunRef.current?.abort(), []);
 
   const updateGeminiApiStatus = useCallback(() => {
     const status = getGeminiStatus();
@@ -112,22 +179,6 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   }, [editorMessage]);
 
-  const createBlockGeometry = (shape: BlockShape = 'cube'): THREE.BufferGeometry => {
-    switch (shape) {
-      case 'cylinder':
-        return new THREE.CylinderGeometry(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE, CYLINDER_SEGMENTS);
-      case 'sphere':
-        return new THREE.SphereGeometry(BLOCK_SIZE / 2, SPHERE_SEGMENTS, SPHERE_SEGMENTS);
-      case 'cube_2x1x1':
-        return new THREE.BoxGeometry(BLOCK_SIZE * 2, BLOCK_SIZE, BLOCK_SIZE);
-      case 'cube_3x1x1':
-        return new THREE.BoxGeometry(BLOCK_SIZE * 3, BLOCK_SIZE, BLOCK_SIZE);
-      case 'cube':
-      default:
-        return new THREE.BoxGeometry(BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
-    }
-  };
-  
   const centerCameraOnStructure = useCallback((struct: BlockConfig[], animateTransition: boolean = false) => {
     if (!cameraRef.current || !controlsRef.current) return;
 
@@ -138,25 +189,11 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
         return;
     }
 
-    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity, minZ = Infinity, maxZ = -Infinity;
-    struct.forEach(b => {
-        let halfWidth = BLOCK_SIZE / 2;
-        let halfDepth = BLOCK_SIZE / 2;
-        if (b.shape === 'cube_2x1x1') halfWidth = BLOCK_SIZE;
-        else if (b.shape === 'cube_3x1x1') halfWidth = BLOCK_SIZE * 1.5;
-        
-        minX = Math.min(minX, b.x - halfWidth); 
-        maxX = Math.max(maxX, b.x + halfWidth);
-        minY = Math.min(minY, b.y - BLOCK_SIZE / 2); 
-        maxY = Math.max(maxY, b.y + BLOCK_SIZE / 2);
-        minZ = Math.min(minZ, b.z - halfDepth);
-        maxZ = Math.max(maxZ, b.z + halfDepth);
-    });
-
-    const centerX = (minX + maxX) / 2;
-    const centerY = (minY + maxY) / 2; 
-    const centerZ = (minZ + maxZ) / 2;
-    const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ, BLOCK_SIZE * 5) || BLOCK_SIZE * 5;
+    const { min, max } = getStructureBounds(struct)!;
+    const centerX = (min.x + max.x) / 2;
+    const centerY = (min.y + max.y) / 2; 
+    const centerZ = (min.z + max.z) / 2;
+    const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z, BLOCK_SIZE * 5) || BLOCK_SIZE * 5;
 
     const newCamPos = new THREE.Vector3(centerX, centerY + extent * 0.75, centerZ + extent * 1.5);
     const newTargetPos = new THREE.Vector3(centerX, centerY, centerZ);
@@ -188,9 +225,14 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
   }, []);
 
   useEffect(() => {
+    setHistory(EMPTY_EDITOR_HISTORY);
+    setSelectedBlockIds(new Set());
     if (initialLevelData) {
       setLevelName(initialLevelData.name);
       setInitialProjectiles(initialLevelData.initialProjectiles);
+      setPar(initialLevelData.par ?? {});
+      setHideTrajectory(initialLevelData.hideTrajectory ?? false);
+      setLauncher(initialLevelData.launcher ?? null);
       setStructure(initialLevelData.structure); 
       setEditingLevelId(initialLevelData.levelId);
       setAiPrompt('');
@@ -198,10 +240,18 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     } else {
       setLevelName('커스텀 레벨');
       setInitialProjectiles(10);
+      setPar({});
+      setHideTrajectory(false);
+      setLauncher(null);
       setStructure([]);
       setEditingLevelId(null);
       setSelectedColorValue(editorColors[3].value);
       setSelectedShape(editorShapes[0].type);
+      setSelectedRotation(NO_ROTATION);
+      setSelectedMaterial(DEFAULT_BLOCK_MATERIAL);
+      setSelectedHealth(0);
+      setSelectedSpecial(null);
+      setSelectedAnchor(null);
       setAiPrompt('');
       centerCameraOnStructure([], false);
     }
@@ -271,6 +321,9 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     ghostBlockMeshRef.current = ghostBlock;
 
     scene.add(placedBlocksGroupRef.current);
+    scene.add(ghostCopiesGroupRef.current);
+    scene.add(symmetryGuidesGroupRef.current);
+    scene.add(launcherGroupRef.current);
 
     const animate = () => {
       animationFrameIdRef.current = requestAnimationFrame(animate);
@@ -339,6 +392,320 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   }, [selectedShape]);
 
+  useEffect(() => {
+    ghostBlockMeshRef.current?.rotation.set(selectedRotation.x * DEG_TO_RAD, selectedRotation.y * DEG_TO_RAD, selectedRotation.z * DEG_TO_RAD);
+  }, [selectedRotation]);
+
+  const applyDocumentPatch = useCallback((patch: EditorDocumentPatch) => {
+    if (patch.levelName !== undefined) setLevelName(patch.levelName);
+    if (patch.initialProjectiles !== undefined) setInitialProjectiles(patch.initialProjectiles);
+    if (patch.par !== undefined) setPar(patch.par);
+    if (patch.hideTrajectory !== undefined) setHideTrajectory(patch.hideTrajectory);
+    if (patch.launcher !== undefined) setLauncher(patch.launcher);
+    if (patch.structure !== undefined) setStructure(patch.structure);
+    if (patch.editingLevelId !== undefined) setEditingLevelId(patch.editingLevelId);
+  }, []);
+
+  // Applies an edit and records it in the undo history
+  const executeEdit = useCallback((label: string, patch: EditorDocumentPatch, mergeKey?: string) => {
+    const before = capturePatch(documentRef.current, patch);
+    documentRef.current = { ...documentRef.current, ...patch };
+    setHistory(prev => recordCommand(prev, label, before, patch, mergeKey));
+    applyDocumentPatch(patch);
+  }, [applyDocumentPatch]);
+
+  // Jumps to the point in history where `pastLength` edits are applied
+  const travelTo = useCallback((pastLength: number) => {
+    const result = travelHistory(history, pastLength);
+    if (!result) return;
+    setHistory(result.history);
+    applyDocumentPatch(result.patch);
+  }, [history, applyDocumentPatch]);
+
+  const undo = useCallback(() => {
+    const command = history.past[history.past.length - 1];
+    if (!command) return;
+    travelTo(history.past.length - 1);
+    setEditorMessage(`실행 취소: ${command.label}`); setMessageType(null);
+  }, [history, travelTo]);
+
+  const redo = useCallback(() => {
+    const command = history.future[0];
+    if (!command) return;
+    travelTo(history.past.length + 1);
+    setEditorMessage(`다시 실행: ${command.label}`); setMessageType(null);
+  }, [history, travelTo]);
+
+  // --- Selection ---
+  // Stale ids (e.g. blocks removed by undo) are simply ignored
+  const selectedBlocks = structure.filter(block => selectedBlockIds.has(block.id));
+
+  // Applies a group edit if every block in `changedIds` still fits; otherwise explains why not
+  const applySelectionEdit = useCallback((label: string, nextStructure: BlockConfig[], changedIds: Set<string>, mergeKey?: string) => {
+    const problem = findPlacementProblem(nextStructure, changedIds, editorGridSize);
+    if (problem) {
+      setEditorMessage(problem); setMessageType('error');
+      return false;
+    }
+    executeEdit(label, { structure: nextStructure }, mergeKey);
+    return true;
+  }, [executeEdit]);
+
+  const moveSelection = useCallback((dx: number, dy: number, dz: number) => {
+    if (selectedBlocks.length === 0) return;
+    const ids = new Set(selectedBlocks.map(block => block.id));
+    if (applySelectionEdit('선택 이동', translateBlocks(structure, ids, { x: dx, y: dy, z: dz }), ids, 'moveSelection')) {
+      setEditorMessage(null);
+    }
+  }, [structure, selectedBlocks, applySelectionEdit]);
+
+  // The copy goes right next to the selection, on whichever side has room
+  const duplicateSelection = useCallback(() => {
+    if (selectedBlocks.length === 0) return;
+    const ids = new Set(selectedBlocks.map(block => block.id));
+    const { min, max } = getStructureBounds(selectedBlocks)!;
+    const stepX = Math.ceil((max.x - min.x) / BLOCK_SIZE) * BLOCK_SIZE;
+    const stepZ = Math.ceil((max.z - min.z) / BLOCK_SIZE) * BLOCK_SIZE;
+    const offsets = [{ x: stepX, y: 0, z: 0 }, { x: -stepX, y: 0, z: 0 }, { x: 0, y: 0, z: stepZ }, { x: 0, y: 0, z: -stepZ }];
+    for (const offset of offsets) {
+      const copies = duplicateBlocks(structure, ids, offset);
+      const copyIds = new Set(copies.map(block => block.id));
+      const nextStructure = [...structure, ...copies];
+      if (!findPlacementProblem(nextStructure, copyIds, editorGridSize)) {
+        executeEdit(`선택 복제 (${copies.length}개)`, { structure: nextStructure });
+        setSelectedBlockIds(copyIds);
+        setEditorMessage(null);
+        return;
+      }
+    }
+    setEditorMessage("선택한 블록 옆에 복제할 공간이 없습니다."); setMessageType('error');
+  }, [structure, selectedBlocks, executeEdit]);
+
+  const deleteSelection = useCallback(() => {
+    if (selectedBlocks.length === 0) return;
+    executeEdit(`선택 삭제 (${selectedBlocks.length}개)`, { structure: structure.filter(block => !selectedBlockIds.has(block.id)) });
+    setSelectedBlockIds(new Set());
+  }, [structure, selectedBlocks, selectedBlockIds, executeEdit]);
+
+  const recolorSelection = () => {
+    if (selectedColorValue === GOLDEN_BLOCK_COLOR) {
+      setEditorMessage("황금 블록은 하나뿐이어야 하므로 선택한 블록에 황금색을 적용할 수 없습니다."); setMessageType('error');
+      return;
+    }
+    executeEdit('선택 색상 변경', { structure: recolorBlocks(structure, selectedBlockIds, selectedColorValue) });
+  };
+
+  const reshapeSelection = () => {
+    const ids = new Set(selectedBlocks.map(block => block.id));
+    applySelectionEdit('선택 모양 변경', reshapeBlocks(structure, ids, selectedShape), ids);
+  };
+
+  // Adds the symmetry/array copies of every selected block (the golden block stays single)
+  const applyPlacementToolsToSelection = () => {
+    const copies = removeOverlappingCopies([
+      ...selectedBlocks,
+      ...selectedBlocks.filter(block => !block.isKing).flatMap(block => expandPlacement(block, symmetry, arrayPlacement).slice(1)),
+    ]).slice(selectedBlocks.length);
+    if (copies.length === 0) {
+      setEditorMessage("추가될 대칭/배열 복사본이 없습니다."); setMessageType('warning');
+      return;
+    }
+    const ids = createBlockIds(copies.length, structure.length);
+    const placed = copies.map((copy, i) => ({ ...copy, id: ids[i] }));
+    if (applySelectionEdit(`대칭/배열 적용 (${placed.length}개)`, [...structure, ...placed], new Set(ids))) {
+      setSelectedBlockIds(new Set([...selectedBlocks.map(block => block.id), ...ids]));
+    }
+  };
+
+  // O moves the symmetry origin to the grid cell under the ghost block
+  const setSymmetryOriginToGhost = useCallback(() => {
+    const ghost = ghostBlockMeshRef.current;
+    if (!ghost?.visible) return;
+    setSymmetry(prev => ({ ...prev, origin: { x: ghost.position.x, z: ghost.position.z } }));
+  }, []);
+
+  useEffect(() => {
+    const group = symmetryGuidesGroupRef.current;
+    const halfGridWorldSize = (editorGridSize / 2) * BLOCK_SIZE;
+    const guideY = 0.02; // Just above the grid lines
+    const { origin } = symmetry;
+    const segments: [number, number, number, number][] = [];
+    if (symmetry.mirrorX) segments.push([origin.x, -halfGridWorldSize, origin.x, halfGridWorldSize]);
+    if (symmetry.mirrorZ) segments.push([-halfGridWorldSize, origin.z, halfGridWorldSize, origin.z]);
+    if (symmetry.radialCount > 1) {
+      const mark = BLOCK_SIZE / 2;
+      segments.push([origin.x - mark, origin.z, origin.x + mark, origin.z], [origin.x, origin.z - mark, origin.x, origin.z + mark]);
+    }
+    const material = new THREE.LineBasicMaterial({ color: SYMMETRY_GUIDE_COLOR });
+    segments.forEach(([x1, z1, x2, z2]) => {
+      const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(x1, guideY, z1), new THREE.Vector3(x2, guideY, z2)]);
+      group.add(new THREE.Line(geometry, material));
+    });
+    return () => {
+      while (group.children.length) {
+        const line = group.children[0] as THREE.Line;
+        group.remove(line);
+        line.geometry.dispose();
+      }
+      material.dispose();
+    };
+  }, [symmetry]);
+
+  // The launcher the level will play with: the one set here, or the default that follows the structure
+  const effectiveLauncher = useMemo(() => launcher ?? getLevelLauncher({ structure }), [launcher, structure]);
+
+  useEffect(() => {
+    const launcherMesh = createLauncherMesh(effectiveLauncher);
+    setLauncherMeshAim(launcherMesh, getInitialAim(effectiveLauncher));
+    launcherGroupRef.current.add(launcherMesh);
+    return () => disposeLauncherMesh(launcherMesh);
+  }, [effectiveLauncher]);
+
+  // L stands the launcher on the ghost block's cell, facing the structure
+  const moveLauncherToGhost = useCallback(() => {
+    const ghost = ghostBlockMeshRef.current;
+    if (!ghost?.visible) return;
+    const position = { x: ghost.position.x, y: ghost.position.y - BLOCK_SIZE / 2 + LAUNCHER_PIVOT_HEIGHT, z: ghost.position.z };
+    executeEdit('발사대 이동', { launcher: createLauncher(position, getLevelCameraView({ structure }).target) });
+    setEditorMessage(null);
+  }, [executeEdit, structure]);
+
+  const handleLauncherToggle = (isCustom: boolean) => {
+    executeEdit('발사대 변경', { launcher: isCustom ? getLevelLauncher({ structure }) : null });
+    setEditorMessage(null);
+  };
+
+  const handleLauncherPositionChange = (axis: 'x' | 'y' | 'z', value: string) => {
+    if (!launcher) return;
+    executeEdit('발사대 변경', { launcher: { ...launcher, position: { ...launcher.position, [axis]: parseFloat(value) || 0 } } }, 'launcher');
+    setEditorMessage(null);
+  };
+
+  // Keeps min <= max, and the starting angle inside the range
+  const handleLauncherRangeChange = (angle: 'yaw' | 'pitch', bound: 'min' | 'max', value: string) => {
+    if (!launcher) return;
+    const limit = angle === 'pitch' ? 90 : 360;
+    const range: LauncherAngleRange = { ...launcher[angle], [bound]: Math.max(-limit, Math.min(limit, parseFloat(value) || 0)) };
+    if (range.min > range.max) {
+      if (bound === 'min') range.max = range.min; else range.min = range.max;
+    }
+    if (range.initial !== undefined) range.initial = Math.max(range.min, Math.min(range.max, range.initial));
+    executeEdit('발사대 변경', { launcher: { ...launcher, [angle]: range } }, 'launcher');
+    setEditorMessage(null);
+  };
+
+  const selectAll = useCallback(() => setSelectedBlockIds(new Set(structure.map(block => block.id))), [structure]);
+  const clearSelection = useCallback(() => setSelectedBlockIds(new Set()), []);
+
+  const copySelectionText = useCallback(() => JSON.stringify(createBlockFragment(selectedBlocks)), [selectedBlocks]);
+
+  // Pastes at the ghost block when the pointer is over the grid, otherwise back where the blocks were copied from
+  const pasteFragmentText = useCallback((text: string) => {
+    let fragment;
+    try {
+      fragment = parseBlockFragment(JSON.parse(text));
+    } catch (error) {
+      setEditorMessage(`붙여넣을 수 없습니다: ${error instanceof Error ? error.message : String(error)}`); setMessageType('error');
+      return;
+    }
+    const ghost = ghostBlockMeshRef.current;
+    const target = ghost?.visible
+      ? { x: ghost.position.x, y: ghost.position.y - getBlockHalfExtents(selectedShape, selectedRotation).y, z: ghost.position.z }
+      : fragment.origin;
+    const pasted = instantiateFragment(structure, fragment.blocks, target);
+    const pastedIds = new Set(pasted.map(block => block.id));
+    if (applySelectionEdit(`붙여넣기 (${pasted.length}개)`, [...structure, ...pasted], pastedIds)) {
+      setSelectedBlockIds(pastedIds);
+      setEditorMessage(`블록 ${pasted.length}개를 붙여넣었습니다.`); setMessageType('success');
+    }
+  }, [structure, selectedShape, selectedRotation, applySelectionEdit]);
+
+  const copySelectionToClipboard = async () => {
+    try {
+      await navigator.clipboard.writeText(copySelectionText());
+      setEditorMessage(`블록 ${selectedBlocks.length}개를 복사했습니다.`); setMessageType('success');
+    } catch (error) {
+      console.error("Error copying blocks to the clipboard:", error);
+      setEditorMessage("클립보드에 복사할 수 없습니다. Ctrl+C를 사용해 보세요."); setMessageType('error');
+    }
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      pasteFragmentText(await navigator.clipboard.readText());
+    } catch (error) {
+      console.error("Error reading blocks from the clipboard:", error);
+      setEditorMessage("클립보드를 읽을 수 없습니다. Ctrl+V를 사용해 보세요."); setMessageType('error');
+    }
+  };
+
+  // Ctrl+C/X/V go through the clipboard events, which work without asking for clipboard permission
+  useEffect(() => {
+    const handleCopy = (event: ClipboardEvent) => {
+      if (testPlayLevel || isEditableTarget(event.target) || selectedBlocks.length === 0 || !event.clipboardData) return;
+      event.clipboardData.setData('text/plain', copySelectionText());
+      event.preventDefault();
+      if (event.type === 'cut') deleteSelection();
+      setEditorMessage(`블록 ${selectedBlocks.length}개를 ${event.type === 'cut' ? '잘라냈습니다' : '복사했습니다'}.`); setMessageType('success');
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (testPlayLevel || isEditableTarget(event.target) || !event.clipboardData) return;
+      // Anything other than copied blocks is left to the browser
+      const text = event.clipboardData.getData('text/plain');
+      if (!isBlockFragmentText(text)) return;
+      event.preventDefault();
+      pasteFragmentText(text);
+    };
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCopy);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCopy);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [selectedBlocks, copySelectionText, deleteSelection, pasteFragmentText, testPlayLevel]);
+
+  // R turns the block a quarter turn around Y, F stands it upright or lays it back down
+  const rotateSelection = useCallback(() => {
+    setSelectedRotation(prev => ({ ...prev, y: (prev.y + 90) % 360 }));
+  }, []);
+  const toggleUpright = useCallback(() => {
+    setSelectedRotation(prev => ({ ...prev, z: prev.z === 0 ? 90 : 0 }));
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (testPlayLevel || isEditableTarget(event.target)) return;
+      if (event.ctrlKey || event.metaKey) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) { event.preventDefault(); undo(); }
+        else if (key === 'y' || (key === 'z' && event.shiftKey)) { event.preventDefault(); redo(); }
+        else if (key === 'a') { event.preventDefault(); selectAll(); }
+        else if (key === 'd') { event.preventDefault(); duplicateSelection(); }
+        return;
+      }
+      // Arrow keys and Page Up/Down move the selection one block along X/Z and Y
+      const moves: Record<string, [number, number, number]> = {
+        ArrowLeft: [-BLOCK_SIZE, 0, 0], ArrowRight: [BLOCK_SIZE, 0, 0],
+        ArrowUp: [0, 0, -BLOCK_SIZE], ArrowDown: [0, 0, BLOCK_SIZE],
+        PageUp: [0, BLOCK_SIZE, 0], PageDown: [0, -BLOCK_SIZE, 0],
+      };
+      if (moves[event.key] && selectedBlockIds.size > 0) {
+        event.preventDefault();
+        moveSelection(...moves[event.key]);
+      }
+      else if (event.key === 'Delete' || event.key === 'Backspace') deleteSelection();
+      else if (event.key === 'Escape') clearSelection();
+      else if (event.key === 'r' || event.key === 'R') rotateSelection();
+      else if (event.key === 'f' || event.key === 'F') toggleUpright();
+      else if (event.key === 'o' || event.key === 'O') setSymmetryOriginToGhost();
+      else if (event.key === 'l' || event.key === 'L') moveLauncherToGhost();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [rotateSelection, toggleUpright, undo, redo, selectedBlockIds, selectAll, clearSelection, moveSelection, duplicateSelection, deleteSelection, setSymmetryOriginToGhost, moveLauncherToGhost, testPlayLevel]);
+
   useEffect(() => {
     if (ghostBlockMeshRef.current) {
         const ghostColor = selectedColorValue === GOLDEN_BLOCK_COLOR ? 0xffd700 : selectedColorValue; 
@@ -349,30 +716,47 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
 
   useEffect(() => {
     if (!placedBlocksGroupRef.current) return;
+    const stabilityReport = stabilityCheck?.structureHash === structureHash ? stabilityCheck.report : null;
     
     while (placedBlocksGroupRef.current.children.length) {
       const child = placedBlocksGroupRef.current.children[0] as THREE.Mesh;
       placedBlocksGroupRef.current.remove(child);
       child.geometry.dispose();
       (child.material as THREE.Material).dispose();
+      child.children.forEach(outline => {
+        (outline as THREE.LineSegments).geometry.dispose();
+        ((outline as THREE.LineSegments).material as THREE.Material).dispose();
+      });
     }
 
     structure.forEach(block => {
       const geometry = createBlockGeometry(block.shape);
-      const colorToUse = block.isKing ? GOLDEN_BLOCK_COLOR : (block.color || DEFAULT_BLOCK_COLOR);
-      const material = new THREE.MeshStandardMaterial({
-        color: colorToUse,
-        metalness: block.isKing ? 0.8 : 0.3,
-        roughness: block.isKing ? 0.2 : 0.5,
-      });
+      // The game's look, with selection and stability problems lit up on top
+      const material = createBlockMaterial(block);
+      if (selectedBlockIds.has(block.id)) {
+        material.emissive.setHex(SELECTED_BLOCK_HIGHLIGHT);
+        material.emissiveIntensity = 0.6;
+      } else if (stabilityReport?.fallenBlockIds.includes(block.id)) {
+        material.emissive.setHex(FALLEN_BLOCK_HIGHLIGHT);
+        material.emissiveIntensity = 0.6;
+      } else if (stabilityReport?.movedBlockIds.includes(block.id)) {
+        material.emissive.setHex(MOVED_BLOCK_HIGHLIGHT);
+        material.emissiveIntensity = 0.5;
+      }
       const mesh = new THREE.Mesh(geometry, material);
       mesh.position.set(block.x, block.y, block.z);
+      if (block.rotation) {
+        mesh.rotation.set(block.rotation.x * DEG_TO_RAD, block.rotation.y * DEG_TO_RAD, block.rotation.z * DEG_TO_RAD);
+      }
       mesh.castShadow = true;
       mesh.receiveShadow = true;
+      if (block.anchor) {
+        mesh.add(createAnchorOutline(geometry, block.anchor));
+      }
       mesh.userData = { id: block.id, isEditorBlock: true };
       placedBlocksGroupRef.current.add(mesh);
     });
-  }, [structure]);
+  }, [structure, structureHash, stabilityCheck, selectedBlockIds]);
 
 
   const getCanvasRelativeOffset = (event: React.MouseEvent<HTMLDivElement>) => {
@@ -382,7 +766,83 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     return { x: event.clientX - rect.left, y: event.clientY - rect.top };
   };
 
+  // Id of the placed block under a canvas point, if any
+  const pickBlockId = (offset: { x: number; y: number }): string | null => {
+    if (!mountRef.current || !cameraRef.current) return null;
+    mouseRef.current.x = (offset.x / mountRef.current.clientWidth) * 2 - 1;
+    mouseRef.current.y = -(offset.y / mountRef.current.clientHeight) * 2 + 1;
+    raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
+    const intersectsPlaced = raycasterRef.current.intersectObjects(placedBlocksGroupRef.current.children, false);
+    const hit = intersectsPlaced[0]?.object;
+    return hit?.userData.isEditorBlock ? hit.userData.id : null;
+  };
+
+  // Shift-click toggles one block; a shift-drag adds every block whose center lands inside the box
+  const handleMouseUp = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!selectionBox || !mountRef.current || !cameraRef.current) return;
+    const { start } = selectionBox;
+    const end = getCanvasRelativeOffset(event);
+    setSelectionBox(null);
+
+    if (Math.abs(end.x - start.x) < BOX_SELECT_MIN_DRAG_PX && Math.abs(end.y - start.y) < BOX_SELECT_MIN_DRAG_PX) {
+      const blockId = pickBlockId(end);
+      if (!blockId) return;
+      setSelectedBlockIds(prev => {
+        const next = new Set(prev);
+        if (next.has(blockId)) next.delete(blockId); else next.add(blockId);
+        return next;
+      });
+      return;
+    }
+
+    const left = Math.min(start.x, end.x), right = Math.max(start.x, end.x);
+    const top = Math.min(start.y, end.y), bottom = Math.max(start.y, end.y);
+    const width = mountRef.current.clientWidth, height = mountRef.current.clientHeight;
+    const boxedIds = structure.filter(block => {
+      const projected = new THREE.Vector3(block.x, block.y, block.z).project(cameraRef.current!);
+      const screenX = (projected.x + 1) / 2 * width;
+      const screenY = (1 - projected.y) / 2 * height;
+      return projected.z < 1 && screenX >= left && screenX <= right && screenY >= top && screenY <= bottom;
+    }).map(block => block.id);
+    setSelectedBlockIds(prev => new Set([...prev, ...boxedIds]));
+  };
+
+  const clearGhostCopies = () => {
+    const group = ghostCopiesGroupRef.current;
+    while (group.children.length) {
+      const copy = group.children[0] as THREE.Mesh;
+      group.remove(copy);
+      copy.geometry.dispose(); // The material is the ghost block's own
+    }
+  };
+
+  // Previews the copies a click would place with the current symmetry/array settings
+  const updateGhostCopies = () => {
+    clearGhostCopies();
+    const ghost = ghostBlockMeshRef.current;
+    if (!ghost?.visible || selectedColorValue === GOLDEN_BLOCK_COLOR || !hasPlacementTools(symmetry, arrayPlacement)) return;
+    const ghostBlock: BlockConfig = { id: 'ghost', x: ghost.position.x, y: ghost.position.y, z: ghost.position.z, shape: selectedShape, rotation: selectedRotation };
+    expandPlacement(ghostBlock, symmetry, arrayPlacement).slice(1).forEach(copy => {
+      const mesh = new THREE.Mesh(createBlockGeometry(copy.shape), ghost.material);
+      mesh.position.set(copy.x, copy.y, copy.z);
+      if (copy.rotation) {
+        mesh.rotation.set(copy.rotation.x * DEG_TO_RAD, copy.rotation.y * DEG_TO_RAD, copy.rotation.z * DEG_TO_RAD);
+      }
+      ghostCopiesGroupRef.current.add(mesh);
+    });
+  };
+
   const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    positionGhostBlock(event);
+    updateGhostCopies();
+  };
+
+  const positionGhostBlock = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (selectionBox) {
+      setSelectionBox({ ...selectionBox, end: getCanvasRelativeOffset(event) });
+      if (ghostBlockMeshRef.current) ghostBlockMeshRef.current.visible = false;
+      return;
+    }
     if (!mountRef.current || !cameraRef.current || !ghostBlockMeshRef.current || isDraggingCamera || isAiGenerating) {
       if (ghostBlockMeshRef.current) ghostBlockMeshRef.current.visible = false;
       return;
@@ -394,13 +854,16 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current);
 
     const intersectsPlaced = raycasterRef.current.intersectObjects(placedBlocksGroupRef.current.children, false);
-    let newGhostYPosition = placementYOffset; 
+    const ghostExtents = getBlockHalfExtents(selectedShape, selectedRotation);
+    let newGhostYPosition = ghostExtents.y; 
 
     if (intersectsPlaced.length > 0) {
         const intersect = intersectsPlaced[0];
         const hitBlockMesh = intersect.object as THREE.Mesh;
+        const hitBlock = structure.find(b => b.id === hitBlockMesh.userData.id);
+        const hitBlockTop = hitBlockMesh.position.y + (hitBlock ? getBlockHalfExtents(hitBlock.shape, hitBlock.rotation).y : BLOCK_SIZE / 2);
         
-        newGhostYPosition = hitBlockMesh.position.y + BLOCK_SIZE; 
+        newGhostYPosition = hitBlockTop + ghostExtents.y; 
         
         ghostBlockMeshRef.current.position.set(
             hitBlockMesh.position.x, 
@@ -420,13 +883,9 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
             const snappedX = Math.round(intersectPoint.x / BLOCK_SIZE) * BLOCK_SIZE;
             const snappedZ = Math.round(intersectPoint.z / BLOCK_SIZE) * BLOCK_SIZE;
             
-            let halfWidth = BLOCK_SIZE / 2;
-            if (selectedShape === 'cube_2x1x1') halfWidth = BLOCK_SIZE; 
-            else if (selectedShape === 'cube_3x1x1') halfWidth = BLOCK_SIZE * 1.5; 
-            
             const halfGridWorldSize = (editorGridSize / 2) * BLOCK_SIZE;
-            if ( (snappedX - halfWidth) < -halfGridWorldSize || (snappedX + halfWidth) > halfGridWorldSize ||
-                 (snappedZ - (BLOCK_SIZE/2)) < -halfGridWorldSize || (snappedZ + (BLOCK_SIZE/2)) > halfGridWorldSize) { 
+            if ( (snappedX - ghostExtents.x) < -halfGridWorldSize || (snappedX + ghostExtents.x) > halfGridWorldSize ||
+                 (snappedZ - ghostExtents.z) < -halfGridWorldSize || (snappedZ + ghostExtents.z) > halfGridWorldSize) { 
                 ghostBlockMeshRef.current.visible = false;
             } else {
                 ghostBlockMeshRef.current.position.set(snappedX, newGhostYPosition, snappedZ);
@@ -438,49 +897,123 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   };
   
+  // Places a block along with its symmetry/array copies, all as one undoable edit
+  const placeWithCopies = (newBlock: BlockConfig) => {
+    if (!hasPlacementTools(symmetry, arrayPlacement)) {
+      executeEdit('블록 놓기', { structure: [...structure, newBlock] });
+      return;
+    }
+    const images = expandPlacement(newBlock, symmetry, arrayPlacement);
+    const ids = createBlockIds(images.length, structure.length);
+    const placed = images.map((image, i) => ({ ...image, id: ids[i] }));
+    applySelectionEdit(`블록 놓기 (${placed.length}개)`, [...structure, ...placed], new Set(ids));
+  };
+
   const handleMouseClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (event.button === 0 && event.shiftKey) {
+      if (isDraggingCamera || isAiGenerating) return;
+      const offset = getCanvasRelativeOffset(event);
+      setSelectionBox({ start: offset, end: offset });
+      return;
+    }
     if (!ghostBlockMeshRef.current?.visible || isDraggingCamera || isAiGenerating) return;
     setEditorMessage(null); setMessageType(null);
     
     const pos = ghostBlockMeshRef.current.position;
-    const existingBlock = structure.find(b => 
-      Math.abs(b.x - pos.x) < 0.01 && 
-      Math.abs(b.y - pos.y) < 0.01 && 
-      Math.abs(b.z - pos.z) < 0.01
-    );
+    const isGoldenBlock = selectedColorValue === GOLDEN_BLOCK_COLOR;
+    // The golden block is never special or anchored; special blocks use their own color so they read as hazards,
+    // and static blocks can't break or explode
+    const anchor = isGoldenBlock ? null : selectedAnchor;
+    const special = isGoldenBlock || anchor === 'static' ? null : selectedSpecial;
+    const newBlock: BlockConfig = {
+      id: `custom_block_${Date.now()}_${structure.length}`,
+      x: pos.x, y: pos.y, z: pos.z,
+      shape: selectedShape,
+      ...(hasRotation(selectedRotation) && { rotation: selectedRotation }),
+      ...(selectedMaterial !== DEFAULT_BLOCK_MATERIAL && { material: selectedMaterial }),
+      ...(selectedHealth > 0 && anchor !== 'static' && { health: selectedHealth }),
+      ...(special && { special }),
+      ...(anchor && { anchor }),
+      isKing: isGoldenBlock, // isKing flag for the golden block
+      color: isGoldenBlock || special ? undefined : selectedColorValue, 
+    };
+    const existingBlock = structure.find(b => blocksOverlap(b, newBlock));
 
     if (event.button === 0) { // Left click
       if (!existingBlock) {
-        const isGoldenBlock = selectedColorValue === GOLDEN_BLOCK_COLOR;
-        const newBlock: BlockConfig = {
-          id: `custom_block_${Date.now()}_${structure.length}`,
-          x: pos.x, y: pos.y, z: pos.z,
-          shape: selectedShape,
-          isKing: isGoldenBlock, // isKing flag for the golden block
-          color: isGoldenBlock ? undefined : selectedColorValue, 
-        };
         if (isGoldenBlock) { 
-          setStructure(prev => [...prev.map(b => ({...b, isKing: false})), newBlock]);
+          const hadGoldenBlock = structure.some(b => b.isKing);
+          executeEdit(hadGoldenBlock ? '황금 블록 이동' : '황금 블록 놓기', { structure: [...structure.map(b => ({...b, isKing: false})), newBlock] });
         } else {
-          setStructure(prev => [...prev, newBlock]);
+          placeWithCopies(newBlock);
         }
       } else {
         setEditorMessage("이미 해당 위치에 블록이 있습니다."); setMessageType('error');
       }
     } else if (event.button === 2) { // Right click
         raycasterRef.current.setFromCamera(mouseRef.current, cameraRef.current!); 
-        const intersectsPlaced = raycasterRef.current.intersectObjects(placedBlocksGroupRef.current.children);
+        const intersectsPlaced = raycasterRef.current.intersectObjects(placedBlocksGroupRef.current.children, false);
         if (intersectsPlaced.length > 0) {
             const clickedObject = intersectsPlaced[0].object as THREE.Mesh;
             if (clickedObject.userData.isEditorBlock) {
                 const blockId = clickedObject.userData.id;
-                setStructure(prev => prev.filter(b => b.id !== blockId));
+                executeEdit('블록 제거', { structure: structure.filter(b => b.id !== blockId) });
             }
         }
     }
   };
 
-  const validateAndGetLevelConfig = (): LevelConfiguration | null => {
+  // The level as it would be saved, without any of the checks; the structure must not be empty
+  const buildLevelConfig = (finalLevelName: string): LevelConfiguration => {
+    const { min, max } = getStructureBounds(structure)!;
+    const centerX = (min.x + max.x) / 2; const centerY = (min.y + max.y) / 2; const centerZ = (min.z + max.z) / 2;
+    const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z, BLOCK_SIZE * 5) || BLOCK_SIZE * 5;
+
+    return {
+      formatVersion: LEVEL_FORMAT_VERSION,
+      levelId: editingLevelId || `custom_${Date.now()}_${Math.random().toString(36).substring(2,7)}`,
+      name: finalLevelName,
+      initialProjectiles: initialProjectiles,
+      structure, 
+      cameraPosition: { x: centerX, y: centerY + extent * 0.75, z: centerZ + extent * 1.5 },
+      cameraTarget: { x: centerX, y: centerY, z: centerZ },
+      gameMessage: `커스텀 레벨: ${finalLevelName}. 황금 블록을 무너뜨리세요!`,
+      ...(Object.keys(par).length > 0 && { par }),
+      ...(hideTrajectory && { hideTrajectory }),
+      ...(launcher && { launcher }),
+    };
+  };
+
+  // Runs a stability check, or a generator built on one, in the background with its progress shown. A newer run
+  // aborts an older one, which then resolves to null.
+  const runStabilityTask = async <T,>(
+    task: (options: { signal: AbortSignal; onProgress: (progress: number) => void }) => Promise<T | null>
+  ): Promise<T | null> => {
+    stabilityRunRef.current?.abort();
+    const controller = new AbortController();
+    stabilityRunRef.current = controller;
+    setStabilityProgress(0);
+    try {
+      return await task({ signal: controller.signal, onProgress: setStabilityProgress });
+    } finally {
+      if (stabilityRunRef.current === controller) {
+        stabilityRunRef.current = null;
+        setStabilityProgress(null);
+      }
+    }
+  };
+
+  // Reuses the last report when the structure hasn't changed since
+  const checkStability = async (levelConfig: LevelConfiguration): Promise<StabilityReport | null> => {
+    const hash = getStructureHash(levelConfig.structure);
+    if (stabilityCheck?.structureHash === hash) return stabilityCheck.report;
+    const report = await runStabilityTask(options => analyzeStabilityAsync(levelConfig, options));
+    if (report) setStabilityCheck({ structureHash: hash, report });
+    return report;
+  };
+
+  // allowCollapse is the "save anyway" path offered once the check has refused a structure
+  const validateAndGetLevelConfig = async (action: 'save' | 'export', allowCollapse = false): Promise<LevelConfiguration | null> => {
     const finalLevelName = levelName.trim();
     if (!finalLevelName) {
       setEditorMessage("레벨 이름을 입력해야 합니다."); setMessageType('error'); return null;
@@ -499,52 +1032,60 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
       setEditorMessage("구조물에는 하나의 황금 블록만 포함될 수 있습니다. 현재 " + goldenBlocks.length + "개 입니다."); setMessageType('error'); return null;
     }
 
-    let minX = -Infinity, maxX = Infinity, minY = -Infinity, maxY = Infinity, minZ = -Infinity, maxZ = Infinity;
-    
-    if (structure.length > 0) {
-        minX = Infinity; maxX = -Infinity;
-        minY = Infinity; maxY = -Infinity;
-        minZ = Infinity; maxZ = -Infinity;
-
-        structure.forEach(b => {
-            let halfWidth = BLOCK_SIZE / 2; let halfDepth = BLOCK_SIZE / 2;
-            if (b.shape === 'cube_2x1x1') halfWidth = BLOCK_SIZE; 
-            else if (b.shape === 'cube_3x1x1') halfWidth = BLOCK_SIZE * 1.5;
-            
-            minX = Math.min(minX, b.x - halfWidth); maxX = Math.max(maxX, b.x + halfWidth);
-            minY = Math.min(minY, b.y - BLOCK_SIZE / 2); maxY = Math.max(maxY, b.y + BLOCK_SIZE / 2);
-            minZ = Math.min(minZ, b.z - halfDepth); maxZ = Math.max(maxZ, b.z + halfDepth);
-        });
-    } else { 
-        minX = 0; maxX = 0; minY = 0; maxY = 0; minZ = 0; maxZ = 0;
+    const levelConfig = buildLevelConfig(finalLevelName);
+    // The same check the game runs when it loads the level back
+    const schemaErrors = validateLevel(levelConfig);
+    if (schemaErrors.length > 0) {
+      setEditorMessage(`레벨 형식이 올바르지 않아 ${action === 'save' ? '저장' : '내보내기'}할 수 없습니다.\n${formatLevelSchemaErrors(schemaErrors)}`); setMessageType('error'); return null;
     }
 
-    const centerX = (minX + maxX) / 2; const centerY = (minY + maxY) / 2; const centerZ = (minZ + maxZ) / 2;
-    const extent = Math.max(maxX - minX, maxY - minY, maxZ - minZ, BLOCK_SIZE * 5) || BLOCK_SIZE * 5;
+    // Structures that collapse on their own aren't saved unless the designer insists; ones that merely shift are
+    // allowed with a warning
+    setCollapseOverride(null);
+    const stabilityReport = await checkStability(levelConfig);
+    if (!stabilityReport) return null;
+    if (stabilityReport.fallenBlockIds.length > 0 && !allowCollapse) {
+      setCollapseOverride({ action, structureHash: getStructureHash(levelConfig.structure) });
+      setEditorMessage(`${describeStabilityReport(stabilityReport)} 빨간색으로 표시된 블록을 수정하거나 '그래도 ${action === 'save' ? '저장' : '내보내기'}'를 누르세요.`); setMessageType('error'); return null;
+    }
+    if (!stabilityReport.isStable) {
+      setEditorMessage(`${describeStabilityReport(stabilityReport)} 주황색으로 표시된 블록을 확인하세요.`); setMessageType('warning');
+    }
+    return levelConfig;
+  };
 
-    return {
-      levelId: editingLevelId || `custom_${Date.now()}_${Math.random().toString(36).substring(2,7)}`,
-      name: finalLevelName,
-      initialProjectiles: initialProjectiles,
-      structure, 
-      cameraPosition: { x: centerX, y: centerY + extent * 0.75, z: centerZ + extent * 1.5 },
-      cameraTarget: { x: centerX, y: centerY, z: centerZ },
-      gameMessage: `커스텀 레벨: ${finalLevelName}. 황금 블록을 무너뜨리세요!`
-    };
+  // Clearing an input removes that par target
+  const handleParChange = (key: keyof LevelPar, value: string) => {
+    const parsed = parseInt(value, 10);
+    const next = { ...par };
+    if (isNaN(parsed) || parsed < 0) delete next[key]; else next[key] = parsed;
+    executeEdit('파 목표 변경', { par: next }, `par.${key}`);
+    setEditorMessage(null);
   };
 
-  const handleSaveLevel = () => {
-    const newLevel = validateAndGetLevelConfig();
+  // Unstable structures can be test-played too; watching them collapse is often the point
+  const handleTestPlay = () => {
+    if (structure.length === 0) {
+      setEditorMessage("테스트 플레이할 블록이 없습니다."); setMessageType('error'); return;
+    }
+    setTestPlayLevel(buildLevelConfig(levelName.trim() || '이름 없는 레벨'));
+    if (!structure.some(block => block.isKing)) {
+      setEditorMessage("황금 블록이 없어 클리어할 수 없는 상태로 테스트합니다."); setMessageType('warning');
+    }
+  };
+
+  const handleSaveLevel = async (allowCollapse = false) => {
+    const newLevel = await validateAndGetLevelConfig('save', allowCollapse);
     if (newLevel) {
       onSave(newLevel, editingLevelId); 
     }
   };
 
-  const handleExportLevel = () => {
-    const levelToExport = validateAndGetLevelConfig();
+  const handleExportLevel = async (allowCollapse = false) => {
+    const levelToExport = await validateAndGetLevelConfig('export', allowCollapse);
     if (levelToExport) {
       try {
-        const jsonString = JSON.stringify(levelToExport, null, 2);
+        const jsonString = JSON.stringify(withThumbnail(levelToExport), null, 2);
         const blob = new Blob([jsonString], { type: 'application/json' });
         const href = URL.createObjectURL(blob);
         const link = document.createElement('a');
@@ -569,22 +1110,23 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
-          const importedLevel = JSON.parse(e.target?.result as string) as LevelConfiguration;
-          if (importedLevel?.name && Array.isArray(importedLevel.structure) && typeof importedLevel.initialProjectiles === 'number') {
-            setLevelName(importedLevel.name);
-            setInitialProjectiles(Math.max(1, importedLevel.initialProjectiles));
-            const validatedStructure = importedLevel.structure.map((block, index) => ({
-                ...block,
-                id: block.id || `imported_block_${Date.now()}_${index}`,
-                shape: block.shape || 'cube', 
-                color: typeof block.color === 'string' ? parseInt(block.color, 16) : block.color
-            }));
-            setStructure(validatedStructure);
-            setEditingLevelId(importedLevel.levelId || null); 
-            centerCameraOnStructure(validatedStructure, true);
-            setEditorMessage("레벨을 가져왔습니다! 필요시 '저장'하여 라이브러리에 추가/업데이트 하세요."); setMessageType('success');
+          const parsed = parseLevel(JSON.parse(e.target?.result as string));
+          if (parsed.ok) {
+            const importedLevel = parsed.level;
+            executeEdit('파일 가져오기', {
+              levelName: importedLevel.name,
+              initialProjectiles: importedLevel.initialProjectiles,
+              par: importedLevel.par ?? {},
+              hideTrajectory: importedLevel.hideTrajectory ?? false,
+              launcher: importedLevel.launcher ?? null,
+              structure: importedLevel.structure,
+              editingLevelId: importedLevel.levelId,
+            });
+            centerCameraOnStructure(importedLevel.structure, true);
+            const migrationNote = parsed.migratedFrom !== undefined ? ` (버전 ${parsed.migratedFrom} 파일을 최신 형식으로 변환했습니다.)` : '';
+            setEditorMessage(`레벨을 가져왔습니다! 필요시 '저장'하여 라이브러리에 추가/업데이트 하세요.${migrationNote}`); setMessageType('success');
           } else {
-            setEditorMessage("잘못된 레벨 파일 형식입니다."); setMessageType('error');
+            setEditorMessage(`잘못된 레벨 파일 형식입니다.\n${formatLevelSchemaErrors(parsed.errors)}`); setMessageType('error');
           }
         } catch (error) {
           console.error("Error importing level:", error);
@@ -596,51 +1138,55 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   };
 
+  // Shared by the AI and procedural generators: load the level unsaved and run the stability check on it, unless the
+  // generator already did
+  const loadGeneratedLevel = async (generatedLevel: LevelConfiguration, generatorLabel: string, historyLabel: string, knownReport?: StabilityReport) => {
+    const schemaErrors = validateLevel(generatedLevel);
+    if (schemaErrors.length > 0) {
+      setEditorMessage(`${generatorLabel} 만든 레벨의 형식이 올바르지 않아 불러오지 않았습니다.\n${formatLevelSchemaErrors(schemaErrors)}`); setMessageType('error'); return;
+    }
+    executeEdit(historyLabel, {
+      levelName: generatedLevel.name,
+      initialProjectiles: Math.max(1, generatedLevel.initialProjectiles),
+      par: generatedLevel.par ?? {},
+      hideTrajectory: generatedLevel.hideTrajectory ?? false,
+      launcher: generatedLevel.launcher ?? null,
+      structure: generatedLevel.structure,
+      editingLevelId: null,
+    });
+    centerCameraOnStructure(generatedLevel.structure, true);
+
+    let stabilityReport = knownReport ?? null;
+    if (knownReport) {
+      setStabilityCheck({ structureHash: getStructureHash(generatedLevel.structure), report: knownReport });
+    } else {
+      setEditorMessage(`${generatorLabel} 만든 구조물의 안정성을 검사하는 중입니다...`);
+      setMessageType(null);
+      stabilityReport = await checkStability(generatedLevel);
+    }
+    if (!stabilityReport) return;
+    if (stabilityReport.isStable) {
+      setEditorMessage(`${generatorLabel} 레벨 생성을 완료했습니다!`);
+      setMessageType('success');
+    } else {
+      setEditorMessage(`${generatorLabel} 레벨 생성을 완료했지만 ${describeStabilityReport(stabilityReport)} 표시된 블록을 수정하세요.`);
+      setMessageType('warning');
+    }
+  };
+
   const handleAiGenerateLevel = async () => {
     setIsAiGenerating(true);
     setEditorMessage("AI가 레벨을 생성 중입니다... 잠시 기다려 주세요.");
     setMessageType(null); 
 
-    try {
-      const aiGeneratedLevel = await generateLevelWithGemini(aiPrompt);
-      
-      if (!aiGeneratedLevel.name || !Array.isArray(aiGeneratedLevel.structure) || typeof aiGeneratedLevel.initialProjectiles !== 'number') {
-        throw new Error("AI 생성 데이터에 필수 필드가 누락되었습니다.");
-      }
-      if (aiGeneratedLevel.structure.length === 0) {
-        throw new Error("AI가 빈 구조물을 생성했습니다. 다른 프롬프트를 시도해 보세요.");
-      }
-      const goldenBlocks = aiGeneratedLevel.structure.filter(b => b.isKing);
-      if (goldenBlocks.length !== 1) {
-        console.warn(`AI 생성 레벨에 황금 블록이 ${goldenBlocks.length}개 있습니다. 수정 시도 중...`);
-        let hasFixedKing = false;
-        aiGeneratedLevel.structure.forEach((b, idx) => {
-            if (idx === 0 && goldenBlocks.length === 0) {
-                b.isKing = true;
-                hasFixedKing = true;
-            } else if (goldenBlocks.length > 1 && b.isKing && !hasFixedKing) {
-                hasFixedKing = true; 
-            } else if (goldenBlocks.length > 1 && b.isKing && hasFixedKing) {
-                b.isKing = false; 
-            }
-        });
-        if (!hasFixedKing && aiGeneratedLevel.structure.length > 0) { 
-             aiGeneratedLevel.structure[0].isKing = true; 
-        }
-         const finalKingCheck = aiGeneratedLevel.structure.filter(b => b.isKing);
-         if (finalKingCheck.length !== 1) {
-            throw new Error(`AI가 황금 블록을 ${finalKingCheck.length}개 생성했습니다. 생성에 실패했습니다.`);
-         }
-      }
+    setAiAttempts([]);
 
-      setLevelName(aiGeneratedLevel.name);
-      setInitialProjectiles(Math.max(1, aiGeneratedLevel.initialProjectiles));
-      setStructure(aiGeneratedLevel.structure);
-      setEditingLevelId(null); 
-      centerCameraOnStructure(aiGeneratedLevel.structure, true);
-      setEditorMessage("AI가 레벨 생성을 완료했습니다!");
-      setMessageType('success');
+    try {
+      const { level: aiGeneratedLevel } = await generateLevelWithGemini(aiPrompt, attempt => {
+        setAiAttempts(prev => [...prev, attempt]);
+      });
 
+      await loadGeneratedLevel(aiGeneratedLevel, 'AI가', 'AI 생성');
     } catch (error: any) {
       console.error("AI Level Generation Error:", error);
       setEditorMessage(`AI 레벨 생성 실패: ${error.message}`); 
@@ -650,6 +1196,25 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   };
 
+  const handleProceduralGenerateLevel = async () => {
+    setAiAttempts([]);
+    setEditorMessage("절차적 생성기가 스스로 서 있는 구조물을 찾는 중입니다...");
+    setMessageType(null);
+    const generated = await runStabilityTask(options => generateStableProceduralLevel(proceduralOptions, options));
+    if (generated) await loadGeneratedLevel(generated.level, '절차적 생성기가', '절차적 생성', generated.report);
+  };
+
+  const updateProceduralOptions = (changes: Partial<ProceduralGeneratorOptions>) => {
+    setProceduralOptions(prev => ({ ...prev, ...changes }));
+  };
+
+  const toggleProceduralShape = (shape: BlockShape) => {
+    setProceduralOptions(prev => ({
+      ...prev,
+      shapeMix: { ...prev.shapeMix, [shape]: prev.shapeMix[shape] ? 0 : 1 },
+    }));
+  };
+
   const handleSaveApiKey = () => {
     if (typeof localStorage !== 'undefined') {
         try {
@@ -671,9 +1236,11 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
     }
   };
 
+  const materialDefaultHealth = getBlockMaterialConfig(selectedMaterial).health;
 
   return (
     <div className="w-full flex-grow max-w-full relative flex flex-col bg-[#1a202c]">
+      {testPlayLevel && <EditorTestPlay level={testPlayLevel} onExit={() => setTestPlayLevel(null)} />}
       <div className="absolute top-4 left-4 p-3 bg-black/70 rounded-md text-gray-200 text-xs shadow-lg z-10">
         <h4 className="font-semibold mb-1">조작법:</h4>
         <ul className="list-disc list-inside space-y-0.5">
@@ -681,25 +1248,92 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
           <li>마우스 오른쪽 클릭: 블록 제거</li>
           <li>마우스 휠: 확대/축소</li>
           <li>마우스 휠 클릭 + 드래그: 시점 회전</li>
+          <li>R: 블록 90° 회전 / F: 블록 세우기</li>
+          <li>Ctrl+Z: 실행 취소 / Ctrl+Y: 다시 실행</li>
+          <li>Shift + 클릭/드래그: 블록 선택 (Ctrl+A: 전체)</li>
+          <li>방향키 / PgUp·PgDn: 선택 이동</li>
+          <li>Ctrl+D: 복제 / Delete: 삭제 / Esc: 선택 해제</li>
+          <li>Ctrl+C / Ctrl+X / Ctrl+V: 복사 / 잘라내기 / 붙여넣기</li>
+          <li>O: 커서 위치를 대칭 원점으로</li>
+          <li>L: 커서 위치에 발사대 놓기</li>
         </ul>
       </div>
+
+      <div className="absolute top-4 right-4 w-44 p-3 bg-black/70 rounded-md text-gray-200 text-xs shadow-lg z-10">
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-semibold">편집 기록:</h4>
+          <div className="flex gap-1">
+            <button onClick={undo} disabled={!canUndo(history)} title="실행 취소 (Ctrl+Z)" aria-label="실행 취소"
+              className="px-1.5 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed">↶</button>
+            <button onClick={redo} disabled={!canRedo(history)} title="다시 실행 (Ctrl+Y)" aria-label="다시 실행"
+              className="px-1.5 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed">↷</button>
+          </div>
+        </div>
+        <ol className="max-h-40 overflow-y-auto space-y-0.5" aria-label="편집 기록">
+          {[{ id: 0, label: '처음 상태' }, ...history.past, ...history.future].map((entry, index) => (
+            <li key={entry.id}>
+              <button onClick={() => travelTo(index)}
+                className={`w-full text-left px-1 rounded truncate ${index === history.past.length ? 'bg-yellow-500 text-gray-900' : index > history.past.length ? 'text-gray-500 hover:bg-gray-700' : 'hover:bg-gray-700'}`}
+                aria-current={index === history.past.length ? 'step' : undefined}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
       
       <div 
         ref={mountRef} 
         className="flex-grow w-full cursor-crosshair min-h-0" 
         onMouseMove={handleMouseMove}
         onMouseDown={handleMouseClick} 
+        onMouseUp={handleMouseUp}
         onContextMenu={(e) => e.preventDefault()} 
-        onMouseLeave={() => ghostBlockMeshRef.current && (ghostBlockMeshRef.current.visible = false)}
+        onMouseLeave={() => { setSelectionBox(null); clearGhostCopies(); if (ghostBlockMeshRef.current) ghostBlockMeshRef.current.visible = false; }}
       />
+
+      {selectionBox && (
+        <div
+          className="absolute border border-cyan-400 bg-cyan-400/10 pointer-events-none z-10"
+          style={{
+            left: Math.min(selectionBox.start.x, selectionBox.end.x),
+            top: Math.min(selectionBox.start.y, selectionBox.end.y),
+            width: Math.abs(selectionBox.end.x - selectionBox.start.x),
+            height: Math.abs(selectionBox.end.y - selectionBox.start.y),
+          }}
+        />
+      )}
+
+      {selectedBlocks.length > 0 && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex flex-wrap items-center justify-center gap-1 p-2 bg-black/70 rounded-md text-gray-200 text-xs shadow-lg z-10" role="toolbar" aria-label="선택한 블록 편집">
+          <span className="font-semibold text-cyan-300 mr-1">선택 {selectedBlocks.length}개</span>
+          <button onClick={duplicateSelection} title="선택한 블록 복제 (Ctrl+D)" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">복제</button>
+          <button onClick={deleteSelection} title="선택한 블록 삭제 (Delete)" className="px-2 py-0.5 rounded bg-red-700 hover:bg-red-600">삭제</button>
+          <button onClick={recolorSelection} title="선택한 블록에 현재 색상 적용 (특수 블록과 황금 블록 제외)" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm border border-gray-500" style={{ backgroundColor: `#${selectedColorValue.toString(16).padStart(6, '0')}` }} />
+            색상 적용
+          </button>
+          <button onClick={reshapeSelection} title="선택한 블록에 현재 모양 적용" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+            모양 적용 ({editorShapes.find(shape => shape.type === selectedShape)?.label})
+          </button>
+          {hasPlacementTools(symmetry, arrayPlacement) && (
+            <button onClick={applyPlacementToolsToSelection} title="선택한 블록에 현재 대칭/배열 설정으로 복사본 추가" className="px-2 py-0.5 rounded bg-purple-700 hover:bg-purple-600">대칭/배열 적용</button>
+          )}
+          <button onClick={copySelectionToClipboard} title="선택한 블록을 클립보드에 복사 (Ctrl+C)" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">복사</button>
+          <button onClick={pasteFromClipboard} title="클립보드의 블록 붙여넣기 (Ctrl+V)" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">붙여넣기</button>
+          <button onClick={clearSelection} title="선택 해제 (Esc)" className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600" aria-label="선택 해제">&times;</button>
+        </div>
+      )}
       
       <div 
         aria-live="polite"
-        className={`absolute bottom-52 left-1/2 px-4 py-2 w-auto min-w-[200px] max-w-[90%] text-center rounded-md shadow-lg text-sm font-medium z-20 transition-all duration-300 ease-in-out pointer-events-none ${
+        className={`absolute bottom-52 left-1/2 px-4 py-2 w-auto min-w-[200px] max-w-[90%] text-center rounded-md shadow-lg text-sm font-medium whitespace-pre-line z-20 transition-all duration-300 ease-in-out pointer-events-none ${
           editorMessage ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-full'
         } ${
           messageType === 'error' ? 'bg-red-600 text-white' : 
-          messageType === 'success' ? 'bg-green-600 text-white' : 'bg-blue-600 text-white'
+          messageType === 'success' ? 'bg-green-600 text-white' :
+          messageType === 'warning' ? 'bg-yellow-600 text-white' : 'bg-blue-600 text-white'
         }`}
         style={{ transform: editorMessage ? 'translate(-50%, 0)' : 'translate(-50%, 100%)' }}
       >
@@ -711,12 +1345,22 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
           <div className="flex flex-col xs:flex-row items-center gap-2">
             <div className="flex items-center space-x-1">
               <label htmlFor="levelNameInput" className="text-gray-300 text-xs font-medium whitespace-nowrap">이름:</label>
-              <input id="levelNameInput" type="text" value={levelName} onChange={(e) => { setLevelName(e.target.value); setEditorMessage(null); }} placeholder="레벨 이름" className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-28 xs:w-32 sm:w-40 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"/>
+              <input id="levelNameInput" type="text" value={levelName} onChange={(e) => { executeEdit('이름 변경', { levelName: e.target.value }, 'levelName'); setEditorMessage(null); }} placeholder="레벨 이름" className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-28 xs:w-32 sm:w-40 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"/>
             </div>
             <div className="flex items-center space-x-1">
               <label htmlFor="projectilesInput" className="text-gray-300 text-xs font-medium whitespace-nowrap">발사체:</label>
-              <input id="projectilesInput" type="number" value={initialProjectiles} onChange={(e) => { setInitialProjectiles(Math.max(1, parseInt(e.target.value, 10) || 1)); setEditorMessage(null); }} className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-16 xs:w-20 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" min="1"/>
+              <input id="projectilesInput" type="number" value={initialProjectiles} onChange={(e) => { executeEdit('발사체 수 변경', { initialProjectiles: Math.max(1, parseInt(e.target.value, 10) || 1) }, 'initialProjectiles'); setEditorMessage(null); }} className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-16 xs:w-20 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" min="1"/>
+            </div>
+            <div className="flex items-center space-x-1" title="3별 목표 (비워두면 레벨 크기에 맞춘 기본값 사용)">
+              <label htmlFor="parShotsInput" className="text-gray-300 text-xs font-medium whitespace-nowrap">파 발사:</label>
+              <input id="parShotsInput" type="number" value={par.shots ?? ''} onChange={(e) => handleParChange('shots', e.target.value)} placeholder="기본" className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" min="1"/>
+              <label htmlFor="parToppledInput" className="text-gray-300 text-xs font-medium whitespace-nowrap">블록:</label>
+              <input id="parToppledInput" type="number" value={par.blocksToppled ?? ''} onChange={(e) => handleParChange('blocksToppled', e.target.value)} placeholder="기본" className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" min="0"/>
             </div>
+            <label className="flex items-center space-x-1 cursor-pointer select-none" title="하드 모드: 조준할 때 예상 궤적을 보여주지 않습니다">
+              <input type="checkbox" checked={hideTrajectory} onChange={(e) => { executeEdit('하드 모드 변경', { hideTrajectory: e.target.checked }); setEditorMessage(null); }} className="accent-yellow-400"/>
+              <span className="text-gray-300 text-xs font-medium whitespace-nowrap">하드 모드</span>
+            </label>
           </div>
           <div className="flex items-center space-x-1.5 sm:space-x-1">
             <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">색상:</span>
@@ -727,6 +1371,46 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
               />
             ))}
           </div>
+          <div className="flex items-center space-x-1.5 sm:space-x-1" role="group" aria-label="블록 재질 선택">
+            <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">재질:</span>
+            {BLOCK_MATERIALS_CONFIG.map(material => (
+              <button key={material.id} title={material.description} onClick={() => { setSelectedMaterial(material.id); setEditorMessage(null); }}
+                className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${selectedMaterial === material.id ? 'bg-yellow-500 text-gray-900 border-yellow-400 scale-105 ring-2 ring-yellow-300 ring-offset-1 ring-offset-gray-900' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                aria-label={`Select ${material.id} material`} aria-pressed={selectedMaterial === material.id}
+              >
+                {material.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-1.5 sm:space-x-1" role="group" aria-label="특수 블록 선택">
+            <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">특수:</span>
+            {[{ id: null, name: '없음', description: '일반 블록' }, ...SPECIAL_BLOCKS_CONFIG].map(special => (
+              <button key={special.id ?? 'none'} title={special.description} onClick={() => { setSelectedSpecial(special.id); setEditorMessage(null); }}
+                className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${selectedSpecial === special.id ? 'bg-yellow-500 text-gray-900 border-yellow-400 scale-105 ring-2 ring-yellow-300 ring-offset-1 ring-offset-gray-900' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                aria-label={`Select ${special.id ?? 'plain'} block`} aria-pressed={selectedSpecial === special.id}
+              >
+                {special.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-1.5 sm:space-x-1" role="group" aria-label="블록 고정 방식 선택">
+            <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">고정:</span>
+            {[{ id: null, name: '없음', description: '자유롭게 움직이는 블록' }, ...BLOCK_ANCHORS_CONFIG].map(anchor => (
+              <button key={anchor.id ?? 'none'} title={anchor.description} onClick={() => { setSelectedAnchor(anchor.id); setEditorMessage(null); }}
+                className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${selectedAnchor === anchor.id ? 'bg-yellow-500 text-gray-900 border-yellow-400 scale-105 ring-2 ring-yellow-300 ring-offset-1 ring-offset-gray-900' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                aria-label={`Select ${anchor.id ?? 'free'} anchor`} aria-pressed={selectedAnchor === anchor.id}
+              >
+                {anchor.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-1.5">
+            <label htmlFor="healthInput" className="text-gray-300 text-xs font-medium whitespace-nowrap" title="0이면 재질 기본값을 사용합니다. 기본 체력이 없는 재질은 부서지지 않습니다.">체력:</label>
+            <input id="healthInput" type="number" value={selectedHealth} onChange={(e) => { setSelectedHealth(Math.max(0, parseInt(e.target.value, 10) || 0)); setEditorMessage(null); }} className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-16 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" min="0"/>
+            <span className="text-gray-400 text-xs whitespace-nowrap">
+              {selectedHealth === 0 && (materialDefaultHealth !== undefined ? `기본 ${materialDefaultHealth}` : '파괴 불가')}
+            </span>
+          </div>
         </div>
         
         <div className="flex flex-col md:flex-row items-center gap-3 w-full md:w-auto">
@@ -740,79 +1424,247 @@ const LevelEditor: React.FC<LevelEditorProps> = ({ onSave, onExit, initialLevelD
                     {shape.label}
                 </button>
                 ))}
+                <button title="Y축으로 90° 회전 (R)" onClick={rotateSelection}
+                    className="px-2 py-1 text-xs sm:text-sm rounded border-2 bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600 transition-all duration-150"
+                    aria-label="Rotate block 90 degrees"
+                >
+                    ↻ 회전 {selectedRotation.y}°
+                </button>
+                <button title="블록 세우기/눕히기 (F)" onClick={toggleUpright}
+                    className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${selectedRotation.z !== 0 ? 'bg-yellow-500 text-gray-900 border-yellow-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                    aria-label="Stand block upright" aria-pressed={selectedRotation.z !== 0}
+                >
+                    ⇕ 세우기
+                </button>
+            </div>
+            <div className="flex items-center gap-1.5 flex-wrap justify-center" role="group" aria-label="대칭 배치">
+                <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">대칭:</span>
+                <button title="원점의 X 좌표를 기준으로 좌우 대칭 복사" onClick={() => setSymmetry(prev => ({ ...prev, mirrorX: !prev.mirrorX }))}
+                    className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${symmetry.mirrorX ? 'bg-purple-600 text-white border-purple-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`} aria-pressed={symmetry.mirrorX}
+                >
+                    X 대칭
+                </button>
+                <button title="원점의 Z 좌표를 기준으로 앞뒤 대칭 복사" onClick={() => setSymmetry(prev => ({ ...prev, mirrorZ: !prev.mirrorZ }))}
+                    className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${symmetry.mirrorZ ? 'bg-purple-600 text-white border-purple-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`} aria-pressed={symmetry.mirrorZ}
+                >
+                    Z 대칭
+                </button>
+                <label htmlFor="radialCountSelect" className="text-gray-300 text-xs font-medium">회전:</label>
+                <select id="radialCountSelect" value={symmetry.radialCount} onChange={(e) => setSymmetry(prev => ({ ...prev, radialCount: parseInt(e.target.value, 10) }))} title="원점을 중심으로 Y축 회전 복사 개수" className="bg-gray-700 text-white text-sm rounded px-1 py-1 border border-gray-600">
+                    {RADIAL_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count === 1 ? '끔' : `${count}개`}</option>)}
+                </select>
+                <span className="text-gray-300 text-xs font-medium" title="O 키로 커서 위치를 원점으로 지정할 수 있습니다">원점:</span>
+                <input type="number" step="0.5" value={symmetry.origin.x} onChange={(e) => setSymmetry(prev => ({ ...prev, origin: { ...prev.origin, x: parseFloat(e.target.value) || 0 } }))} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="대칭 원점 X"/>
+                <input type="number" step="0.5" value={symmetry.origin.z} onChange={(e) => setSymmetry(prev => ({ ...prev, origin: { ...prev.origin, z: parseFloat(e.target.value) || 0 } }))} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="대칭 원점 Z"/>
+            </div>
+            <div className="flex items-center gap-1.5 flex-wrap justify-center" role="group" aria-label="배열 배치">
+                <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">배열:</span>
+                {([['off', '없음'], ['linear', '직선'], ['grid', '격자']] as [EditorArrayMode, string][]).map(([mode, label]) => (
+                <button key={mode} onClick={() => setArrayPlacement(prev => ({ ...prev, mode }))}
+                    className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${arrayPlacement.mode === mode ? 'bg-purple-600 text-white border-purple-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`} aria-pressed={arrayPlacement.mode === mode}
+                >
+                    {label}
+                </button>
+                ))}
+                {arrayPlacement.mode === 'linear' && (
+                <select value={arrayPlacement.axis} onChange={(e) => setArrayPlacement(prev => ({ ...prev, axis: e.target.value as EditorArray['axis'] }))} title="배열 방향" className="bg-gray-700 text-white text-sm rounded px-1 py-1 border border-gray-600" aria-label="배열 방향">
+                    <option value="x">X축</option>
+                    <option value="z">Z축</option>
+                </select>
+                )}
+                {arrayPlacement.mode !== 'off' && (<>
+                <label htmlFor="arrayCountInput" className="text-gray-300 text-xs font-medium">개수:</label>
+                <input id="arrayCountInput" type="number" min="1" max={MAX_ARRAY_COUNT} value={arrayPlacement.count} onChange={(e) => setArrayPlacement(prev => ({ ...prev, count: Math.min(MAX_ARRAY_COUNT, Math.max(1, parseInt(e.target.value, 10) || 1)) }))} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"/>
+                {arrayPlacement.mode === 'grid' && (<>
+                <label htmlFor="arrayRowsInput" className="text-gray-300 text-xs font-medium">줄:</label>
+                <input id="arrayRowsInput" type="number" min="1" max={MAX_ARRAY_COUNT} value={arrayPlacement.rows} onChange={(e) => setArrayPlacement(prev => ({ ...prev, rows: Math.min(MAX_ARRAY_COUNT, Math.max(1, parseInt(e.target.value, 10) || 1)) }))} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"/>
+                </>)}
+                <label htmlFor="arraySpacingInput" className="text-gray-300 text-xs font-medium">간격:</label>
+                <input id="arraySpacingInput" type="number" step="0.5" min="0.5" value={arrayPlacement.spacing} onChange={(e) => setArrayPlacement(prev => ({ ...prev, spacing: Math.max(0.5, parseFloat(e.target.value) || 0.5) }))} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"/>
+                </>)}
+            </div>
+            <div className="flex items-center gap-1.5 flex-wrap justify-center" role="group" aria-label="발사대">
+                <span className="text-gray-300 text-xs sm:text-sm font-medium hidden xs:inline">발사대:</span>
+                <label className="flex items-center space-x-1 cursor-pointer select-none" title="끄면 구조물 앞 기본 위치에 발사대가 놓입니다. L 키로 커서 위치에 놓을 수 있습니다">
+                  <input type="checkbox" checked={!!launcher} onChange={(e) => handleLauncherToggle(e.target.checked)} className="accent-yellow-400"/>
+                  <span className="text-gray-300 text-xs font-medium whitespace-nowrap">직접 지정</span>
+                </label>
+                {launcher && (<>
+                <span className="text-gray-300 text-xs font-medium">위치:</span>
+                {(['x', 'y', 'z'] as const).map(axis => (
+                <input key={axis} type="number" step="0.5" value={launcher.position[axis]} onChange={(e) => handleLauncherPositionChange(axis, e.target.value)} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label={`발사대 ${axis.toUpperCase()}`}/>
+                ))}
+                <span className="text-gray-300 text-xs font-medium" title="좌우 회전 범위 (도)">좌우:</span>
+                <input type="number" step="5" value={launcher.yaw.min} onChange={(e) => handleLauncherRangeChange('yaw', 'min', e.target.value)} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="좌우 최소 각도"/>
+                <input type="number" step="5" value={launcher.yaw.max} onChange={(e) => handleLauncherRangeChange('yaw', 'max', e.target.value)} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="좌우 최대 각도"/>
+                <span className="text-gray-300 text-xs font-medium" title="상하 각도 범위 (도, -90~90)">상하:</span>
+                <input type="number" step="5" value={launcher.pitch.min} onChange={(e) => handleLauncherRangeChange('pitch', 'min', e.target.value)} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="상하 최소 각도"/>
+                <input type="number" step="5" value={launcher.pitch.max} onChange={(e) => handleLauncherRangeChange('pitch', 'max', e.target.value)} className="bg-gray-700 text-white text-sm rounded px-1 py-1 w-14 focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600" aria-label="상하 최대 각도"/>
+                </>)}
             </div>
             <div className="flex items-center flex-wrap justify-center gap-1.5 sm:gap-2">
               <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" style={{ display: 'none' }} />
               <button onClick={handleImportClick} title="JSON 파일에서 레벨 가져오기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500 transition-colors">가져오기</button>
-              <button onClick={handleExportLevel} title="현재 레벨을 JSON 파일로 내보내기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-teal-500 transition-colors">내보내기</button>
-              <button onClick={handleSaveLevel} title="현재 레벨을 앱에 저장하여 플레이 가능하게 만들기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 transition-colors">저장 (앱에)</button>
+              {stabilityProgress !== null && (
+                <span className="text-gray-300 text-xs sm:text-sm" role="status">안정성 검사 중... {Math.round(stabilityProgress * 100)}%</span>
+              )}
+              <button onClick={() => handleExportLevel()} disabled={stabilityProgress !== null} title="현재 레벨을 JSON 파일로 내보내기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-teal-600 hover:bg-teal-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-teal-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">내보내기</button>
+              <button onClick={handleTestPlay} title="저장하지 않고 현재 구조물을 바로 플레이해 보기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-gray-900 bg-yellow-500 hover:bg-yellow-400 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-yellow-400 transition-colors">테스트 플레이</button>
+              <button onClick={() => handleSaveLevel()} disabled={stabilityProgress !== null} title="현재 레벨을 앱에 저장하여 플레이 가능하게 만들기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-green-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">저장 (앱에)</button>
+              {collapseOverride?.structureHash === structureHash && (
+                <button onClick={() => collapseOverride.action === 'save' ? handleSaveLevel(true) : handleExportLevel(true)} disabled={stabilityProgress !== null} title="스스로 무너지는 블록이 있어도 그대로 저장하기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-red-700 hover:bg-red-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-red-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed">그래도 {collapseOverride.action === 'save' ? '저장' : '내보내기'}</button>
+              )}
               <button onClick={onExit} title="레벨 에디터 닫기" className="px-3 py-1.5 sm:px-3 sm:py-1.5 text-xs sm:text-sm font-medium text-white bg-gray-600 hover:bg-gray-500 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-gray-400 transition-colors">닫기</button>
             </div>
         </div>
 
-        <div className="flex flex-col sm:flex-row items-center gap-2 w-full max-w-xl">
-            <label htmlFor="apiKeyInput" className="text-gray-300 text-xs sm:text-sm font-medium whitespace-nowrap">Gemini API 키:</label>
-            <input
-                id="apiKeyInput"
-                type="password"
-                value={apiKeyInput}
-                onChange={(e) => setApiKeyInput(e.target.value)}
-                placeholder="AI 생성에 필요한 API 키를 입력하세요"
-                className="bg-gray-700 text-white text-sm rounded px-2 py-1.5 flex-grow focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"
-                aria-describedby="apiKeyMessage"
-            />
-            <button 
-                onClick={handleSaveApiKey}
-                className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-sky-500 transition-colors"
-            >
-                키 저장
-            </button>
-            {apiKeyMessage && (
-                <span id="apiKeyMessage" className={`ml-2 text-xs ${apiKeyMessage.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
-                    {apiKeyMessage.text}
-                </span>
-            )}
+        <div className="flex items-center gap-1.5 w-full max-w-xl" role="group" aria-label="레벨 생성기 선택">
+            <span className="text-gray-300 text-xs sm:text-sm font-medium">생성기:</span>
+            {([['ai', 'AI (Gemini)'], ['procedural', '절차적 생성']] as const).map(([mode, label]) => (
+              <button key={mode} onClick={() => setGeneratorMode(mode)} disabled={isAiGenerating}
+                className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${generatorMode === mode ? 'bg-purple-600 text-white border-purple-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                aria-pressed={generatorMode === mode}
+              >
+                {label}
+              </button>
+            ))}
         </div>
+
+        {generatorMode === 'ai' ? (
+          <>
+          <div className="flex flex-col sm:flex-row items-center gap-2 w-full max-w-xl">
+              <label htmlFor="apiKeyInput" className="text-gray-300 text-xs sm:text-sm font-medium whitespace-nowrap">Gemini API 키:</label>
+              <input
+                  id="apiKeyInput"
+                  type="password"
+                  value={apiKeyInput}
+                  onChange={(e) => setApiKeyInput(e.target.value)}
+                  placeholder="AI 생성에 필요한 API 키를 입력하세요"
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1.5 flex-grow focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"
+                  aria-describedby="apiKeyMessage"
+              />
+              <button 
+                  onClick={handleSaveApiKey}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-sky-500 transition-colors"
+              >
+                  키 저장
+              </button>
+              {apiKeyMessage && (
+                  <span id="apiKeyMessage" className={`ml-2 text-xs ${apiKeyMessage.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>
+                      {apiKeyMessage.text}
+                  </span>
+              )}
+          </div>
         
-        <div className="flex items-center gap-2 mt-1 sm:mt-0 w-full max-w-xl justify-start">
-          <span className="text-gray-300 text-xs sm:text-sm font-medium">Gemini API 상태:</span>
-          <span className={`flex items-center text-xs font-semibold ${geminiApiStatus.isActive ? 'text-green-400' : 'text-red-400'}`}>
-            <span className={`w-2.5 h-2.5 rounded-full mr-1.5 ${geminiApiStatus.isActive ? 'bg-green-500' : 'bg-red-500'}`}></span>
-            {geminiApiStatus.isActive ? '활성' : '비활성'}
-          </span>
-          {!geminiApiStatus.isActive && geminiApiStatus.message && (
-            <div className="relative group">
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 text-gray-400 hover:text-yellow-400 cursor-help">
-                <path fillRule="evenodd" d="M18 10a8 8 0 1 1-16 0 8 8 0 0 1 16 0Zm-7-4a1 1 0 1 1-2 0 1 1 0 0 1 2 0ZM9 9a1 1 0 0 0 0 2v3a1 1 0 0 0 1 1h1a1 1 0 1 0 0-2v-3a1 1 0 0 0-1-1H9Z" clipRule="evenodd" />
-              </svg>
-              <span className="absolute bottom-full left-1/2 z-20 mb-2 w-max max-w-xs -translate-x-1/2 transform rounded-md bg-gray-700 px-2 py-1 text-xs text-white opacity-0 transition-opacity group-hover:opacity-100 shadow-lg whitespace-pre-wrap text-left"
-               style={{ pointerEvents: 'none' }} >
-                {geminiApiStatus.message}
-              </span>
-            </div>
-          )}
-        </div>
+          <div className="flex items-center gap-2 mt-1 sm:mt-0 w-full max-w-xl justify-start">
+            <span className="text-gray-300 text-xs sm:text-sm font-medium">Gemini API 상태:</span>
+            <span className={`flex items-center text-xs font-semibold ${geminiApiStatus.isActive ? 'text-green-400' : 'text-red-400'}`}>
+              <span className={`w-2.5 h-2.5 rounded-full mr-1.5 ${geminiApiStatus.isActive ? 'bg-green-500' : 'bg-red-500'}`}></span>
+              {geminiApiStatus.isActive ? '활성' : '비활성'}
+            </span>
+            {!geminiApiStatus.isActive && geminiApiStatus.message && (
+              <div className="relative group">
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4 text-gray-400 hover:text-yellow-400 cursor-help">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 1 1-16 0 8 8 0 0 1 16 0Zm-7-4a1 1 0 1 1-2 0 1 1 0 0 1 2 0ZM9 9a1 1 0 0 0 0 2v3a1 1 0 0 0 1 1h1a1 1 0 1 0 0-2v-3a1 1 0 0 0-1-1H9Z" clipRule="evenodd" />
+                </svg>
+                <span className="absolute bottom-full left-1/2 z-20 mb-2 w-max max-w-xs -translate-x-1/2 transform rounded-md bg-gray-700 px-2 py-1 text-xs text-white opacity-0 transition-opacity group-hover:opacity-100 shadow-lg whitespace-pre-wrap text-left"
+                 style={{ pointerEvents: 'none' }} >
+                  {geminiApiStatus.message}
+                </span>
+              </div>
+            )}
+          </div>
 
-        <div className="flex flex-col sm:flex-row items-center gap-2 w-full max-w-xl">
-            <textarea
-                value={aiPrompt}
-                onChange={(e) => setAiPrompt(e.target.value)}
-                placeholder="AI 생성 프롬프트 (예: '높은 탑과 작은 블록들')"
-                className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-full sm:flex-grow h-auto resize-none focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"
-                rows={1}
-                disabled={isAiGenerating || !geminiApiStatus.isActive}
-                aria-label="AI 생성 프롬프트 입력"
-                title={!geminiApiStatus.isActive ? "AI 레벨 생성을 위해 Gemini API를 활성화하세요." : ""}
-            />
-            <button 
-                onClick={handleAiGenerateLevel}
-                disabled={isAiGenerating || !geminiApiStatus.isActive}
-                className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed w-full sm:w-auto mt-1 sm:mt-0"
-                title={!geminiApiStatus.isActive ? "AI 레벨 생성을 위해 Gemini API를 활성화하세요." : ""}
-            >
-                {isAiGenerating ? 'AI 생성 중...' : 'AI 레벨 생성'}
-            </button>
-        </div>
+          <div className="flex flex-col sm:flex-row items-center gap-2 w-full max-w-xl">
+              <textarea
+                  value={aiPrompt}
+                  onChange={(e) => setAiPrompt(e.target.value)}
+                  placeholder="AI 생성 프롬프트 (예: '높은 탑과 작은 블록들')"
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-full sm:flex-grow h-auto resize-none focus:ring-yellow-400 focus:border-yellow-400 border border-gray-600"
+                  rows={1}
+                  disabled={isAiGenerating || !geminiApiStatus.isActive}
+                  aria-label="AI 생성 프롬프트 입력"
+                  title={!geminiApiStatus.isActive ? "AI 레벨 생성을 위해 Gemini API를 활성화하세요." : ""}
+              />
+              <button 
+                  onClick={handleAiGenerateLevel}
+                  disabled={isAiGenerating || !geminiApiStatus.isActive}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed w-full sm:w-auto mt-1 sm:mt-0"
+                  title={!geminiApiStatus.isActive ? "AI 레벨 생성을 위해 Gemini API를 활성화하세요." : ""}
+              >
+                  {isAiGenerating ? 'AI 생성 중...' : 'AI 레벨 생성'}
+              </button>
+          </div>
+          {aiAttempts.length > 0 && (
+            <ul className="w-full max-w-xl max-h-20 overflow-y-auto text-xs bg-gray-800/70 rounded px-2 py-1 space-y-0.5" aria-label="AI 생성 시도 기록">
+              {aiAttempts.map(attempt => (
+                <li key={attempt.attempt} className={attempt.succeeded ? 'text-green-400' : 'text-red-400'}>
+                  <span className="font-semibold">시도 {attempt.attempt}: {attempt.succeeded ? '성공' : '실패'}</span>
+                  {attempt.error && <span className="text-gray-300"> - {attempt.error}</span>}
+                  {attempt.repairs.length > 0 && (
+                    <span className="block text-yellow-300 pl-3">자동 수정: {attempt.repairs.join(' ')}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          </>
+        ) : (
+          <div className="flex flex-col gap-2 w-full max-w-xl">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="text-gray-300 text-xs sm:text-sm font-medium flex items-center gap-1">
+                스타일:
+                <select value={proceduralOptions.style} onChange={(e) => updateProceduralOptions({ style: e.target.value as ProceduralStyle })}
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600 focus:ring-yellow-400 focus:border-yellow-400">
+                  {(Object.keys(PROCEDURAL_STYLE_LABELS) as ProceduralStyle[]).map(style => (
+                    <option key={style} value={style}>{PROCEDURAL_STYLE_LABELS[style]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-300 text-xs sm:text-sm font-medium flex items-center gap-1">
+                난이도:
+                <select value={proceduralOptions.difficulty} onChange={(e) => updateProceduralOptions({ difficulty: e.target.value as ProceduralDifficulty })}
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1 border border-gray-600 focus:ring-yellow-400 focus:border-yellow-400">
+                  {(Object.keys(PROCEDURAL_DIFFICULTY_LABELS) as ProceduralDifficulty[]).map(difficulty => (
+                    <option key={difficulty} value={difficulty}>{PROCEDURAL_DIFFICULTY_LABELS[difficulty]}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-300 text-xs sm:text-sm font-medium flex items-center gap-1">
+                블록 수:
+                <input type="number" value={proceduralOptions.blockBudget} min={MIN_PROCEDURAL_BLOCKS} max={MAX_PROCEDURAL_BLOCKS}
+                  onChange={(e) => updateProceduralOptions({ blockBudget: Math.max(MIN_PROCEDURAL_BLOCKS, Math.min(MAX_PROCEDURAL_BLOCKS, parseInt(e.target.value, 10) || MIN_PROCEDURAL_BLOCKS)) })}
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-16 border border-gray-600 focus:ring-yellow-400 focus:border-yellow-400" />
+              </label>
+              <label className="text-gray-300 text-xs sm:text-sm font-medium flex items-center gap-1">
+                시드:
+                <input type="number" value={proceduralOptions.seed} min={0}
+                  onChange={(e) => updateProceduralOptions({ seed: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  className="bg-gray-700 text-white text-sm rounded px-2 py-1 w-24 border border-gray-600 focus:ring-yellow-400 focus:border-yellow-400" />
+                <button onClick={() => updateProceduralOptions({ seed: randomSeed() })} title="무작위 시드" aria-label="무작위 시드"
+                  className="px-2 py-1 text-sm rounded bg-gray-700 border border-gray-600 hover:bg-gray-600">🎲</button>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-gray-300 text-xs sm:text-sm font-medium">사용할 모양:</span>
+              {editorShapes.map(shape => (
+                <button key={shape.type} onClick={() => toggleProceduralShape(shape.type)}
+                  className={`px-2 py-1 text-xs sm:text-sm rounded border-2 transition-all duration-150 ${proceduralOptions.shapeMix[shape.type] ? 'bg-yellow-500 text-gray-900 border-yellow-400' : 'bg-gray-700 text-white border-gray-600 hover:border-gray-400 hover:bg-gray-600'}`}
+                  aria-pressed={!!proceduralOptions.shapeMix[shape.type]}
+                >
+                  {shape.label}
+                </button>
+              ))}
+              <button 
+                  onClick={handleProceduralGenerateLevel}
+                  disabled={stabilityProgress !== null}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-purple-500 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed ml-auto"
+              >
+                  절차적 레벨 생성
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
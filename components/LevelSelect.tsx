@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { CampaignPack, LevelConfiguration, PlayerProfile } from '../types';
+import { MAX_STARS } from '../constants';
+import { formatStars } from '../lib/starRating';
+import { getLevelProgress } from '../lib/playerProfile';
+import { resolveCampaign, CUSTOM_CHAPTER_ID } from '../lib/campaign';
+import LevelThumbnail from './LevelThumbnail';
+
+interface LevelSelectProps {
+  isOpen: boolean;
+  onClose: () => void;
+  levels: LevelConfiguration[]; // Every playable level, in play order
+  campaignPacks: CampaignPack[];
+  currentLevelIndex: number;
+  profile: PlayerProfile;
+  onSelectLevel: (levelIndex: number) => void;
+  onExportProfile: () => void;
+  onImportProfile: (file: File) => void;
+  onResetProfile: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalSeconds = ms / 1000;
+  if (totalSeconds < 60) return `${totalSeconds.toFixed(1)}초`;
+  return `${Math.floor(totalSeconds / 60)}분 ${Math.floor(totalSeconds % 60)}초`;
+};
+
+const LevelSelect: React.FC<LevelSelectProps> = ({
+  isOpen,
+  onClose,
+  levels,
+  campaignPacks,
+  currentLevelIndex,
+  profile,
+  onSelectLevel,
+  onExportProfile,
+  onImportProfile,
+  onResetProfile,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedPackId, setSelectedPackId] = useState(campaignPacks[0]?.id);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImportProfile(file);
+      event.target.value = '';
+    }
+  };
+
+  const clearedCount = levels.filter(level => getLevelProgress(profile, level.levelId).completions > 0).length;
+  const totalStars = levels.reduce((sum, level) => sum + getLevelProgress(profile, level.levelId).bestStars, 0);
+  const selectedPack = campaignPacks.find(pack => pack.id === selectedPackId) ?? campaignPacks[0];
+  const chapters = resolveCampaign(selectedPack ?? { id: '', name: '', chapters: [] }, levels, profile);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50 backdrop-blur-sm">
+      <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl sm:text-3xl font-bold text-yellow-400 orbitron-font">레벨 선택</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+            aria-label="레벨 선택 닫기"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 mb-4">
+          <p className="flex-grow text-sm text-gray-300">
+            클리어 {clearedCount}/{levels.length} · 별 <span className="text-yellow-300">{totalStars}</span>개
+          </p>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-md shadow-sm text-xs sm:text-sm transition-colors"
+            title="JSON 파일에서 플레이어 프로필 가져오기"
+          >
+            프로필 가져오기
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" style={{ display: 'none' }} />
+          <button
+            onClick={onExportProfile}
+            className="px-3 py-1.5 bg-teal-600 hover:bg-teal-700 text-white font-semibold rounded-md shadow-sm text-xs sm:text-sm transition-colors"
+            title="플레이어 프로필을 JSON 파일로 내보내기"
+          >
+            프로필 내보내기
+          </button>
+          <button
+            onClick={onResetProfile}
+            className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-md shadow-sm text-xs sm:text-sm transition-colors"
+            title="모든 진행 기록 지우기"
+          >
+            초기화
+          </button>
+        </div>
+
+        {campaignPacks.length > 1 && (
+          <div className="flex gap-1 mb-3" role="tablist" aria-label="캠페인">
+            {campaignPacks.map(pack => (
+              <button
+                key={pack.id}
+                onClick={() => setSelectedPackId(pack.id)}
+                className={`px-3 py-1 text-xs sm:text-sm rounded border transition-colors ${pack.id === selectedPack?.id ? 'bg-yellow-500 text-gray-900 border-yellow-400' : 'bg-gray-700 text-white border-gray-600 hover:bg-gray-600'}`}
+                role="tab"
+                aria-selected={pack.id === selectedPack?.id}
+              >
+                {pack.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-grow overflow-y-auto bg-gray-900/50 p-3 rounded-md border border-gray-700 space-y-4">
+          {chapters.filter(({ levels: chapterLevels }) => chapterLevels.length > 0).map(({ chapter, levels: chapterLevels, isUnlocked: isChapterUnlocked, lockReason, clearedCount: chapterClearedCount, stars }) => (
+            <section key={chapter.id} aria-label={chapter.name}>
+              <div className="flex items-baseline justify-between gap-2 mb-2">
+                <h3 className={`font-semibold text-sm sm:text-base ${isChapterUnlocked ? 'text-yellow-300' : 'text-gray-500'}`}>
+                  {isChapterUnlocked ? '' : '🔒 '}{chapter.name}
+                </h3>
+                <span className="text-xs text-gray-400 flex-shrink-0">
+                  클리어 {chapterClearedCount}/{chapterLevels.length} · ★ {stars}/{chapterLevels.length * MAX_STARS}
+                </span>
+              </div>
+              {(lockReason || chapter.description) && (
+                <p className="text-xs text-gray-400 mb-2">{lockReason ?? chapter.description}</p>
+              )}
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {chapterLevels.map(({ level, index, isUnlocked }) => {
+                  const progress = getLevelProgress(profile, level.levelId);
+                  const isCurrent = index === currentLevelIndex;
+                  return (
+                    <li key={`${index}_${level.levelId}`}>
+                      <button
+                        onClick={() => onSelectLevel(index)}
+                        disabled={!isUnlocked}
+                        className={`w-full flex items-stretch gap-3 text-left p-2 rounded-md border transition-colors ${isCurrent ? 'border-yellow-400' : 'border-gray-600'} ${isUnlocked ? 'bg-gray-700 hover:bg-gray-600/70' : 'bg-gray-800 opacity-60 cursor-not-allowed'}`}
+                        aria-label={isUnlocked ? `레벨 ${index + 1} "${level.name}" 플레이` : `레벨 ${index + 1} 잠김`}
+                      >
+                        <LevelThumbnail level={level} className={`w-20 h-14 flex-shrink-0 rounded ${isUnlocked ? '' : 'grayscale'}`} />
+                        <div className="min-w-0 flex-grow">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-white text-sm truncate">
+                              {isUnlocked ? '' : '🔒 '}{level.name}
+                              {chapter.id === CUSTOM_CHAPTER_ID && <span className="ml-1 text-xs text-gray-400">(커스텀)</span>}
+                            </span>
+                            <span className="text-yellow-300 text-sm flex-shrink-0">{formatStars(progress.bestStars)}</span>
+                          </div>
+                          <p className="mt-1 text-xs text-gray-400">
+                            {isUnlocked
+                              ? `최고 ${progress.bestScore}점 · 시도 ${progress.attempts}회 · 최단 ${progress.bestTimeMs !== undefined ? formatDuration(progress.bestTimeMs) : '-'}`
+                              : isChapterUnlocked ? '이전 레벨을 클리어하면 열립니다.' : '챕터가 잠겨 있습니다.'}
+                          </p>
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelSelect;
@@ -0,0 +1,28 @@
+import React, { useEffect, useState } from 'react';
+import { LevelConfiguration } from '../types';
+import { getCachedLevelThumbnail, loadLevelThumbnail } from '../lib/levelThumbnail';
+
+interface LevelThumbnailProps {
+  level: LevelConfiguration;
+  className?: string;
+}
+
+// Rendered preview of a level as the player first sees it; a blank tile until the image is ready
+const LevelThumbnail: React.FC<LevelThumbnailProps> = ({ level, className }) => {
+  const [thumbnail, setThumbnail] = useState<string | null>(() => getCachedLevelThumbnail(level) ?? null);
+
+  useEffect(() => {
+    let isCancelled = false;
+    loadLevelThumbnail(level).then(url => {
+      if (!isCancelled) setThumbnail(url);
+    });
+    return () => { isCancelled = true; };
+  }, [level]);
+
+  if (!thumbnail) {
+    return <div className={`bg-gray-900 ${className ?? ''}`} aria-hidden="true" />;
+  }
+  return <img src={thumbnail} alt="" className={`object-cover bg-gray-900 ${className ?? ''}`} aria-hidden="true" />;
+};
+
+export default LevelThumbnail;
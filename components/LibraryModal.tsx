@@ -1,6 +1,8 @@
 
 import React, { useRef, useState } from 'react';
 import { LevelConfiguration } from '../types';
+import { formatStars } from '../lib/starRating';
+import LevelThumbnail from './LevelThumbnail';
 
 interface LibraryModalProps {
   isOpen: boolean;
@@ -11,6 +13,7 @@ interface LibraryModalProps {
   onDeleteLevel: (levelId: string | number) => void;
   onLoadLevel: (level: LevelConfiguration) => void;
   onPlayLevel: (level: LevelConfiguration) => void; // New prop to play level directly
+  bestStars: Record<string, number>; // Best star rating per level, keyed by String(levelId)
 }
 
 const LibraryModal: React.FC<LibraryModalProps> = ({
@@ -22,6 +25,7 @@ const LibraryModal: React.FC<LibraryModalProps> = ({
   onDeleteLevel,
   onLoadLevel,
   onPlayLevel, 
+  bestStars,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -108,6 +112,7 @@ const LibraryModal: React.FC<LibraryModalProps> = ({
                   key={level.levelId}
                   className="flex justify-between items-center p-3 bg-gray-700 rounded-md hover:bg-gray-600/70 transition-colors"
                 >
+                  <LevelThumbnail level={level} className="w-16 h-10 flex-shrink-0 rounded mr-3" />
                   <button 
                     onClick={() => onLoadLevel(level)} 
                     className="text-left flex-grow focus:outline-none mr-2"
@@ -116,6 +121,7 @@ const LibraryModal: React.FC<LibraryModalProps> = ({
                   >
                     <span className="font-medium text-white text-sm sm:text-base hover:text-yellow-300 transition-colors">{level.name}</span>
                     <span className="ml-2 text-xs text-gray-400">({getLevelTypeLabel(level.levelId)})</span>
+                    <span className="ml-2 text-xs text-yellow-300" title="최고 별점">{formatStars(bestStars[String(level.levelId)] ?? 0)}</span>
                   </button>
                   <div className="flex-shrink-0 flex items-center space-x-2">
                     <button
@@ -10,6 +10,21 @@ interface ProjectileSelectorProps {
   disabled: boolean; // True if charging, for example
 }
 
+// The type `step` places along the selector (wrapping around) that still has projectiles; the current type if none
+export const getAdjacentProjectileType = (
+  projectileConfigs: ProjectileConfig[],
+  projectileCounts: Record<ProjectileType, number>,
+  selectedProjectileType: ProjectileType,
+  step: 1 | -1,
+): ProjectileType => {
+  const currentIndex = projectileConfigs.findIndex(config => config.id === selectedProjectileType);
+  for (let offset = 1; offset < projectileConfigs.length; offset++) {
+    const config = projectileConfigs[(currentIndex + step * offset + projectileConfigs.length) % projectileConfigs.length];
+    if ((projectileCounts[config.id] || 0) > 0) return config.id;
+  }
+  return selectedProjectileType;
+};
+
 const ProjectileSelector: React.FC<ProjectileSelectorProps> = ({
   projectileConfigs,
   projectileCounts,
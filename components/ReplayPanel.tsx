@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { ShotReplay, ReplayPlaybackState } from '../types';
+import { REPLAY_SPEEDS } from '../constants';
+import { getReplayDuration } from '../lib/replayStorage';
+
+interface ReplayPanelProps {
+  replays: ShotReplay[]; // Saved replays of the current level, newest first
+  activeReplay: ShotReplay | null;
+  playback: ReplayPlaybackState | null;
+  onPlay: (replay: ShotReplay) => void;
+  onStop: () => void;
+  onTogglePause: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExport: (replay: ShotReplay) => void;
+  onImport: (file: File) => void;
+  onDelete: (replay: ShotReplay) => void;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}초`;
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  replays,
+  activeReplay,
+  playback,
+  onPlay,
+  onStop,
+  onTogglePause,
+  onSeek,
+  onSpeedChange,
+  onExport,
+  onImport,
+  onDelete,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onImport(file);
+      event.target.value = '';
+    }
+  };
+
+  if (activeReplay) {
+    const time = playback?.time ?? 0;
+    const duration = playback?.duration ?? getReplayDuration(activeReplay);
+    return (
+      <div className="w-full max-w-4xl p-2 sm:p-3 bg-gray-700/50 backdrop-blur-sm rounded-lg shadow-xl mt-2 border border-yellow-500/60">
+        <div className="flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+          <span className="font-semibold text-yellow-300">리플레이</span>
+          <span className="text-gray-300 truncate">
+            {activeReplay.levelName} · {new Date(activeReplay.recordedAt).toLocaleString()} · 발사 {activeReplay.shots.length}회 · {activeReplay.score}점
+          </span>
+          <button
+            onClick={onStop}
+            className="ml-auto px-3 py-1 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-md shadow-sm transition-colors"
+            aria-label="리플레이 종료"
+          >
+            종료
+          </button>
+        </div>
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            onClick={onTogglePause}
+            className="w-10 px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md shadow-sm transition-colors"
+            aria-label={playback?.isPaused ? '재생' : '일시정지'}
+          >
+            {playback?.isPaused ? '▶' : '❚❚'}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.05}
+            value={time}
+            onChange={(e) => onSeek(parseFloat(e.target.value))}
+            className="flex-grow accent-yellow-400"
+            aria-label="리플레이 위치"
+          />
+          <span className="text-gray-300 text-xs whitespace-nowrap w-24 text-right">{formatSeconds(time)} / {formatSeconds(duration)}</span>
+        </div>
+        <div className="flex items-center gap-1 mt-2" role="group" aria-label="재생 속도">
+          <span className="text-gray-300 text-xs mr-1">속도:</span>
+          {REPLAY_SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={() => onSpeedChange(speed)}
+              className={`px-2 py-0.5 text-xs rounded border transition-colors ${playback?.speed === speed ? 'bg-yellow-500 text-gray-900 border-yellow-400' : 'bg-gray-700 text-white border-gray-600 hover:bg-gray-600'}`}
+              aria-pressed={playback?.speed === speed}
+            >
+              {speed}x
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl p-2 sm:p-3 bg-gray-700/50 backdrop-blur-sm rounded-lg shadow-xl mt-2 border border-gray-600">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="text-left text-sm font-semibold text-gray-200 hover:text-yellow-300 transition-colors flex-grow"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? '▾' : '▸'} 리플레이 ({replays.length})
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white text-xs font-semibold rounded-md shadow-sm transition-colors"
+          title="JSON 파일에서 리플레이 가져오기"
+        >
+          가져오기
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" style={{ display: 'none' }} />
+      </div>
+      {isExpanded && (
+        replays.length > 0 ? (
+          <ul className="mt-2 space-y-1">
+            {replays.map(replay => (
+              <li key={replay.id} className="flex items-center gap-2 p-2 bg-gray-800/60 rounded-md text-xs sm:text-sm">
+                <span className={replay.kingFallen ? 'text-yellow-300' : 'text-gray-400'} title={replay.kingFallen ? '클리어' : '실패'}>
+                  {replay.kingFallen ? '★' : '☆'}
+                </span>
+                <span className="text-gray-200 flex-grow truncate">
+                  {new Date(replay.recordedAt).toLocaleString()} · 발사 {replay.shots.length}회 · {replay.score}점
+                </span>
+                <button onClick={() => onPlay(replay)} className="px-2 py-0.5 bg-green-600 hover:bg-green-700 text-white rounded-md transition-colors">재생</button>
+                <button onClick={() => onExport(replay)} className="px-2 py-0.5 bg-teal-600 hover:bg-teal-700 text-white rounded-md transition-colors">내보내기</button>
+                <button onClick={() => onDelete(replay)} className="px-2 py-0.5 bg-red-600 hover:bg-red-700 text-white rounded-md transition-colors">삭제</button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="mt-2 text-xs text-gray-400">이 레벨의 리플레이가 없습니다. 레벨을 클리어하거나 발사체를 모두 쓰면 시도가 자동으로 저장됩니다.</p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -17,6 +17,10 @@ interface UIControlsProps {
   canAttemptCharge: boolean;
   isDelegateModeActive: boolean;
   onToggleDelegateMode: () => void;
+  showTrajectory: boolean;
+  isTrajectoryAllowed: boolean; // False on hard-mode levels
+  onToggleTrajectory: () => void;
+  onOpenInputSettings: () => void;
 }
 
 const UIControls: React.FC<UIControlsProps> = ({ 
@@ -31,7 +35,11 @@ const UIControls: React.FC<UIControlsProps> = ({
   currentPower,
   canAttemptCharge,
   isDelegateModeActive,
-  onToggleDelegateMode
+  onToggleDelegateMode,
+  showTrajectory,
+  isTrajectoryAllowed,
+  onToggleTrajectory,
+  onOpenInputSettings
 }) => {
 
   return (
@@ -72,6 +80,29 @@ const UIControls: React.FC<UIControlsProps> = ({
             </div>
             <div className="ml-2 text-gray-200 text-xs sm:text-sm font-medium">자동 발사</div>
           </label>
+          <label htmlFor="trajectoryToggle" className={`flex items-center select-none ${isTrajectoryAllowed ? 'cursor-pointer' : 'cursor-not-allowed opacity-50'}`} title={isTrajectoryAllowed ? "조준할 때 예상 궤적 표시" : "하드 모드 레벨에서는 궤적을 볼 수 없습니다"}>
+            <div className="relative">
+              <input 
+                type="checkbox" 
+                id="trajectoryToggle" 
+                className="sr-only" 
+                checked={showTrajectory && isTrajectoryAllowed} 
+                onChange={onToggleTrajectory} 
+                disabled={!isTrajectoryAllowed}
+                aria-roledescription="switch"
+              />
+              <div className={`block w-10 h-6 rounded-full transition-colors ${showTrajectory && isTrajectoryAllowed ? 'bg-yellow-500' : 'bg-gray-600'}`}></div>
+              <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform ${showTrajectory && isTrajectoryAllowed ? 'transform translate-x-full' : ''}`}></div>
+            </div>
+            <div className="ml-2 text-gray-200 text-xs sm:text-sm font-medium">궤적</div>
+          </label>
+          <button
+            onClick={onOpenInputSettings}
+            className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 focus:outline-none focus:ring-2 focus:ring-gray-400 text-xs sm:text-sm"
+            title="키보드와 게임패드 조작 바꾸기"
+          >
+            조작 설정
+          </button>
         </div>
       </div>
       <PowerGauge isCharging={isCharging && canAttemptCharge && !isDelegateModeActive} power={currentPower} />
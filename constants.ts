@@ -1,22 +1,246 @@
 
-import { ProjectileType, ProjectileConfig } from './types';
+import { ProjectileType, ProjectileConfig, BlockMaterial, BlockMaterialConfig, BlockAnchorConfig, SpecialBlockConfig, InputActionConfig, InputBindings } from './types';
 
 // Global physics constants
 export const PROJECTILE_RADIUS = 0.25;
 export const PROJECTILE_MASS = 10;
 export const PROJECTILE_VELOCITY_MULTIPLIER = 25;
+export const GRAVITY = -9.82;
+
+// Simulation stepping
+export const SIMULATION_TIME_STEP = 1 / 60; // Fixed physics step in seconds
+export const SIMULATION_MAX_SUB_STEPS = 3; // Max fixed steps per rendered frame
+export const DEFAULT_SIMULATION_SEED = 1; // Seeds cluster spread and explosion particles so every attempt plays out the same way
+
+// Shot replays
+export const MAX_REPLAYS_PER_LEVEL = 5; // Oldest replays are dropped first
+export const REPLAY_SETTLE_TIME = 5; // Seconds a replay keeps running after its last shot
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2];
+
+// Level thumbnails (lib/levelThumbnail.ts)
+export const LEVEL_THUMBNAIL_WIDTH = 160; // Pixels
+export const LEVEL_THUMBNAIL_HEIGHT = 100;
+export const MAX_CACHED_THUMBNAILS = 200; // Oldest thumbnails are dropped first
+
+// Stability analysis (structure settling with no projectiles)
+export const STABILITY_SETTLE_TIME = 3; // Seconds of simulated settling
+export const STABILITY_MOVE_THRESHOLD = 0.1; // World units a block may drift before it counts as moved
+export const STABILITY_ROTATION_THRESHOLD_DEG = 10; // Degrees a block may rotate before it counts as moved
+export const STABILITY_REST_SPEED = 0.02; // Linear/angular speed below which a block is considered at rest
+export const STABILITY_REST_TIME = 0.5; // Seconds every block must stay at rest to end the check early
+export const STABILITY_CHUNK_MS = 12; // Wall-clock budget per chunk of the editor's background check, so frames keep drawing
+
+// Level file format. Bump together with a migration in lib/levelSchema.ts whenever LevelConfiguration changes shape.
+export const LEVEL_FORMAT_VERSION = 9;
+export const PROFILE_FORMAT_VERSION = 1; // Player profile file format (lib/playerProfile.ts)
 
 export const BLOCK_SIZE = 1; // Exporting for use in editor
 export const BLOCK_MASS = 0.5; // Lighter blocks for easier toppling
 
+// Surface properties of the ground and projectiles. They match Cannon's default contact material,
+// so wood blocks (the default material) behave exactly as blocks did before materials existed.
+export const DEFAULT_FRICTION = 0.3;
+export const DEFAULT_RESTITUTION = 0;
+
+// --- Block Materials ---
+// Two surfaces in contact use the geometric mean of their frictions and the larger of their restitutions.
+export const DEFAULT_BLOCK_MATERIAL: BlockMaterial = 'wood';
+export const BLOCK_MATERIALS_CONFIG: BlockMaterialConfig[] = [
+  {
+    id: 'wood',
+    name: '나무',
+    description: '기본 재질. 가볍고 적당히 미끄럽습니다.',
+    mass: BLOCK_MASS, friction: DEFAULT_FRICTION, restitution: DEFAULT_RESTITUTION,
+    color: 0x8b5a2b, roughness: 0.8, metalness: 0.05, opacity: 1,
+  },
+  {
+    id: 'stone',
+    name: '돌',
+    description: '무겁고 마찰이 커서 잘 밀리지 않습니다.',
+    mass: 2.0, friction: 0.6, restitution: 0,
+    color: 0x7a7a7a, roughness: 0.95, metalness: 0.05, opacity: 1,
+  },
+  {
+    id: 'ice',
+    name: '얼음',
+    description: '거의 마찰이 없어 쉽게 미끄러지고, 세게 부딪히면 깨집니다.',
+    mass: 0.4, friction: 0.03, restitution: 0.05,
+    color: 0xb3e5fc, roughness: 0.1, metalness: 0.1, opacity: 0.8,
+    health: 12,
+  },
+  {
+    id: 'rubber',
+    name: '고무',
+    description: '잘 튕기고 미끄러지지 않습니다.',
+    mass: 0.6, friction: 0.9, restitution: 0.8,
+    color: 0x2f2f2f, roughness: 1, metalness: 0, opacity: 1,
+  },
+  {
+    id: 'glass',
+    name: '유리',
+    description: '아주 가볍고 매끄러운 취약한 재질입니다. 작은 충격에도 산산조각 납니다.',
+    mass: 0.25, friction: 0.2, restitution: 0.1,
+    color: 0x9fd8ef, roughness: 0.05, metalness: 0.2, opacity: 0.45,
+    health: 5,
+  },
+];
+
+// --- Block Damage ---
+// A hit deals damage equal to the speed change it forces on the block, minus a threshold so resting contacts and
+// gentle nudges are harmless. Blocks and materials without health never break.
+export const DAMAGE_SPEED_THRESHOLD = 3; // m/s
+export const EXPLOSION_DAMAGE_MULTIPLIER = 1; // Scales the speed change an explosion impulse causes
+export const DEBRIS_PIECES_PER_AXIS = 2; // A shattered block splits into 2x2x2 fragments
+export const DEBRIS_SPREAD_SPEED = 2; // Outward speed added to each fragment
+export const DEBRIS_LIFESPAN_MS = 4000;
+
+// --- Anchored Blocks ---
+export const STATIC_BLOCK_COLOR = 0x546e7a; // Static blocks without a color of their own look like rock
+export const BLOCK_ANCHORS_CONFIG: BlockAnchorConfig[] = [
+  {
+    id: 'static',
+    name: '고정',
+    description: '절대 움직이지 않는 지형 블록입니다. 공중에 띄워 절벽이나 발판을 만들 수 있습니다.',
+    outlineColor: 0xeceff1,
+  },
+  {
+    id: 'pinned',
+    name: '핀',
+    description: '중심이 제자리에 고정되어 있지만 그 주위로 회전할 수 있습니다.',
+    outlineColor: 0xff5252,
+  },
+];
+
+// --- Special Blocks ---
+// Explosions reuse the projectile explosion, so radius and strength are on the same scale as EXPLOSION_RADIUS/STRENGTH.
+export const SPECIAL_BLOCKS_CONFIG: SpecialBlockConfig[] = [
+  {
+    id: 'barrel',
+    name: '폭발 통',
+    description: '세게 부딪히거나 폭발에 휘말리면 곧바로 터집니다.',
+    color: 0xc0392b,
+    explosionRadius: 3, explosionStrength: 3, triggerSpeed: 4, fuseMs: 0,
+  },
+  {
+    id: 'tnt',
+    name: 'TNT',
+    description: '살짝만 건드려도 점화되어 잠시 후 크게 폭발합니다.',
+    color: 0xe53935,
+    explosionRadius: 4.5, explosionStrength: 5, triggerSpeed: 2, fuseMs: 400,
+  },
+];
+
+// AI / procedural level generation limits
+export const MAX_GENERATED_BLOCKS = 25; // Larger responses from the model tend to be truncated
+export const MIN_GENERATED_PROJECTILES = 3;
+export const MAX_GENERATED_PROJECTILES = 15;
+export const MAX_GENERATION_ATTEMPTS = 3; // Initial request plus follow-up turns carrying validation errors
+export const MIN_PROCEDURAL_BLOCKS = 3;
+export const MAX_PROCEDURAL_BLOCKS = 60; // Runs locally, so it is not bound by the model's response size
+export const DEFAULT_PROCEDURAL_BLOCKS = 20;
+export const PROCEDURAL_STABILITY_ATTEMPTS = 3; // Re-rolls of an unstable structure before falling back to cubes only
+
+// Level editor undo history (lib/editorHistory.ts)
+export const EDITOR_HISTORY_LIMIT = 100; // Oldest entries are dropped first
+export const EDITOR_HISTORY_MERGE_MS = 1000; // Repeated edits to the same field within this window (e.g. typing a name) form one entry
+
 // Points constants
 export const POINTS_PER_BLOCK = 10;
+export const POINTS_PER_DESTROYED_BLOCK = 20; // Shattering a block is worth more than toppling it
 export const POINTS_PER_KING = 100; // Points for toppling the Golden Block
+export const POINTS_PER_CHAIN_LINK = 10; // Bonus per block explosion in the chain that brought a block down
+export const POINTS_PER_UNUSED_PROJECTILE = 25; // Bonus for every projectile left when the level is won
+
+// Star rating. Levels without par data are rated against a par scaled to their size.
+export const MAX_STARS = 3;
+export const DEFAULT_PAR_SHOT_RATIO = 0.25; // Share of the level's projectiles a 3-star clear may use
+export const DEFAULT_PAR_TOPPLED_RATIO = 0.5; // Share of the free (unanchored) blocks a 3-star clear must bring down
+export const RATING_SETTLE_POLL_MS = 250; // How often a won level checks whether blocks are still coming down
+export const RATING_MAX_WAIT_MS = 4000; // A won level is rated after this long even if the world hasn't settled
 
 // Launching constants
 export const MAX_CHARGE_DURATION_MS = 1500; // 1.5 seconds for full charge
 export const MIN_LAUNCH_POWER = 0.1; // Minimum power for a quick tap
 export const MAX_LAUNCH_POWER = 1.0; // Maximum power after full charge
+export const PROJECTILE_LINEAR_DAMPING = 0.1; // Air drag on launched projectiles
+
+// Launcher. Levels without their own launcher get one between the start camera and the structure.
+export const LAUNCHER_BARREL_LENGTH = 1.2; // About the simulation's launch offset, so projectiles appear at the muzzle
+export const LAUNCHER_PIVOT_HEIGHT = 0.6; // Barrel pivot above the ground for default launchers
+export const DEFAULT_LAUNCHER_DISTANCE_RATIO = 0.25; // How far from the camera towards the structure a default launcher stands
+export const DEFAULT_LAUNCHER_YAW_RANGE = 60; // Degrees either side of the structure
+export const DEFAULT_LAUNCHER_PITCH_RANGE = { min: -10, max: 70 }; // Degrees above the horizon
+export const LAUNCHER_DRAG_SENSITIVITY = 0.25; // Degrees per pixel of pointer drag
+export const LAUNCHER_KEY_AIM_SPEED = 45; // Degrees per second while an aim key is held or the left stick is fully tilted
+export const LAUNCHER_COLOR = 0x3f3f46;
+export const LAUNCHER_BARREL_COLOR = 0x71717a;
+
+// Aiming aids
+export const TRAJECTORY_PREVIEW_TIME = 2; // Seconds of flight the trajectory preview traces
+export const TRAJECTORY_PREVIEW_COLOR = 0xfacc15;
+
+// Delegate (auto-fire) solver (lib/shotSolver.ts). Flight paths are screened cheaply first; only the most promising
+// are played out in a full copy of the world, once per projectile type.
+export const SOLVER_YAW_OFFSETS = [0, -3, 3]; // Degrees either side of straight at the golden block
+export const SOLVER_PITCH_STEP = 2; // Degrees between screened elevations
+export const SOLVER_POWER_STEP = 0.05;
+export const SOLVER_CANDIDATE_COUNT = 6; // Screened paths played out per projectile type
+export const SOLVER_MIN_PITCH_SEPARATION = 6; // Degrees between kept paths, so high and low arcs are both tried
+export const SOLVER_FLIGHT_TIME = 4; // Seconds a screened path is traced
+export const SOLVER_SETTLE_TIME = 4; // Seconds a candidate shot is played out after launch
+export const SOLVER_REST_SPEED = 0.25; // Linear/angular speed below which a block is still enough to copy the world
+export const SOLVER_REFERENCE_BLOCK_COUNT = 40; // Structures up to this size get the full budget above, bigger ones proportionally less
+export const SOLVER_MIN_CANDIDATE_COUNT = 2;
+export const SOLVER_MIN_SETTLE_TIME = 1.5;
+export const SOLVER_CHUNK_MS = 12; // Work done per task before yielding so the page keeps drawing
+export const SOLVER_TIME_LIMIT_MS = 15000; // Wall-clock limit for one plan; the best shot found by then is taken
+export const DELEGATE_TURN_INTERVAL_MS = 2500; // Between auto-fire turns; a turn waits for the world to come to rest
+
+// --- Keyboard and Gamepad ---
+// Keys are KeyboardEvent.code values. Gamepad buttons use the standard mapping: 0 A, 1 B, 2 X, 3 Y, 4/5 bumpers,
+// 6/7 triggers, 8 Back, 9 Start, 12-15 D-pad up/down/left/right. The left stick always aims and the right stick
+// always turns the camera.
+export const INPUT_ACTIONS_CONFIG: InputActionConfig[] = [
+  { id: 'aimLeft', name: '조준 왼쪽' },
+  { id: 'aimRight', name: '조준 오른쪽' },
+  { id: 'aimUp', name: '조준 위' },
+  { id: 'aimDown', name: '조준 아래' },
+  { id: 'charge', name: '파워 모으기 / 발사' },
+  { id: 'previousProjectile', name: '이전 발사체' },
+  { id: 'nextProjectile', name: '다음 발사체' },
+  { id: 'cameraLeft', name: '카메라 왼쪽 회전' },
+  { id: 'cameraRight', name: '카메라 오른쪽 회전' },
+  { id: 'cameraUp', name: '카메라 위로' },
+  { id: 'cameraDown', name: '카메라 아래로' },
+  { id: 'restartLevel', name: '레벨 다시 시작' },
+  { id: 'nextLevel', name: '다음 레벨' },
+];
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  aimLeft: { keys: ['ArrowLeft'], gamepadButtons: [14] },
+  aimRight: { keys: ['ArrowRight'], gamepadButtons: [15] },
+  aimUp: { keys: ['ArrowUp'], gamepadButtons: [12] },
+  aimDown: { keys: ['ArrowDown'], gamepadButtons: [13] },
+  charge: { keys: ['Space'], gamepadButtons: [0, 7] },
+  previousProjectile: { keys: ['KeyQ'], gamepadButtons: [4] },
+  nextProjectile: { keys: ['KeyE'], gamepadButtons: [5] },
+  cameraLeft: { keys: ['KeyA'], gamepadButtons: [] },
+  cameraRight: { keys: ['KeyD'], gamepadButtons: [] },
+  cameraUp: { keys: ['KeyW'], gamepadButtons: [] },
+  cameraDown: { keys: ['KeyS'], gamepadButtons: [] },
+  restartLevel: { keys: ['KeyR'], gamepadButtons: [8] },
+  nextLevel: { keys: ['KeyN'], gamepadButtons: [9] },
+};
+export const GAMEPAD_STICK_DEADZONE = 0.2; // Stick tilt ignored as drift
+export const GAMEPAD_BUTTON_THRESHOLD = 0.5; // Analog triggers count as pressed past half way
+export const CAMERA_KEY_ORBIT_SPEED = 90; // Degrees per second while a camera key is held or the right stick is fully tilted
+
+// --- Touch Controls ---
+// One finger aims the launcher, two fingers orbit and pinch the camera, and the on-screen fire button charges.
+// Vibration lengths are in milliseconds and only play where the browser supports navigator.vibrate.
+export const TOUCH_AIM_SENSITIVITY = 0.2; // Degrees per pixel of one-finger drag
+export const HAPTIC_CHARGE_START_MS = 10;
+export const HAPTIC_FULL_POWER_MS = 30; // Each time the charge passes full power and wraps round
+export const HAPTIC_FIRE_PATTERN = [20, 30, 40];
 
 // --- Projectile Type Specific Constants ---
 
@@ -43,7 +267,7 @@ export const EXPLOSION_PARTICLE_SIZE = 0.12;
 export const EXPLOSION_PARTICLE_LIFESPAN_MS = 800; // particles live for 0.8 seconds
 export const EXPLOSION_PARTICLE_INITIAL_SPEED = 6; // units per second
 export const EXPLOSION_PARTICLE_GRAVITY = -2.5; // slight downward pull
-export const EXPLOSION_PARTICLE_DAMPING = 0.97; // velocity damping factor per frame
+export const EXPLOSION_PARTICLE_DAMPING = 0.97; // velocity damping factor per simulation step
 
 
 // Cluster Projectile
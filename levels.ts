@@ -7,6 +7,7 @@ export const LEVEL_CONFIGS: LevelConfiguration[] = [
     levelId: 1,
     name: "기본 성곽",
     initialProjectiles: 10,
+    par: { shots: 1, blocksToppled: 3 },
     structure: [
       { id: 'l1_base_0', shape: 'cube', x: -BLOCK_SIZE / 2 - 0.05, y: BLOCK_SIZE / 2, z: 0 },
       { id: 'l1_base_1', shape: 'cube', x: BLOCK_SIZE / 2 + 0.05, y: BLOCK_SIZE / 2, z: 0 },
@@ -21,6 +22,7 @@ export const LEVEL_CONFIGS: LevelConfiguration[] = [
     levelId: 2,
     name: "높은 탑",
     initialProjectiles: 8,
+    par: { shots: 1, blocksToppled: 3 },
     structure: [
       { id: 'l2_base_0', shape: 'cube', x: 0, y: BLOCK_SIZE / 2, z: 0 },
       { id: 'l2_l1_0', shape: 'cube', x: 0, y: BLOCK_SIZE * 1.5, z: 0 },
@@ -36,6 +38,7 @@ export const LEVEL_CONFIGS: LevelConfiguration[] = [
     levelId: 3,
     name: "견고한 요새",
     initialProjectiles: 7,
+    par: { shots: 2, blocksToppled: 5 },
     structure: [
       // Base layer - 2x2 blocks for stability
       { id: 'l3_base_0', shape: 'cube', x: -BLOCK_SIZE * 0.5 - 0.02, y: BLOCK_SIZE * 0.5, z: -BLOCK_SIZE * 0.5 - 0.02 },
@@ -0,0 +1,101 @@
+import { BlockConfig, BlockRotation, BlockShape, LevelConfiguration } from '../types';
+import { BLOCK_SIZE } from '../constants';
+import { DEG_TO_RAD, Vector3Like } from './math';
+
+const OVERLAP_TOLERANCE = 0.01; // Blocks may touch at their faces; only deeper interpenetration counts
+
+// Half extents of a block shape in its own frame. Every shape is BLOCK_SIZE tall and deep; the long cubes extend along local X.
+export function getShapeHalfExtents(shape: BlockShape = 'cube'): Vector3Like {
+  switch (shape) {
+    case 'cube_2x1x1':
+      return { x: BLOCK_SIZE, y: BLOCK_SIZE / 2, z: BLOCK_SIZE / 2 };
+    case 'cube_3x1x1':
+      return { x: BLOCK_SIZE * 1.5, y: BLOCK_SIZE / 2, z: BLOCK_SIZE / 2 };
+    default:
+      return { x: BLOCK_SIZE / 2, y: BLOCK_SIZE / 2, z: BLOCK_SIZE / 2 };
+  }
+}
+
+export function hasRotation(rotation?: BlockRotation): rotation is BlockRotation {
+  return !!rotation && (rotation.x !== 0 || rotation.y !== 0 || rotation.z !== 0);
+}
+
+// Rotation matrix rows for an XYZ Euler rotation in degrees (same convention as THREE.Euler / CANNON.Quaternion.setFromEuler)
+function getRotationMatrix(rotation: BlockRotation): number[][] {
+  const a = Math.cos(rotation.x * DEG_TO_RAD), b = Math.sin(rotation.x * DEG_TO_RAD);
+  const c = Math.cos(rotation.y * DEG_TO_RAD), d = Math.sin(rotation.y * DEG_TO_RAD);
+  const e = Math.cos(rotation.z * DEG_TO_RAD), f = Math.sin(rotation.z * DEG_TO_RAD);
+  return [
+    [c * e, -c * f, d],
+    [a * f + b * e * d, a * e - b * f * d, -b * c],
+    [b * f - a * e * d, b * e + a * f * d, a * c],
+  ];
+}
+
+// Axis-aligned half extents of a (possibly rotated) block, i.e. its world-space footprint and height.
+export function getBlockHalfExtents(shape: BlockShape = 'cube', rotation?: BlockRotation): Vector3Like {
+  const local = getShapeHalfExtents(shape);
+  if (!hasRotation(rotation) || shape === 'sphere') return local;
+  const m = getRotationMatrix(rotation);
+  const extent = (row: number[]) => Math.abs(row[0]) * local.x + Math.abs(row[1]) * local.y + Math.abs(row[2]) * local.z;
+  // Round away float noise so 90 degree turns give exact grid extents
+  const clean = (value: number) => Math.round(value * 1e6) / 1e6;
+  return { x: clean(extent(m[0])), y: clean(extent(m[1])), z: clean(extent(m[2])) };
+}
+
+// World direction of a block's local up (Y) axis
+export function getBlockUpDirection(rotation?: BlockRotation): Vector3Like {
+  if (!hasRotation(rotation)) return { x: 0, y: 1, z: 0 };
+  const m = getRotationMatrix(rotation);
+  return { x: m[0][1], y: m[1][1], z: m[2][1] };
+}
+
+// Overlap of the axis-aligned bounds. Exact for 90 degree rotations, conservative for anything in between.
+export function blocksOverlap(a: BlockConfig, b: BlockConfig): boolean {
+  const extentsA = getBlockHalfExtents(a.shape, a.rotation);
+  const extentsB = getBlockHalfExtents(b.shape, b.rotation);
+  return Math.abs(a.x - b.x) < extentsA.x + extentsB.x - OVERLAP_TOLERANCE &&
+    Math.abs(a.y - b.y) < extentsA.y + extentsB.y - OVERLAP_TOLERANCE &&
+    Math.abs(a.z - b.z) < extentsA.z + extentsB.z - OVERLAP_TOLERANCE;
+}
+
+// World-space bounds of a whole structure; null when it has no blocks
+export function getStructureBounds(structure: BlockConfig[]): { min: Vector3Like; max: Vector3Like } | null {
+  if (structure.length === 0) return null;
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  structure.forEach(block => {
+    const extents = getBlockHalfExtents(block.shape, block.rotation);
+    min.x = Math.min(min.x, block.x - extents.x); max.x = Math.max(max.x, block.x + extents.x);
+    min.y = Math.min(min.y, block.y - extents.y); max.y = Math.max(max.y, block.y + extents.y);
+    min.z = Math.min(min.z, block.z - extents.z); max.z = Math.max(max.z, block.z + extents.z);
+  });
+  return { min, max };
+}
+
+// Snaps a center Y so the block's bottom rests on a whole-block layer. halfHeight defaults to an unrotated block.
+export function snapBlockY(y: number, halfHeight: number = BLOCK_SIZE / 2): number {
+  return Math.max(halfHeight, Math.round((y - halfHeight) / BLOCK_SIZE) * BLOCK_SIZE + halfHeight);
+}
+
+// Where the game camera starts for a level: the level's own camera fields, else a three-quarter view framing the structure
+export function getLevelCameraView(level: Pick<LevelConfiguration, 'structure' | 'cameraPosition' | 'cameraTarget'>): { position: Vector3Like; target: Vector3Like } {
+  const bounds = getStructureBounds(level.structure);
+  const center = bounds
+    ? { x: (bounds.min.x + bounds.max.x) / 2, y: (bounds.min.y + bounds.max.y) / 2, z: (bounds.min.z + bounds.max.z) / 2 }
+    : null;
+
+  let position: Vector3Like;
+  if (level.cameraPosition) {
+    position = { ...level.cameraPosition };
+  } else if (bounds && center) {
+    const { min, max } = bounds;
+    const extent = Math.max(max.x - min.x, max.y - min.y, max.z - min.z, BLOCK_SIZE * 5) || BLOCK_SIZE * 5;
+    position = { x: center.x, y: center.y + extent * 0.75, z: center.z + extent * 1.5 };
+  } else {
+    position = { x: 0, y: BLOCK_SIZE * 2, z: BLOCK_SIZE * 5 };
+  }
+
+  const target = level.cameraTarget ? { ...level.cameraTarget } : center ?? { x: 0, y: BLOCK_SIZE, z: 0 };
+  return { position, target };
+}
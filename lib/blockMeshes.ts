@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { BlockAnchor, BlockConfig, BlockShape, LauncherAim, LauncherConfig } from '../types';
+import { BLOCK_SIZE, BLOCK_ANCHORS_CONFIG, STATIC_BLOCK_COLOR, LAUNCHER_BARREL_LENGTH, LAUNCHER_COLOR, LAUNCHER_BARREL_COLOR } from '../constants';
+import { getBlockMaterialConfig, getSpecialBlockConfig } from './physicsSimulation';
+import { DEG_TO_RAD } from './math';
+
+// Three.js geometry and materials for level blocks (and the launcher), shared by the game view, the editor and
+// the thumbnail renderer
+
+const GOLDEN_BLOCK_RENDER_COLOR = 0xffd700;
+const DEFAULT_BLOCK_RENDER_COLOR = 0xaaaaaa;
+const CYLINDER_SEGMENTS = 16;
+const SPHERE_SEGMENTS = 16;
+
+export const createBlockGeometry = (shape: BlockShape = 'cube'): THREE.BufferGeometry => {
+  switch (shape) {
+    case 'cylinder':
+      return new THREE.CylinderGeometry(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE, CYLINDER_SEGMENTS);
+    case 'sphere':
+      return new THREE.SphereGeometry(BLOCK_SIZE / 2, SPHERE_SEGMENTS, SPHERE_SEGMENTS);
+    case 'cube_2x1x1':
+      return new THREE.BoxGeometry(BLOCK_SIZE * 2, BLOCK_SIZE, BLOCK_SIZE);
+    case 'cube_3x1x1':
+      return new THREE.BoxGeometry(BLOCK_SIZE * 3, BLOCK_SIZE, BLOCK_SIZE);
+    case 'cube':
+    default:
+      return new THREE.BoxGeometry(BLOCK_SIZE, BLOCK_SIZE, BLOCK_SIZE);
+  }
+};
+
+// Edge outline marking anchored blocks. It is decoration only, so raycasts ignore it.
+export const createAnchorOutline = (geometry: THREE.BufferGeometry, anchor: BlockAnchor): THREE.LineSegments => {
+  const outlineColor = BLOCK_ANCHORS_CONFIG.find(config => config.id === anchor)?.outlineColor;
+  const outline = new THREE.LineSegments(new THREE.EdgesGeometry(geometry, 30), new THREE.LineBasicMaterial({ color: outlineColor }));
+  outline.raycast = () => {};
+  return outline;
+};
+
+export const createBlockMaterial = (blockConf: BlockConfig): THREE.MeshStandardMaterial => {
+  // Blocks without a material keep the original look; a material brings its own color, finish and transparency
+  const surface = blockConf.material ? getBlockMaterialConfig(blockConf.material) : null;
+  const special = blockConf.special ? getSpecialBlockConfig(blockConf.special) : undefined;
+  const anchorColor = blockConf.anchor === 'static' ? STATIC_BLOCK_COLOR : undefined;
+  const blockColor = blockConf.isKing ? GOLDEN_BLOCK_RENDER_COLOR : (blockConf.color ?? special?.color ?? anchorColor ?? surface?.color ?? DEFAULT_BLOCK_RENDER_COLOR);
+  return new THREE.MeshStandardMaterial({ 
+    color: blockColor,
+    // Special blocks glow faintly so they stand out as hazards
+    emissive: special ? special.color : 0x000000,
+    emissiveIntensity: special ? 0.35 : 0,
+    metalness: blockConf.isKing ? 0.8 : (surface?.metalness ?? 0.3),
+    roughness: blockConf.isKing ? 0.2 : (surface?.roughness ?? 0.6),
+    transparent: !blockConf.isKing && !!surface && surface.opacity < 1,
+    opacity: blockConf.isKing ? 1 : (surface?.opacity ?? 1),
+  });
+};
+
+const LAUNCHER_BARREL_RADIUS = 0.18;
+const LAUNCHER_BASE_RADIUS = 0.45;
+
+// Cannon standing on the ground below the launcher's pivot. Turn it with setLauncherMeshAim; dispose with
+// disposeLauncherMesh. Like anchor outlines it is decoration only, so raycasts ignore it.
+export const createLauncherMesh = (launcher: LauncherConfig): THREE.Group => {
+  const root = new THREE.Group();
+  root.position.set(launcher.position.x, launcher.position.y, launcher.position.z);
+
+  const baseHeight = Math.max(launcher.position.y, 0.1);
+  const base = new THREE.Mesh(
+    new THREE.CylinderGeometry(LAUNCHER_BASE_RADIUS * 0.8, LAUNCHER_BASE_RADIUS, baseHeight, CYLINDER_SEGMENTS),
+    new THREE.MeshStandardMaterial({ color: LAUNCHER_COLOR, metalness: 0.5, roughness: 0.6 })
+  );
+  base.position.y = -baseHeight / 2;
+
+  // Yaw turns the outer pivot around Y, pitch tilts the inner one around X; the barrel points along -Z
+  const yawPivot = new THREE.Group();
+  yawPivot.name = 'yawPivot';
+  const pitchPivot = new THREE.Group();
+  pitchPivot.name = 'pitchPivot';
+  const barrelGeometry = new THREE.CylinderGeometry(LAUNCHER_BARREL_RADIUS, LAUNCHER_BARREL_RADIUS * 1.2, LAUNCHER_BARREL_LENGTH, CYLINDER_SEGMENTS);
+  barrelGeometry.rotateX(-Math.PI / 2);
+  barrelGeometry.translate(0, 0, -LAUNCHER_BARREL_LENGTH / 2);
+  const barrel = new THREE.Mesh(barrelGeometry, new THREE.MeshStandardMaterial({ color: LAUNCHER_BARREL_COLOR, metalness: 0.7, roughness: 0.3 }));
+  const hub = new THREE.Mesh(
+    new THREE.SphereGeometry(LAUNCHER_BARREL_RADIUS * 1.6, SPHERE_SEGMENTS, SPHERE_SEGMENTS),
+    new THREE.MeshStandardMaterial({ color: LAUNCHER_COLOR, metalness: 0.5, roughness: 0.6 })
+  );
+  pitchPivot.add(barrel, hub);
+  yawPivot.add(pitchPivot);
+  root.add(base, yawPivot);
+
+  root.traverse(object => {
+    object.castShadow = true;
+    object.raycast = () => {};
+  });
+  return root;
+};
+
+export const setLauncherMeshAim = (launcherMesh: THREE.Group, aim: LauncherAim) => {
+  launcherMesh.getObjectByName('yawPivot')?.rotation.set(0, aim.yaw * DEG_TO_RAD, 0);
+  launcherMesh.getObjectByName('pitchPivot')?.rotation.set(aim.pitch * DEG_TO_RAD, 0, 0);
+};
+
+export const disposeLauncherMesh = (launcherMesh: THREE.Group) => {
+  launcherMesh.removeFromParent();
+  launcherMesh.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
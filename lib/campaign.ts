@@ -0,0 +1,75 @@
+import { CampaignChapter, CampaignPack, LevelConfiguration, PlayerProfile } from '../types';
+import { getLevelProgress } from './playerProfile';
+
+export const CUSTOM_CHAPTER_ID = 'custom';
+
+export interface ResolvedCampaignLevel {
+  level: LevelConfiguration;
+  index: number; // Position in the playable level list
+  isUnlocked: boolean;
+}
+
+export interface ResolvedChapter {
+  chapter: CampaignChapter;
+  levels: ResolvedCampaignLevel[];
+  isUnlocked: boolean;
+  lockReason?: string; // Why a locked chapter is still locked
+  clearedCount: number;
+  stars: number;
+}
+
+const isCleared = (profile: PlayerProfile, levelId: string | number) => getLevelProgress(profile, levelId).completions > 0;
+
+// Matches a pack against the playable levels and works out what the profile has unlocked. Levels the pack
+// doesn't list (the player's own) are collected into a trailing chapter that is always open.
+export function resolveCampaign(pack: CampaignPack, levels: LevelConfiguration[], profile: PlayerProfile): ResolvedChapter[] {
+  const indexById = new Map(levels.map((level, index) => [String(level.levelId), index]));
+  const listedIds = new Set(pack.chapters.flatMap(chapter => chapter.levelIds.map(String)));
+  const unlistedIds = levels.map(level => level.levelId).filter(levelId => !listedIds.has(String(levelId)));
+  const chapters: CampaignChapter[] = unlistedIds.length > 0
+    ? [...pack.chapters, { id: CUSTOM_CHAPTER_ID, name: '나의 레벨', description: '에디터, AI, 가져오기로 추가한 레벨입니다.', levelIds: unlistedIds }]
+    : pack.chapters;
+
+  const packStars = levels
+    .filter(level => listedIds.has(String(level.levelId)))
+    .reduce((sum, level) => sum + getLevelProgress(profile, level.levelId).bestStars, 0);
+
+  const resolved: ResolvedChapter[] = [];
+  chapters.forEach(chapter => {
+    const chapterLevels = chapter.levelIds
+      .map(levelId => indexById.get(String(levelId)))
+      .filter((index): index is number => index !== undefined)
+      .map(index => levels[index]);
+
+    let isUnlocked = true;
+    let lockReason: string | undefined;
+    const rule = chapter.unlock;
+    if (rule?.type === 'chapterCleared') {
+      // A required chapter that isn't loaded can't be cleared, so it doesn't hold this one back
+      const required = resolved.find(entry => entry.chapter.id === rule.chapterId);
+      isUnlocked = !required || required.clearedCount === required.levels.length;
+      if (!isUnlocked) lockReason = `"${required!.chapter.name}"을(를) 모두 클리어하면 열립니다.`;
+    } else if (rule?.type === 'stars') {
+      isUnlocked = packStars >= rule.stars;
+      if (!isUnlocked) lockReason = `별 ${rule.stars}개를 모으면 열립니다. (현재 ${packStars}개)`;
+    }
+
+    resolved.push({
+      chapter,
+      levels: chapterLevels.map((level, position) => ({
+        level,
+        index: indexById.get(String(level.levelId))!,
+        isUnlocked: isUnlocked && (
+          !chapter.sequential || position === 0 ||
+          isCleared(profile, chapterLevels[position - 1].levelId) ||
+          profile.unlockedLevelIds.includes(String(level.levelId))
+        ),
+      })),
+      isUnlocked,
+      lockReason,
+      clearedCount: chapterLevels.filter(level => isCleared(profile, level.levelId)).length,
+      stars: chapterLevels.reduce((sum, level) => sum + getLevelProgress(profile, level.levelId).bestStars, 0),
+    });
+  });
+  return resolved;
+}
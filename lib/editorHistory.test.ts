@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { EDITOR_HISTORY_LIMIT, EDITOR_HISTORY_MERGE_MS } from '../constants';
+import { canRedo, canUndo, EditorHistory, EMPTY_EDITOR_HISTORY, recordCommand, travelHistory } from './editorHistory';
+
+// Three renames, one per command: 'a' -> 'b' -> 'c' -> 'd'
+const renames = (): EditorHistory => ['b', 'c', 'd'].reduce(
+  (history, name, i) => recordCommand(history, '이름 변경', { levelName: String.fromCharCode(97 + i) }, { levelName: name }, undefined, i),
+  EMPTY_EDITOR_HISTORY,
+);
+
+describe('recordCommand', () => {
+  it('ignores a command that changes nothing', () => {
+    expect(recordCommand(EMPTY_EDITOR_HISTORY, '이름 변경', { levelName: 'a' }, { levelName: 'a' })).toBe(EMPTY_EDITOR_HISTORY);
+  });
+
+  it('merges commands with the same key inside the merge window', () => {
+    let history = recordCommand(EMPTY_EDITOR_HISTORY, '이름 변경', { levelName: '' }, { levelName: 'a' }, 'name', 0);
+    history = recordCommand(history, '이름 변경', { levelName: 'a' }, { levelName: 'ab' }, 'name', EDITOR_HISTORY_MERGE_MS);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0]).toMatchObject({ before: { levelName: '' }, after: { levelName: 'ab' }, timestamp: EDITOR_HISTORY_MERGE_MS });
+  });
+
+  it('starts a new command after the merge window or for another key', () => {
+    let history = recordCommand(EMPTY_EDITOR_HISTORY, '이름 변경', { levelName: '' }, { levelName: 'a' }, 'name', 0);
+    history = recordCommand(history, '이름 변경', { levelName: 'a' }, { levelName: 'ab' }, 'name', EDITOR_HISTORY_MERGE_MS + 1);
+    history = recordCommand(history, '발사체 수', { initialProjectiles: 3 }, { initialProjectiles: 4 }, 'projectiles', EDITOR_HISTORY_MERGE_MS + 2);
+    expect(history.past).toHaveLength(3);
+  });
+
+  it('drops the redo branch instead of merging into an undone command', () => {
+    const undone = travelHistory(recordCommand(EMPTY_EDITOR_HISTORY, '이름 변경', { levelName: '' }, { levelName: 'a' }, 'name', 0), 0)!.history;
+    const history = recordCommand(undone, '이름 변경', { levelName: '' }, { levelName: 'x' }, 'name', 1);
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].after).toEqual({ levelName: 'x' });
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('keeps only the newest commands past the limit', () => {
+    let history = EMPTY_EDITOR_HISTORY;
+    for (let i = 0; i < EDITOR_HISTORY_LIMIT + 5; i++) {
+      history = recordCommand(history, '발사체 수', { initialProjectiles: i }, { initialProjectiles: i + 1 }, undefined, i);
+    }
+    expect(history.past).toHaveLength(EDITOR_HISTORY_LIMIT);
+    expect(history.past[0].before).toEqual({ initialProjectiles: 5 });
+  });
+});
+
+describe('travelHistory', () => {
+  it('undoes and redoes one command at a time', () => {
+    const undo = travelHistory(renames(), 2)!;
+    expect(undo.patch).toEqual({ levelName: 'c' });
+    expect(undo.history.future).toHaveLength(1);
+
+    const redo = travelHistory(undo.history, 3)!;
+    expect(redo.patch).toEqual({ levelName: 'd' });
+    expect(canRedo(redo.history)).toBe(false);
+  });
+
+  it('combines the patches when jumping several commands', () => {
+    const start = travelHistory(renames(), 0)!;
+    expect(start.patch).toEqual({ levelName: 'a' });
+    expect(canUndo(start.history)).toBe(false);
+    expect(travelHistory(start.history, 2)!.patch).toEqual({ levelName: 'c' });
+  });
+
+  it('returns null when there is nowhere to go', () => {
+    expect(travelHistory(renames(), 3)).toBeNull();
+    expect(travelHistory(renames(), 10)).toBeNull();
+    expect(travelHistory(EMPTY_EDITOR_HISTORY, -1)).toBeNull();
+  });
+});
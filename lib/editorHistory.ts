@@ -0,0 +1,91 @@
+import { BlockConfig, LauncherConfig, LevelPar } from '../types';
+import { EDITOR_HISTORY_LIMIT, EDITOR_HISTORY_MERGE_MS } from '../constants';
+
+// Undo/redo for the level editor. Every edit is recorded as a command holding the editor fields it changed,
+// both before and after, so undoing applies `before` and redoing applies `after`.
+
+export interface EditorDocument {
+  levelName: string;
+  initialProjectiles: number;
+  par: LevelPar;
+  hideTrajectory: boolean;
+  launcher: LauncherConfig | null; // null = the default launcher in front of the structure
+  structure: BlockConfig[];
+  editingLevelId: string | number | null;
+}
+
+export type EditorDocumentPatch = Partial<EditorDocument>;
+
+export interface EditorCommand {
+  id: number;
+  label: string; // Shown in the history list, e.g. "블록 놓기"
+  before: EditorDocumentPatch;
+  after: EditorDocumentPatch;
+  mergeKey?: string; // Consecutive commands with the same key merge, e.g. keystrokes in the name field
+  timestamp: number;
+}
+
+export interface EditorHistory {
+  past: EditorCommand[]; // Applied commands, oldest first
+  future: EditorCommand[]; // Undone commands, next to redo first
+}
+
+export const EMPTY_EDITOR_HISTORY: EditorHistory = { past: [], future: [] };
+
+let nextCommandId = 1;
+
+// The values `patch` is about to overwrite
+export function capturePatch(document: EditorDocument, patch: EditorDocumentPatch): EditorDocumentPatch {
+  const before: EditorDocumentPatch = {};
+  (Object.keys(patch) as (keyof EditorDocument)[]).forEach(key => {
+    (before as Record<string, unknown>)[key] = document[key];
+  });
+  return before;
+}
+
+// Records a command and drops the redo branch. Returns the history unchanged for a no-op.
+export function recordCommand(
+  history: EditorHistory,
+  label: string,
+  before: EditorDocumentPatch,
+  after: EditorDocumentPatch,
+  mergeKey?: string,
+  now = Date.now(),
+): EditorHistory {
+  const changedKeys = (Object.keys(after) as (keyof EditorDocument)[]).filter(key => before[key] !== after[key]);
+  if (changedKeys.length === 0) return history;
+
+  const last = history.past[history.past.length - 1];
+  if (mergeKey && last?.mergeKey === mergeKey && history.future.length === 0 && now - last.timestamp <= EDITOR_HISTORY_MERGE_MS) {
+    const merged: EditorCommand = { ...last, after: { ...last.after, ...after }, timestamp: now };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const command: EditorCommand = { id: nextCommandId++, label, before, after, mergeKey, timestamp: now };
+  return { past: [...history.past, command].slice(-EDITOR_HISTORY_LIMIT), future: [] };
+}
+
+// Moves to the point where `pastLength` commands are applied (0 = the state the editor was opened with).
+// Returns the new history and the combined patch to apply, or null if nothing changes.
+export function travelHistory(history: EditorHistory, pastLength: number): { history: EditorHistory; patch: EditorDocumentPatch } | null {
+  const target = Math.max(0, Math.min(pastLength, history.past.length + history.future.length));
+  if (target === history.past.length) return null;
+
+  const past = [...history.past];
+  const future = [...history.future];
+  let patch: EditorDocumentPatch = {};
+  while (past.length > target) {
+    const command = past.pop()!;
+    patch = { ...patch, ...command.before };
+    future.unshift(command);
+  }
+  while (past.length < target) {
+    const command = future.shift()!;
+    patch = { ...patch, ...command.after };
+    past.push(command);
+  }
+  return { history: { past, future }, patch };
+}
+
+export const canUndo = (history: EditorHistory) => history.past.length > 0;
+export const canRedo = (history: EditorHistory) => history.future.length > 0;
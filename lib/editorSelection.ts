@@ -0,0 +1,102 @@
+import { BlockConfig, BlockFragment, BlockShape } from '../types';
+import { BLOCK_SIZE, LEVEL_FORMAT_VERSION } from '../constants';
+import { blocksOverlap, getBlockHalfExtents, getStructureBounds } from './blockGeometry';
+import { BLOCK_FRAGMENT_KIND } from './levelSchema';
+import { Vector3Like } from './math';
+
+// Group edits on a set of selected editor blocks. Every function returns a new structure and leaves the input alone;
+// findPlacementProblem decides whether the result may be applied.
+
+const PLACEMENT_TOLERANCE = 0.01;
+
+// Ids for blocks added together, in the editor's `custom_block_<time>_<index>` style
+export function createBlockIds(count: number, startIndex: number): string[] {
+  const time = Date.now();
+  return Array.from({ length: count }, (_, i) => `custom_block_${time}_${startIndex + i}`);
+}
+
+// Checks that the blocks in `changedIds` sit inside the editor grid, on or above the ground and clear of every other block.
+// Returns a message for the editor, or null when the structure may be applied.
+export function findPlacementProblem(structure: BlockConfig[], changedIds: Set<string>, gridSize: number): string | null {
+  const halfGridWorldSize = (gridSize / 2) * BLOCK_SIZE + PLACEMENT_TOLERANCE;
+  const changed = structure.filter(block => changedIds.has(block.id));
+  for (const block of changed) {
+    const extents = getBlockHalfExtents(block.shape, block.rotation);
+    if (block.x - extents.x < -halfGridWorldSize || block.x + extents.x > halfGridWorldSize ||
+        block.z - extents.z < -halfGridWorldSize || block.z + extents.z > halfGridWorldSize) {
+      return "블록이 편집 영역을 벗어납니다.";
+    }
+    if (block.y - extents.y < -PLACEMENT_TOLERANCE) {
+      return "블록이 바닥 아래로 내려갈 수 없습니다.";
+    }
+    if (structure.some(other => other.id !== block.id && blocksOverlap(block, other))) {
+      return "다른 블록과 겹칩니다.";
+    }
+  }
+  return null;
+}
+
+export function translateBlocks(structure: BlockConfig[], ids: Set<string>, offset: Vector3Like): BlockConfig[] {
+  return structure.map(block => ids.has(block.id)
+    ? { ...block, x: block.x + offset.x, y: block.y + offset.y, z: block.z + offset.z }
+    : block);
+}
+
+// Copies of the selected blocks moved by `offset`. The golden block is copied as a plain block so there is still only one.
+export function duplicateBlocks(structure: BlockConfig[], ids: Set<string>, offset: Vector3Like): BlockConfig[] {
+  const selected = structure.filter(block => ids.has(block.id));
+  const newIds = createBlockIds(selected.length, structure.length);
+  return selected.map((block, i) => ({
+    ...block,
+    id: newIds[i],
+    x: block.x + offset.x, y: block.y + offset.y, z: block.z + offset.z,
+    isKing: false,
+  }));
+}
+
+// Special blocks keep their hazard color and the golden block stays gold, so both are skipped
+export function recolorBlocks(structure: BlockConfig[], ids: Set<string>, color: number): BlockConfig[] {
+  return structure.map(block => ids.has(block.id) && !block.isKing && !block.special ? { ...block, color } : block);
+}
+
+// Keeps each block's bottom where it was, so a reshaped block still rests on the same layer
+export function reshapeBlocks(structure: BlockConfig[], ids: Set<string>, shape: BlockShape): BlockConfig[] {
+  return structure.map(block => {
+    if (!ids.has(block.id)) return block;
+    const bottom = block.y - getBlockHalfExtents(block.shape, block.rotation).y;
+    return { ...block, shape, y: bottom + getBlockHalfExtents(shape, block.rotation).y };
+  });
+}
+
+// Grid point at the bottom center of a group of blocks
+export function getSelectionOrigin(blocks: BlockConfig[]): Vector3Like {
+  const { min, max } = getStructureBounds(blocks)!;
+  return {
+    x: Math.round((min.x + max.x) / 2 / BLOCK_SIZE) * BLOCK_SIZE,
+    y: min.y,
+    z: Math.round((min.z + max.z) / 2 / BLOCK_SIZE) * BLOCK_SIZE,
+  };
+}
+
+export function createBlockFragment(blocks: BlockConfig[]): BlockFragment {
+  const origin = getSelectionOrigin(blocks);
+  return {
+    kind: BLOCK_FRAGMENT_KIND,
+    formatVersion: LEVEL_FORMAT_VERSION,
+    origin,
+    blocks: blocks.map(block => ({ ...block, x: block.x - origin.x, y: block.y - origin.y, z: block.z - origin.z })),
+  };
+}
+
+// Places fragment blocks with their origin at `target`, under fresh ids. A copied golden block only stays golden
+// when the structure doesn't have one yet.
+export function instantiateFragment(structure: BlockConfig[], blocks: BlockConfig[], target: Vector3Like): BlockConfig[] {
+  const hasGoldenBlock = structure.some(block => block.isKing);
+  let goldenBlockKept = false;
+  const newIds = createBlockIds(blocks.length, structure.length);
+  return blocks.map((block, i) => {
+    const isKing = !!block.isKing && !hasGoldenBlock && !goldenBlockKept;
+    if (isKing) goldenBlockKept = true;
+    return { ...block, id: newIds[i], x: block.x + target.x, y: block.y + target.y, z: block.z + target.z, isKing };
+  });
+}
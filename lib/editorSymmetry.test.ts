@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BlockConfig } from '../types';
+import { expandPlacement, getArrayOffsets, mirrorBlock, NO_ARRAY, NO_SYMMETRY, removeOverlappingCopies, rotateBlockAroundY } from './editorSymmetry';
+
+const origin = { x: 0, z: 0 };
+const cube: BlockConfig = { id: 'a', x: 2, y: 0.5, z: 1, shape: 'cube' };
+
+describe('getArrayOffsets', () => {
+  it('is just the original when the array is off', () => {
+    expect(getArrayOffsets(NO_ARRAY)).toEqual([{ x: 0, z: 0 }]);
+  });
+
+  it('spaces linear copies along the chosen axis', () => {
+    expect(getArrayOffsets({ ...NO_ARRAY, mode: 'linear', axis: 'z', count: 3, spacing: 2 }))
+      .toEqual([{ x: 0, z: 0 }, { x: 0, z: 2 }, { x: 0, z: 4 }]);
+  });
+
+  it('fills grid rows along Z', () => {
+    expect(getArrayOffsets({ ...NO_ARRAY, mode: 'grid', count: 2, rows: 2, spacing: 3 }))
+      .toEqual([{ x: 0, z: 0 }, { x: 3, z: 0 }, { x: 0, z: 3 }, { x: 3, z: 3 }]);
+  });
+});
+
+describe('mirrorBlock', () => {
+  it('reflects the position across the plane through origin', () => {
+    expect(mirrorBlock(cube, 'x', { x: 1, z: 0 })).toEqual({ ...cube, x: 0 });
+    expect(mirrorBlock(cube, 'z', { x: 0, z: -1 })).toEqual({ ...cube, z: -3 });
+  });
+
+  it('flips the rotations about the axes that cross the mirror plane', () => {
+    const turned: BlockConfig = { ...cube, shape: 'cube_2x1x1', rotation: { x: 30, y: 90, z: 45 } };
+    expect(mirrorBlock(turned, 'x', origin).rotation).toEqual({ x: 30, y: 270, z: 315 });
+    expect(mirrorBlock(turned, 'z', origin).rotation).toEqual({ x: 330, y: 270, z: 45 });
+  });
+
+  it('leaves unrotated blocks without a rotation', () => {
+    expect(mirrorBlock(cube, 'x', origin)).not.toHaveProperty('rotation');
+  });
+});
+
+describe('rotateBlockAroundY', () => {
+  it('turns the position and the Y rotation together', () => {
+    const turned = rotateBlockAroundY({ ...cube, x: 2, z: 0 }, 90, origin);
+    expect(turned).toMatchObject({ x: 0, z: -2, rotation: { x: 0, y: 90, z: 0 } });
+  });
+
+  it('wraps the angle and keeps the other rotations', () => {
+    const upright: BlockConfig = { ...cube, rotation: { x: 0, y: 270, z: 90 } };
+    expect(rotateBlockAroundY(upright, 180, { x: 2, z: 1 })).toEqual({ ...upright, rotation: { x: 0, y: 90, z: 90 } });
+  });
+});
+
+describe('removeOverlappingCopies', () => {
+  it('keeps the first of two overlapping blocks', () => {
+    const other = { ...cube, id: 'b', x: 2.5 };
+    expect(removeOverlappingCopies([cube, other])).toEqual([cube]);
+    expect(removeOverlappingCopies([cube, { ...other, x: 3 }])).toHaveLength(2);
+  });
+});
+
+describe('expandPlacement', () => {
+  it('returns only the block with no tools on', () => {
+    expect(expandPlacement(cube, NO_SYMMETRY, NO_ARRAY)).toEqual([cube]);
+  });
+
+  it('mirrors every arrayed copy', () => {
+    const array = { ...NO_ARRAY, mode: 'linear' as const, axis: 'x' as const, count: 3, spacing: 2 };
+    const copies = expandPlacement({ ...cube, x: 1 }, { ...NO_SYMMETRY, mirrorX: true }, array);
+    expect(copies.map(copy => copy.x)).toEqual([1, -1, 3, -3, 5, -5]);
+  });
+
+  it('drops the mirror image of a block sitting on the mirror plane', () => {
+    const onPlane = { ...cube, x: 0 };
+    expect(expandPlacement(onPlane, { ...NO_SYMMETRY, mirrorX: true }, NO_ARRAY)).toEqual([onPlane]);
+    expect(expandPlacement({ ...cube, x: 0.25 }, { ...NO_SYMMETRY, mirrorX: true }, NO_ARRAY)).toHaveLength(1);
+    expect(expandPlacement(onPlane, { ...NO_SYMMETRY, mirrorX: true, mirrorZ: true }, NO_ARRAY)).toHaveLength(2);
+  });
+
+  it.each([3, 6, 8])('spreads %i radial copies evenly around the origin', radialCount => {
+    const copies = expandPlacement({ ...cube, x: 4, z: 0 }, { ...NO_SYMMETRY, radialCount }, NO_ARRAY);
+    expect(copies).toHaveLength(radialCount);
+    copies.forEach((copy, i) => {
+      expect(Math.hypot(copy.x, copy.z)).toBeCloseTo(4, 5);
+      expect(copy.rotation?.y ?? 0).toBeCloseTo(360 / radialCount * i, 5);
+    });
+  });
+
+  it('keeps one block when radial copies land on top of it', () => {
+    expect(expandPlacement({ ...cube, x: 0, z: 0 }, { ...NO_SYMMETRY, radialCount: 6 }, NO_ARRAY)).toHaveLength(1);
+  });
+});
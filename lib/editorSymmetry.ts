@@ -0,0 +1,78 @@
+import { BlockConfig, BlockRotation, EditorArray, EditorSymmetry } from '../types';
+import { BLOCK_SIZE } from '../constants';
+import { blocksOverlap, hasRotation } from './blockGeometry';
+import { DEG_TO_RAD } from './math';
+
+// Mirrored, radial and arrayed copies of editor blocks. Copies come back without new ids; the editor assigns them.
+
+export const NO_SYMMETRY: EditorSymmetry = { mirrorX: false, mirrorZ: false, radialCount: 1, origin: { x: 0, z: 0 } };
+export const NO_ARRAY: EditorArray = { mode: 'off', axis: 'x', count: 3, rows: 2, spacing: 2 };
+
+// Round away float noise so copies of grid blocks stay on the grid
+const clean = (value: number) => Math.round(value * 1e6) / 1e6;
+const normalizeAngle = (degrees: number) => clean(((degrees % 360) + 360) % 360);
+
+const withRotation = (block: BlockConfig, rotation: BlockRotation): BlockConfig => {
+  const { rotation: _previous, ...rest } = block;
+  return hasRotation(rotation) ? { ...rest, rotation } : rest;
+};
+
+export function hasPlacementTools(symmetry: EditorSymmetry, array: EditorArray): boolean {
+  return symmetry.mirrorX || symmetry.mirrorZ || symmetry.radialCount > 1 || array.mode !== 'off';
+}
+
+// Offsets of every array position, the original's (0, 0) first
+export function getArrayOffsets(array: EditorArray): { x: number; z: number }[] {
+  const step = array.spacing * BLOCK_SIZE;
+  if (array.mode === 'linear') {
+    return Array.from({ length: array.count }, (_, i) => array.axis === 'x' ? { x: i * step, z: 0 } : { x: 0, z: i * step });
+  }
+  if (array.mode === 'grid') {
+    return Array.from({ length: array.rows }, (_, row) =>
+      Array.from({ length: array.count }, (_, column) => ({ x: column * step, z: row * step }))
+    ).flat();
+  }
+  return [{ x: 0, z: 0 }];
+}
+
+// Mirroring a shape that is symmetric in its own frame flips the rotations about the two axes that cross the mirror plane
+export function mirrorBlock(block: BlockConfig, axis: 'x' | 'z', origin: EditorSymmetry['origin']): BlockConfig {
+  const rotation = block.rotation ?? { x: 0, y: 0, z: 0 };
+  if (axis === 'x') {
+    return withRotation({ ...block, x: clean(2 * origin.x - block.x) }, { x: rotation.x, y: normalizeAngle(-rotation.y), z: normalizeAngle(-rotation.z) });
+  }
+  return withRotation({ ...block, z: clean(2 * origin.z - block.z) }, { x: normalizeAngle(-rotation.x), y: normalizeAngle(-rotation.y), z: rotation.z });
+}
+
+// Turns a block around the vertical axis through origin. Exact for the editor's own rotations (Y turns and uprighting).
+export function rotateBlockAroundY(block: BlockConfig, degrees: number, origin: EditorSymmetry['origin']): BlockConfig {
+  const radians = degrees * DEG_TO_RAD;
+  const cos = Math.cos(radians), sin = Math.sin(radians);
+  const dx = block.x - origin.x, dz = block.z - origin.z;
+  const rotation = block.rotation ?? { x: 0, y: 0, z: 0 };
+  return withRotation(
+    { ...block, x: clean(origin.x + dx * cos + dz * sin), z: clean(origin.z - dx * sin + dz * cos) },
+    { ...rotation, y: normalizeAngle(rotation.y + degrees) },
+  );
+}
+
+// Drops blocks that overlap one listed before them, e.g. a block's mirror image when it sits on the mirror plane
+export function removeOverlappingCopies(blocks: BlockConfig[]): BlockConfig[] {
+  const kept: BlockConfig[] = [];
+  blocks.forEach(block => {
+    if (!kept.some(other => blocksOverlap(other, block))) kept.push(block);
+  });
+  return kept;
+}
+
+// The block followed by all its copies: arrayed first, then mirrored, then turned around the radial axis
+export function expandPlacement(block: BlockConfig, symmetry: EditorSymmetry, array: EditorArray): BlockConfig[] {
+  let images = getArrayOffsets(array).map(offset => ({ ...block, x: clean(block.x + offset.x), z: clean(block.z + offset.z) }));
+  if (symmetry.mirrorX) images = images.flatMap(image => [image, mirrorBlock(image, 'x', symmetry.origin)]);
+  if (symmetry.mirrorZ) images = images.flatMap(image => [image, mirrorBlock(image, 'z', symmetry.origin)]);
+  if (symmetry.radialCount > 1) {
+    const angle = 360 / symmetry.radialCount;
+    images = images.flatMap(image => Array.from({ length: symmetry.radialCount }, (_, i) => i === 0 ? image : rotateBlockAroundY(image, angle * i, symmetry.origin)));
+  }
+  return removeOverlappingCopies(images);
+}
@@ -1,6 +1,8 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { LevelConfiguration, BlockConfig, BlockShape } from '../types'; // Adjust path as needed
+import { GoogleGenAI, GenerateContentResponse, Content } from "@google/genai";
+import { GenerationAttempt, GenerationResult } from '../types';
+import { BLOCK_MATERIALS_CONFIG, BLOCK_ANCHORS_CONFIG, SPECIAL_BLOCKS_CONFIG, MAX_GENERATION_ATTEMPTS } from '../constants';
+import { repairGeneratedLevel, validateGeneratedLevel } from './levelRepair';
 
 const LOCAL_STORAGE_API_KEY_ID = 'dominoCastleGeminiApiKey';
 
@@ -76,7 +78,12 @@ interface BlockConfig {
   x: number; // GEOMETRIC CENTER x coordinate. Grid units are based on BLOCK_SIZE = 1.
   y: number; // GEOMETRIC CENTER y coordinate. Ground is at y=0. See PLACEMENT RULES.
   z: number; // GEOMETRIC CENTER z coordinate. Grid units are based on BLOCK_SIZE = 1.
-  shape?: 'cube' | 'cylinder' | 'sphere' | 'cube_2x1x1' | 'cube_3x1x1'; // Default to 'cube'. 'cube_2x1x1' is 2 units long on X. 'cube_3x1x1' is 3 units long on X. All shapes have a height of BLOCK_SIZE (1 unit).
+  shape?: 'cube' | 'cylinder' | 'sphere' | 'cube_2x1x1' | 'cube_3x1x1'; // Default to 'cube'. Unrotated, 'cube_2x1x1' is 2 units long on X and 'cube_3x1x1' is 3 units long on X. All unrotated shapes have a height of BLOCK_SIZE (1 unit).
+  material?: ${BLOCK_MATERIALS_CONFIG.map(material => `'${material.id}'`).join(' | ')}; // Optional, defaults to 'wood'. See MATERIALS.
+  special?: ${SPECIAL_BLOCKS_CONFIG.map(special => `'${special.id}'`).join(' | ')}; // Optional explosive block. See SPECIAL BLOCKS. Never on the isKing block.
+  anchor?: ${BLOCK_ANCHORS_CONFIG.map(anchor => `'${anchor.id}'`).join(' | ')}; // Optional. See ANCHORED BLOCKS. Never on the isKing block.
+  health?: number; // Optional hit points (> 0). The block shatters once hits and explosions have dealt this much damage. Omit to use the material's default.
+  rotation?: { x: number; y: number; z: number }; // Optional Euler angles in DEGREES. Omit for no rotation. Only use { x: 0, y: 90, z: 0 } (long side along Z) or { x: 0, y: 0, z: 90 } (standing upright, long side along Y).
   isKing?: boolean; // Exactly ONE block in the structure must have isKing: true. This is the golden block.
   color?: number; // Optional: The DECIMAL (base 10) integer equivalent of a hex color code. E.g., for green (hex 0x4ade80), use its decimal value 5234208. If isKing is true, this color is ignored (it will be golden).
 }
@@ -85,7 +92,8 @@ CRITICAL PLACEMENT AND STABILITY RULES (MUST BE FOLLOWED PRECISELY):
 
 1.  BLOCK_SIZE IS 1 UNIT:
     *   All calculations for coordinates and stacking MUST assume BLOCK_SIZE = 1.
-    *   All block shapes ('cube', 'cylinder', 'sphere', 'cube_2x1x1', 'cube_3x1x1') have a HEIGHT of 1 unit (BLOCK_SIZE).
+    *   All block shapes ('cube', 'cylinder', 'sphere', 'cube_2x1x1', 'cube_3x1x1') have a HEIGHT of 1 unit (BLOCK_SIZE) unless stood upright.
+    *   ROTATION: A long cube with rotation { x: 0, y: 90, z: 0 } runs along Z instead of X (still 1 unit high). With rotation { x: 0, y: 0, z: 90 } it stands upright as a pillar: 'cube_2x1x1' is then 2 units high and 'cube_3x1x1' 3 units high, with a 1x1 footprint.
 
 2.  NO OVERLAP (EXTREMELY IMPORTANT):
     *   Blocks MUST NOT, under any circumstances, interpenetrate or overlap. EVEN SLIGHTLY.
@@ -105,13 +113,28 @@ CRITICAL PLACEMENT AND STABILITY RULES (MUST BE FOLLOWED PRECISELY):
             *   Block B on Block A: \`y: 1.5\`.
             *   Block C on Block B: \`y: 2.5\`. And so on.
         *   ANY DEVIATION from this precise y-coordinate calculation for stacked blocks WILL cause instability and likely immediate collapse.
+    *   Upright Pillars: An upright block's center y is half its height above what it stands on. An upright 'cube_2x1x1' on the ground has \`y: 1.0\` and its top is at 2.0; an upright 'cube_3x1x1' on the ground has \`y: 1.5\` and its top is at 3.0. A 1-unit block on top of such a pillar has \`y = top + 0.5\`.
     *   No Part Below Ground: No part of any block should ever be below y=0. This means the lowest point of any block must be >= 0. Given y is the center and height is 1, the center y must always be >= 0.5.
 
 4.  STABLE SUPPORT (CRITICAL):
     *   Structures MUST be stable at the start. Avoid configurations that would collapse under gravity BEFORE being hit.
     *   Stacked blocks MUST have substantial horizontal overlap (support) from the block(s) beneath them.
     *   DO NOT balance blocks on single points or tiny/narrow edges. This WILL lead to immediate collapse.
-    *   For 'cube_2x1x1' (length 2 along X) and 'cube_3x1x1' (length 3 along X), be mindful of their larger X-dimension footprint. Ensure their center x, y, z coordinates and the support they receive (or provide) account for their full size to maintain stability.
+    *   For 'cube_2x1x1' (length 2) and 'cube_3x1x1' (length 3), be mindful of their larger footprint along X, or along Z when rotated by y: 90. Ensure their center x, y, z coordinates and the support they receive (or provide) account for their full size to maintain stability.
+
+MATERIALS (each block may set "material"; mass is per block regardless of shape):
+${BLOCK_MATERIALS_CONFIG.map(material => `*   '${material.id}': mass ${material.mass}, friction ${material.friction}, bounciness ${material.restitution}, ${material.health !== undefined ? `breaks after ${material.health} damage` : 'unbreakable by default'}.`).join('\n')}
+*   Mix sturdy and fragile parts to make a puzzle, e.g. a heavy 'stone' base with a 'glass' or 'ice' section that is the weak point. Low-friction 'ice' blocks slide easily, so keep them well supported. Blocks without a material are 'wood'.
+*   Damage is roughly the impact speed (m/s) above 3. A direct projectile hit deals about 5-20, so 'glass' panes break on any solid hit. Give a block "health" only to make it breakable on purpose, e.g. a crumbling wall section.
+
+ANCHORED BLOCKS (each block except the golden one may set "anchor"):
+*   'static': never moves and needs no support, so it may float. Use it for cliffs, pedestals and floating platforms that the rest of the structure stands on. Static blocks cannot have "special" or "health".
+*   'pinned': its centre stays fixed but it can rotate around it, like a seesaw. Structures resting on one may tip off when hit.
+*   Anchored blocks never count as fallen, so the golden block must still be a free block that can be knocked down. Other blocks still need proper support from blocks below or from anchored blocks.
+
+SPECIAL BLOCKS (each block except the golden one may set "special"):
+${SPECIAL_BLOCKS_CONFIG.map(special => `*   '${special.id}': explodes when hit at over ${special.triggerSpeed} m/s or caught in another explosion (radius ${special.explosionRadius}, strength ${special.explosionStrength}, fuse ${special.fuseMs} ms).`).join('\n')}
+*   Explosions set off nearby special blocks, so a line of them spaced within blast radius makes a chain reaction. Use at most a few per level and place them where a chain can reach the golden block's supports.
 
 GENERAL GUIDELINES:
 *   Level Grid: Design within coordinates approximately -10 to +10 for x and z. Max height (center y) around 10-12 units.
@@ -121,7 +144,7 @@ GENERAL GUIDELINES:
 *   IDs: \`levelId\` and \`block.id\` must be unique strings. Keep them concise.
 *   Coordinate Snapping: For x and z, try to use multiples of 0.5 or 1.0 for easier grid alignment. Y-coordinates are STRICTLY determined by the ground placement (0.5) or stacking (y_lower + 1.0) rules.
 *   Colors: If assigning colors (other than the golden block), use the DECIMAL (base 10) integer value of the hex color code. (e.g., green 0x4ade80 -> decimal 5234208).
-*   Shapes: Use a variety of shapes if it makes sense. Default to 'cube'. All shapes have height = 1.
+*   Shapes: Use a variety of shapes if it makes sense. Default to 'cube'. All unrotated shapes have height = 1. Use rotated long cubes for walls along Z and upright pillars.
 *   Name: Level name should be creative and relatively short. English first, then Korean in parentheses if possible, e.g., "The Fortress (요새)".
 *   Initial Projectiles: Between 3 and 15.
 
@@ -149,7 +172,80 @@ Let's make an interesting and, above all, STABLE and CONCISE level!
 }
 
 
-export async function generateLevelWithGemini(userPrompt?: string): Promise<LevelConfiguration> {
+function buildRepairPrompt(problems: string[]): string {
+  return `
+Your previous response could not be used. It had the following problems:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Return a corrected level as a single JSON object that fixes ALL of these problems while still following every rule from the original instructions (Y-coordinates, no overlap, stable support, at most 25 blocks, exactly one golden block).
+Output ONLY the JSON object, without any surrounding text or markdown.
+`;
+}
+
+// Pulls the JSON object text out of a model response, throwing a descriptive error if there isn't one.
+function extractJsonString(genAIResponse: GenerateContentResponse): string {
+  const textOutput = genAIResponse.text;
+
+  if (textOutput === undefined || textOutput === null) {
+      console.error("Gemini API returned undefined or null for text output. Full response object:", JSON.stringify(genAIResponse, null, 2));
+      let candidateDetails = "Details from candidates: ";
+      if (genAIResponse.candidates && genAIResponse.candidates.length > 0) {
+          const firstCandidate = genAIResponse.candidates[0];
+          candidateDetails += `Finish Reason: ${firstCandidate.finishReason || 'N/A'}. `;
+          if (!firstCandidate.content || !firstCandidate.content.parts || firstCandidate.content.parts.length === 0) {
+              candidateDetails += "First candidate had no content parts.";
+          } else {
+               candidateDetails += `First candidate had ${firstCandidate.content.parts.length} part(s).`;
+          }
+      } else {
+           candidateDetails = "No candidates in response.";
+      }
+      throw new Error(`AI returned no text output (undefined or null). ${candidateDetails} This can happen if the model cannot fulfill the request (e.g., to output JSON) or if the prompt is problematic.`);
+  }
+
+  if (typeof textOutput !== 'string') {
+      console.error("Gemini API returned a non-string text output. Type:", typeof textOutput, "Full response object:", JSON.stringify(genAIResponse, null, 2));
+      throw new Error(`AI returned an unexpected non-string type for text output: ${typeof textOutput}.`);
+  }
+
+  let jsonString = textOutput.trim();
+  
+  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = jsonString.match(fenceRegex);
+  if (match && match[2]) {
+    jsonString = match[2].trim();
+  }
+  
+  if (jsonString.length === 0) { 
+      console.error("Gemini response resulted in an empty string after processing. Original text output (before trim/fence removal):", textOutput);
+      throw new Error("AI returned an empty JSON string.");
+  }
+  if (jsonString.toLowerCase().includes("error") && (jsonString.toLowerCase().includes("sorry") || jsonString.toLowerCase().includes("unable to"))) { 
+      console.error("Gemini response appears to be an error message or apology:", jsonString);
+      throw new Error(`AI did not return valid JSON. It might have returned an error message or apology: "${jsonString.substring(0,100)}..."`);
+  }
+  if (!jsonString.startsWith("{") || !jsonString.endsWith("}")) {
+      const snippet = jsonString.length > 200 ? `${jsonString.substring(0, 100)}... (content length: ${jsonString.length}) ...${jsonString.substring(jsonString.length - 100)}` : jsonString;
+      console.error("Processed Gemini response is not a valid JSON structure (does not start with '{' and/or end with '}'). Snippet:", snippet, "Full length:", jsonString.length);
+      let specificError = "AI did not return a valid JSON structure.";
+      if (jsonString.startsWith("{") && !jsonString.endsWith("}")) {
+          specificError = "AI returned JSON that starts with '{' but does not end with '}'. This often indicates the response was TRUNCATED due to excessive length. Ensure the AI adheres to block count limits (MAX 25 blocks) and general conciseness.";
+      } else if (!jsonString.startsWith("{") && jsonString.endsWith("}")) {
+          specificError = "AI returned JSON that ends with '}' but does not start with '{'. This indicates an issue with the start of the JSON structure.";
+      } else if (jsonString.length > 0 && !jsonString.startsWith("{") && !jsonString.endsWith("}")) {
+          specificError = "AI returned text that is not a JSON structure (neither starts with '{' nor ends with '}').";
+      }
+      throw new Error(specificError);
+  }
+  return jsonString;
+}
+
+// Asks the model for a level, repairs what can be fixed locally and sends the remaining
+// validation errors back as a follow-up turn, up to MAX_GENERATION_ATTEMPTS times.
+export async function generateLevelWithGemini(
+  userPrompt?: string,
+  onAttempt?: (attempt: GenerationAttempt) => void
+): Promise<GenerationResult> {
   if (!ai) {
     console.log("Gemini AI client not available or not initialized. Attempting to initialize now...");
     initializeAiClient(); 
@@ -161,136 +257,73 @@ export async function generateLevelWithGemini(userPrompt?: string): Promise<Leve
     throw new Error(errorMsg);
   }
 
-  let jsonString = ""; 
   const modelName = 'gemini-2.5-flash-preview-04-17';
+  const conversation: Content[] = [{ role: 'user', parts: [{ text: buildPrompt(userPrompt) }] }];
+  const attempts: GenerationAttempt[] = [];
 
-  try {
-    const fullPrompt = buildPrompt(userPrompt);
-    const genAIResponse: GenerateContentResponse = await ai.models.generateContent({ 
-      model: modelName,
-      contents: fullPrompt,
-      config: {
-        responseMimeType: "application/json",
-      },
-    });
-    
-    if (genAIResponse.promptFeedback) {
-        if (genAIResponse.promptFeedback.blockReason) {
-            const blockReason = genAIResponse.promptFeedback.blockReason;
-            let safetyRatingsDetails = 'N/A';
-            if (genAIResponse.promptFeedback.safetyRatings && genAIResponse.promptFeedback.safetyRatings.length > 0) {
-                safetyRatingsDetails = genAIResponse.promptFeedback.safetyRatings
-                    .map(sr => `Category: ${sr.category}, Probability: ${sr.probability}`)
-                    .join('; ');
-            }
-            throw new Error(`AI generation failed due to content blocking. Reason: ${blockReason}. Safety ratings: [${safetyRatingsDetails}]`);
-        }
-    }
-    
-    const textOutput = genAIResponse.text;
-
-    if (textOutput === undefined || textOutput === null) {
-        console.error("Gemini API returned undefined or null for text output. Full response object:", JSON.stringify(genAIResponse, null, 2));
-        let candidateDetails = "Details from candidates: ";
-        if (genAIResponse.candidates && genAIResponse.candidates.length > 0) {
-            const firstCandidate = genAIResponse.candidates[0];
-            candidateDetails += `Finish Reason: ${firstCandidate.finishReason || 'N/A'}. `;
-            if (!firstCandidate.content || !firstCandidate.content.parts || firstCandidate.content.parts.length === 0) {
-                candidateDetails += "First candidate had no content parts.";
-            } else {
-                 candidateDetails += `First candidate had ${firstCandidate.content.parts.length} part(s).`;
-            }
-        } else {
-             candidateDetails = "No candidates in response.";
-        }
-        throw new Error(`AI returned no text output (undefined or null). ${candidateDetails} This can happen if the model cannot fulfill the request (e.g., to output JSON) or if the prompt is problematic.`);
-    }
-
-    if (typeof textOutput !== 'string') {
-        console.error("Gemini API returned a non-string text output. Type:", typeof textOutput, "Full response object:", JSON.stringify(genAIResponse, null, 2));
-        throw new Error(`AI returned an unexpected non-string type for text output: ${typeof textOutput}.`);
+  for (let attemptNumber = 1; attemptNumber <= MAX_GENERATION_ATTEMPTS; attemptNumber++) {
+    let genAIResponse: GenerateContentResponse;
+    try {
+      genAIResponse = await ai.models.generateContent({ 
+        model: modelName,
+        contents: conversation,
+        config: {
+          responseMimeType: "application/json",
+        },
+      });
+    } catch (error: any) {
+      console.error("Error generating level with Gemini:", error.message);
+      throw new Error(`AI level generation failed: ${error.message || String(error)}`);
     }
 
-    jsonString = textOutput.trim();
-    
-    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = jsonString.match(fenceRegex);
-    if (match && match[2]) {
-      jsonString = match[2].trim();
-    }
-    
-    if (jsonString.length === 0) { 
-        console.error("Gemini response resulted in an empty string after processing. Original text output (before trim/fence removal):", textOutput);
-        throw new Error("AI returned an empty JSON string. Please try a different prompt or check the console.");
-    }
-    if (jsonString.toLowerCase().includes("error") && (jsonString.toLowerCase().includes("sorry") || jsonString.toLowerCase().includes("unable to"))) { 
-        console.error("Gemini response appears to be an error message or apology:", jsonString);
-        throw new Error(`AI did not return valid JSON. It might have returned an error message or apology: "${jsonString.substring(0,100)}..."`);
-    }
-     if (!jsonString.startsWith("{") || !jsonString.endsWith("}")) {
-        const snippet = jsonString.length > 200 ? `${jsonString.substring(0, 100)}... (content length: ${jsonString.length}) ...${jsonString.substring(jsonString.length - 100)}` : jsonString;
-        console.error("Processed Gemini response is not a valid JSON structure (does not start with '{' and/or end with '}'). Snippet:", snippet, "Full length:", jsonString.length);
-        let specificError = "AI did not return a valid JSON structure.";
-        if (jsonString.startsWith("{") && !jsonString.endsWith("}")) {
-            specificError = "AI returned JSON that starts with '{' but does not end with '}'. This often indicates the response was TRUNCATED due to excessive length. Ensure the AI adheres to block count limits (MAX 25 blocks) and general conciseness.";
-        } else if (!jsonString.startsWith("{") && jsonString.endsWith("}")) {
-            specificError = "AI returned JSON that ends with '}' but does not start with '{'. This indicates an issue with the start of the JSON structure.";
-        } else if (jsonString.length > 0 && !jsonString.startsWith("{") && !jsonString.endsWith("}")) {
-            specificError = "AI returned text that is not a JSON structure (neither starts with '{' nor ends with '}').";
-        }
-        throw new Error(specificError);
+    // Blocked prompts won't get better by retrying
+    if (genAIResponse.promptFeedback?.blockReason) {
+      const blockReason = genAIResponse.promptFeedback.blockReason;
+      let safetyRatingsDetails = 'N/A';
+      if (genAIResponse.promptFeedback.safetyRatings && genAIResponse.promptFeedback.safetyRatings.length > 0) {
+          safetyRatingsDetails = genAIResponse.promptFeedback.safetyRatings
+              .map(sr => `Category: ${sr.category}, Probability: ${sr.probability}`)
+              .join('; ');
+      }
+      throw new Error(`AI generation failed due to content blocking. Reason: ${blockReason}. Safety ratings: [${safetyRatingsDetails}]`);
     }
 
-    const parsedData = JSON.parse(jsonString);
-
-    if (!parsedData.name || !Array.isArray(parsedData.structure) || typeof parsedData.initialProjectiles !== 'number') {
-      console.error("Parsed Gemini response missing essential fields:", parsedData);
-      throw new Error("AI-generated level data is missing required fields (name, structure, initialProjectiles).");
-    }
-    if (parsedData.structure.length > 25 || parsedData.structure.length < 1) { 
-      console.warn(`AI generated ${parsedData.structure.length} blocks, which is outside the 1-25 limit. Prompt needs further refinement or AI ignored constraints.`);
-      if (parsedData.structure.length > 25) {
-        throw new Error(`AI generated ${parsedData.structure.length} blocks, exceeding the maximum limit of 25. Please try a more constrained prompt.`);
+    let problems: string[] = [];
+    let repairs: string[] = [];
+    let jsonString = "";
+    try {
+      jsonString = extractJsonString(genAIResponse);
+      const parsed: unknown = JSON.parse(jsonString);
+      const repairResult = repairGeneratedLevel(parsed);
+      repairs = repairResult.repairs;
+      problems = validateGeneratedLevel(repairResult.level ?? parsed);
+
+      if (repairResult.level && problems.length === 0) {
+        const attempt: GenerationAttempt = { attempt: attemptNumber, succeeded: true, repairs };
+        attempts.push(attempt);
+        onAttempt?.(attempt);
+        return { level: repairResult.level, attempts };
       }
-       if (parsedData.structure.length === 0) {
-        throw new Error("AI-generated level structure cannot be empty.");
+    } catch (error: any) {
+      if (error instanceof SyntaxError) {
+        const loggableJsonString = jsonString.length > 1000 ? `${jsonString.substring(0, 500)}... (TRUNCATED FOR LOG) ...${jsonString.substring(jsonString.length - 500)}` : jsonString;
+        console.error("Problematic JSON string that caused parsing error (if available, potentially truncated for log):\n", loggableJsonString); 
+        problems = [`The response was not valid JSON: ${error.message}`];
+      } else {
+        problems = [error.message || String(error)];
       }
     }
-    if (parsedData.structure.filter((b: BlockConfig) => b.isKing).length !== 1) {
-      throw new Error("AI-generated level must have exactly one golden block. The generated structure did not meet this requirement.");
-    }
-
-    parsedData.structure.forEach((block: BlockConfig, index: number) => {
-        if (!block.id) {
-            block.id = `ai_block_${Date.now()}_${index}`;
-        }
-        if (block.color && typeof block.color === 'string') {
-            const parsedColor = parseInt(block.color, 10); 
-            if (isNaN(parsedColor)) {
-                const hexParsedColor = parseInt(block.color, 16);
-                if(isNaN(hexParsedColor)) delete block.color; else block.color = hexParsedColor;
-            } else {
-                 block.color = parsedColor;
-            }
-        }
-        if (!block.shape) {
-            block.shape = 'cube';
-        }
-    });
-
-    if (!parsedData.levelId) {
-        parsedData.levelId = `ai_level_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-    }
 
-    return parsedData as LevelConfiguration;
+    console.warn(`AI level generation attempt ${attemptNumber} failed:`, problems);
+    const attempt: GenerationAttempt = { attempt: attemptNumber, succeeded: false, error: problems.join(' '), repairs };
+    attempts.push(attempt);
+    onAttempt?.(attempt);
 
-  } catch (error: any) {
-    console.error("Error generating level with Gemini:", error.message);
-    if (error instanceof SyntaxError || (error.message && error.message.toLowerCase().includes("json"))) {
-        const loggableJsonString = jsonString.length > 1000 ? `${jsonString.substring(0, 500)}... (TRUNCATED FOR LOG) ...${jsonString.substring(jsonString.length - 500)}` : jsonString;
-        console.error("Problematic JSON string that caused parsing error (if available, potentially truncated for log):\n", loggableJsonString); 
-        throw new Error(`Failed to parse AI response as JSON. The AI may have returned malformed data. Details: ${error.message}`);
-    }
-    throw new Error(`AI level generation failed: ${error.message || String(error)}`);
+    conversation.push(
+      { role: 'model', parts: [{ text: genAIResponse.text || '(no output)' }] },
+      { role: 'user', parts: [{ text: buildRepairPrompt(problems) }] }
+    );
   }
+
+  throw new Error(`AI level generation failed after ${MAX_GENERATION_ATTEMPTS} attempts. Last error: ${attempts[attempts.length - 1]?.error || 'unknown'}`);
 }
@@ -0,0 +1,10 @@
+// Vibration feedback for touch controls. Browsers without the Vibration API (e.g. iOS Safari) and
+// pages the user hasn't interacted with yet simply don't vibrate.
+export function vibrate(pattern: number | number[]): void {
+  if (typeof navigator === 'undefined' || typeof navigator.vibrate !== 'function') return;
+  try {
+    navigator.vibrate(pattern);
+  } catch (error) {
+    console.warn("Vibration failed:", error);
+  }
+}
@@ -0,0 +1,127 @@
+import { InputAction, InputBindings } from '../types';
+import { INPUT_ACTIONS_CONFIG, DEFAULT_INPUT_BINDINGS, GAMEPAD_STICK_DEADZONE, GAMEPAD_BUTTON_THRESHOLD } from '../constants';
+import { isObject, isInteger } from './typeGuards';
+
+// Keyboard and gamepad bindings: storage, lookups and labels. The game canvas reads the devices; everything
+// here is plain data so the settings screen and the canvas agree on what each input does.
+
+const LOCAL_STORAGE_INPUT_BINDINGS_ID = 'dominoCastleInputBindings';
+
+export type InputDevice = 'keys' | 'gamepadButtons';
+
+// A frame's worth of the first connected gamepad
+export interface GamepadState {
+  pressedButtons: Set<number>;
+  leftStick: { x: number; y: number }; // -1..1 after the deadzone; y is down-positive like the Gamepad API
+  rightStick: { x: number; y: number };
+}
+
+const GAMEPAD_BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-pad ↑', 'D-pad ↓', 'D-pad ←', 'D-pad →', 'Home'];
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓',
+  Space: 'Space', Enter: 'Enter', Backspace: 'Backspace', Tab: 'Tab',
+  ShiftLeft: '왼쪽 Shift', ShiftRight: '오른쪽 Shift',
+};
+
+
+const copyBindings = (bindings: InputBindings): InputBindings =>
+  Object.fromEntries(INPUT_ACTIONS_CONFIG.map(({ id }) => [id, {
+    keys: [...bindings[id].keys],
+    gamepadButtons: [...bindings[id].gamepadButtons],
+  }])) as InputBindings;
+
+export function getDefaultInputBindings(): InputBindings {
+  return copyBindings(DEFAULT_INPUT_BINDINGS);
+}
+
+// Stored bindings, with defaults for actions added since they were saved. Unusable entries are dropped.
+export function parseInputBindings(data: unknown): InputBindings {
+  const bindings = getDefaultInputBindings();
+  if (!isObject(data)) return bindings;
+  INPUT_ACTIONS_CONFIG.forEach(({ id }) => {
+    const stored = data[id];
+    if (!isObject(stored)) return;
+    if (Array.isArray(stored.keys)) {
+      bindings[id].keys = stored.keys.filter((key): key is string => typeof key === 'string' && key !== '');
+    }
+    if (Array.isArray(stored.gamepadButtons)) {
+      bindings[id].gamepadButtons = stored.gamepadButtons.filter((button): button is number => isInteger(button) && button >= 0);
+    }
+  });
+  return bindings;
+}
+
+export function loadInputBindings(): InputBindings {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_INPUT_BINDINGS_ID);
+    return stored ? parseInputBindings(JSON.parse(stored)) : getDefaultInputBindings();
+  } catch (error) {
+    console.error("Error reading input bindings from localStorage:", error);
+    return getDefaultInputBindings();
+  }
+}
+
+// Throws if localStorage is full or unavailable
+export function saveInputBindings(bindings: InputBindings): void {
+  localStorage.setItem(LOCAL_STORAGE_INPUT_BINDINGS_ID, JSON.stringify(bindings));
+}
+
+// Makes `input` the only binding of `action` on its device and takes it away from any other action
+export function bindInput(bindings: InputBindings, action: InputAction, device: InputDevice, input: string | number): InputBindings {
+  const next = copyBindings(bindings);
+  INPUT_ACTIONS_CONFIG.forEach(({ id }) => {
+    const binding = next[id];
+    if (device === 'keys') binding.keys = binding.keys.filter(key => key !== input);
+    else binding.gamepadButtons = binding.gamepadButtons.filter(button => button !== input);
+  });
+  if (device === 'keys') next[action].keys = [input as string];
+  else next[action].gamepadButtons = [input as number];
+  return next;
+}
+
+export function clearInput(bindings: InputBindings, action: InputAction, device: InputDevice): InputBindings {
+  const next = copyBindings(bindings);
+  next[action][device] = [];
+  return next;
+}
+
+export function getActionsForKey(bindings: InputBindings, code: string): InputAction[] {
+  return INPUT_ACTIONS_CONFIG.filter(({ id }) => bindings[id].keys.includes(code)).map(({ id }) => id);
+}
+
+export function getActionsForGamepadButton(bindings: InputBindings, button: number): InputAction[] {
+  return INPUT_ACTIONS_CONFIG.filter(({ id }) => bindings[id].gamepadButtons.includes(button)).map(({ id }) => id);
+}
+
+export function describeKey(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  if (code.startsWith('Numpad')) return `숫자패드 ${code.slice(6)}`;
+  return code;
+}
+
+export function describeGamepadButton(button: number): string {
+  return GAMEPAD_BUTTON_NAMES[button] ?? `버튼 ${button}`;
+}
+
+const applyDeadzone = (value: number | undefined): number => {
+  if (value === undefined || Math.abs(value) < GAMEPAD_STICK_DEADZONE) return 0;
+  return Math.sign(value) * (Math.abs(value) - GAMEPAD_STICK_DEADZONE) / (1 - GAMEPAD_STICK_DEADZONE);
+};
+
+// Polls the first connected gamepad. Null when there is none or the browser has no Gamepad API.
+export function readGamepad(): GamepadState | null {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+  const gamepad = Array.from(navigator.getGamepads()).find(pad => pad?.connected);
+  if (!gamepad) return null;
+  const pressedButtons = new Set<number>();
+  gamepad.buttons.forEach((button, index) => {
+    if (button.pressed || button.value > GAMEPAD_BUTTON_THRESHOLD) pressedButtons.add(index);
+  });
+  return {
+    pressedButtons,
+    leftStick: { x: applyDeadzone(gamepad.axes[0]), y: applyDeadzone(gamepad.axes[1]) },
+    rightStick: { x: applyDeadzone(gamepad.axes[2]), y: applyDeadzone(gamepad.axes[3]) },
+  };
+}
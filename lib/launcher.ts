@@ -0,0 +1,72 @@
+import { LauncherAim, LauncherConfig, LevelConfiguration, ProjectileType, ShotConfig } from '../types';
+import {
+  LAUNCHER_PIVOT_HEIGHT, DEFAULT_LAUNCHER_DISTANCE_RATIO, DEFAULT_LAUNCHER_YAW_RANGE, DEFAULT_LAUNCHER_PITCH_RANGE,
+} from '../constants';
+import { getLevelCameraView } from './blockGeometry';
+import { DEG_TO_RAD, RAD_TO_DEG, Vector3Like, clamp, roundTo } from './math';
+
+// Unit vector the barrel points along
+export function getAimDirection(aim: LauncherAim): Vector3Like {
+  const yaw = aim.yaw * DEG_TO_RAD;
+  const pitch = aim.pitch * DEG_TO_RAD;
+  return { x: -Math.sin(yaw) * Math.cos(pitch), y: Math.sin(pitch), z: -Math.cos(yaw) * Math.cos(pitch) };
+}
+
+export function getAimFromDirection(direction: Vector3Like): LauncherAim {
+  const horizontal = Math.hypot(direction.x, direction.z);
+  return {
+    yaw: horizontal > 0 ? Math.atan2(-direction.x, -direction.z) * RAD_TO_DEG : 0,
+    pitch: Math.atan2(direction.y, horizontal) * RAD_TO_DEG,
+  };
+}
+
+// Launcher at `position` with the default ranges, facing `target` and aimed a little above it
+export function createLauncher(position: Vector3Like, target: Vector3Like): LauncherConfig {
+  const towardsTarget = getAimFromDirection({ x: target.x - position.x, y: target.y - position.y, z: target.z - position.z });
+  const yaw = Math.round(towardsTarget.yaw);
+  return {
+    position: { ...position },
+    yaw: { min: yaw - DEFAULT_LAUNCHER_YAW_RANGE, max: yaw + DEFAULT_LAUNCHER_YAW_RANGE, initial: yaw },
+    pitch: { ...DEFAULT_LAUNCHER_PITCH_RANGE, initial: clamp(Math.round(towardsTarget.pitch) + 10, DEFAULT_LAUNCHER_PITCH_RANGE.min, DEFAULT_LAUNCHER_PITCH_RANGE.max) },
+  };
+}
+
+// The level's launcher, or one standing on the ground between the start camera and the structure, facing it
+export function getLevelLauncher(level: Pick<LevelConfiguration, 'structure' | 'cameraPosition' | 'cameraTarget' | 'launcher'>): LauncherConfig {
+  if (level.launcher) return level.launcher;
+
+  const { position: camera, target } = getLevelCameraView(level);
+  return createLauncher({
+    x: roundTo(camera.x + (target.x - camera.x) * DEFAULT_LAUNCHER_DISTANCE_RATIO, 1),
+    y: LAUNCHER_PIVOT_HEIGHT,
+    z: roundTo(camera.z + (target.z - camera.z) * DEFAULT_LAUNCHER_DISTANCE_RATIO, 1),
+  }, target);
+}
+
+// Yaw is first taken the short way round from the middle of the range, so -170° fits a 120°..240° range
+export function clampAim(launcher: LauncherConfig, aim: LauncherAim): LauncherAim {
+  const center = (launcher.yaw.min + launcher.yaw.max) / 2;
+  const yaw = center + ((((aim.yaw - center + 180) % 360) + 360) % 360 - 180);
+  return {
+    yaw: clamp(yaw, launcher.yaw.min, launcher.yaw.max),
+    pitch: clamp(aim.pitch, launcher.pitch.min, launcher.pitch.max),
+  };
+}
+
+export function getInitialAim(launcher: LauncherConfig): LauncherAim {
+  return clampAim(launcher, {
+    yaw: launcher.yaw.initial ?? (launcher.yaw.min + launcher.yaw.max) / 2,
+    pitch: launcher.pitch.initial ?? (launcher.pitch.min + launcher.pitch.max) / 2,
+  });
+}
+
+// Straight at the target, as far as the launcher's range allows (the drop of the shot is not allowed for)
+export function getAimTowards(launcher: LauncherConfig, target: Vector3Like): LauncherAim {
+  const { position } = launcher;
+  return clampAim(launcher, getAimFromDirection({ x: target.x - position.x, y: target.y - position.y, z: target.z - position.z }));
+}
+
+// Shots start at the pivot; the simulation spawns the projectile a barrel's length further along
+export function getLauncherShot(launcher: LauncherConfig, aim: LauncherAim, power: number, projectileType: ProjectileType): ShotConfig {
+  return { projectileType, power, origin: { ...launcher.position }, direction: getAimDirection(aim) };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { repairGeneratedLevel, validateGeneratedLevel } from './levelRepair';
+import { validateLevel } from './levelSchema';
+
+const block = (id: string, y: number, extra: Record<string, unknown> = {}) => ({ id, x: 0, y, z: 0, ...extra });
+
+describe('repairGeneratedLevel', () => {
+  it('returns no level for data it cannot work with', () => {
+    expect(repairGeneratedLevel(null)).toEqual({ level: null, repairs: [] });
+    expect(repairGeneratedLevel([])).toEqual({ level: null, repairs: [] });
+    expect(repairGeneratedLevel({ name: 'x', structure: 'blocks' })).toEqual({ level: null, repairs: [] });
+  });
+
+  it('drops unplaceable blocks and makes the highest block golden', () => {
+    const { level, repairs } = repairGeneratedLevel({
+      name: '탑',
+      initialProjectiles: 5,
+      structure: [block('a', 0.5), block('b', 1.5), 'not a block', { id: 'c', x: 0, y: 'high', z: 0 }],
+    });
+    expect(level!.structure.map(b => b.id)).toEqual(['a', 'b']);
+    expect(level!.structure.find(b => b.isKing)?.id).toBe('b');
+    expect(repairs).toHaveLength(2);
+  });
+
+  it('removes par targets that are not whole numbers', () => {
+    const { level } = repairGeneratedLevel({
+      name: '탑',
+      initialProjectiles: 5,
+      par: { shots: 1.5 },
+      structure: [block('a', 0.5, { isKing: true })],
+    });
+    expect(level!.par).toBeUndefined();
+  });
+
+  it('turns blocks with an unknown shape into cubes', () => {
+    const { level, repairs } = repairGeneratedLevel({
+      name: '탑',
+      initialProjectiles: 5,
+      structure: [block('a', 0.5, { shape: 'pyramid' }), block('b', 1.5, { shape: 'cylinder', isKing: true })],
+    });
+    expect(level!.structure.map(b => b.shape)).toEqual(['cube', 'cylinder']);
+    expect(repairs).toEqual(['Made 1 block(s) with an unknown shape cubes.']);
+  });
+
+  it('returns a level the level schema accepts', () => {
+    const { level, repairs } = repairGeneratedLevel({
+      name: '탑',
+      cameraPosition: 'front',
+      hideTrajectory: 'yes',
+      structure: [block('a', 0.5, { color: -1, isKing: 'yes' }), block('b', 1.5, { color: '#ff0000' })],
+    });
+    expect(validateLevel(level)).toEqual([]);
+    expect(level).not.toHaveProperty('cameraPosition');
+    expect(level!.structure.map(b => b.color)).toEqual([undefined, 0xff0000]);
+    expect(repairs).toContain('Removed invalid cameraPosition, hideTrajectory; the defaults will be used.');
+  });
+
+  it('gives blocks with a repeated id a new one', () => {
+    const { level } = repairGeneratedLevel({
+      name: '벽',
+      initialProjectiles: 5,
+      structure: [block('a', 0.5), { ...block('a', 0.5), x: 3, isKing: true }],
+    });
+    const ids = level!.structure.map(b => b.id);
+    expect(new Set(ids).size).toBe(2);
+  });
+});
+
+describe('validateGeneratedLevel', () => {
+  it('rejects anything but a level object', () => {
+    expect(validateGeneratedLevel('level')).toHaveLength(1);
+    expect(validateGeneratedLevel({ name: '', initialProjectiles: '5', structure: {} })).toHaveLength(3);
+  });
+
+  it('accepts a repaired level', () => {
+    const { level } = repairGeneratedLevel({
+      name: '탑',
+      initialProjectiles: 5,
+      structure: [block('a', 0.5), block('b', 1.5)],
+    });
+    expect(validateGeneratedLevel(level)).toEqual([]);
+  });
+
+  it('passes on what the level schema rejects', () => {
+    const { level } = repairGeneratedLevel({
+      name: '탑',
+      initialProjectiles: 5,
+      structure: [block('a', 0.5, { isKing: true })],
+    });
+    expect(validateGeneratedLevel({ ...level, structure: [{ ...level!.structure[0], rotation: 'upright' }] }))
+      .toEqual(['structure[0].rotation: x, y, z 숫자를 가진 객체여야 합니다.']);
+  });
+});
@@ -0,0 +1,245 @@
+import { BlockConfig, BlockRotation, LevelConfiguration } from '../types';
+import { MAX_GENERATED_BLOCKS, MIN_GENERATED_PROJECTILES, MAX_GENERATED_PROJECTILES, LEVEL_FORMAT_VERSION } from '../constants';
+import { blocksOverlap, getBlockHalfExtents, hasRotation, snapBlockY } from './blockGeometry';
+import { BLOCK_SHAPES, BLOCK_MATERIALS, SPECIAL_BLOCKS, BLOCK_ANCHORS, validateLevel } from './levelSchema';
+import { isObject, isFiniteNumber, isInteger, isOneOf } from './typeGuards';
+
+export interface LevelRepairResult {
+  level: LevelConfiguration | null; // Null when the data isn't an object with a structure array; validation says why
+  repairs: string[]; // Human-readable list of what was changed
+}
+
+type PositionedBlock = Record<string, unknown> & { x: number; y: number; z: number };
+
+// Level fields the game has a default for, so a repair can simply drop them
+const OPTIONAL_LEVEL_FIELDS: (keyof LevelConfiguration)[] = ['initialProjectileCounts', 'cameraPosition', 'cameraTarget', 'gameMessage', 'hideTrajectory', 'launcher'];
+
+
+const isColor = (value: number) => isInteger(value) && value >= 0 && value <= 0xffffff;
+
+const parseColor = (color: unknown): number | undefined => {
+  if (isFiniteNumber(color)) return isColor(color) ? color : undefined;
+  if (typeof color !== 'string') return undefined;
+  const decimal = parseInt(color, 10);
+  if (!isNaN(decimal)) return isColor(decimal) ? decimal : undefined;
+  const hex = parseInt(color.replace(/^(0x|#)/i, ''), 16);
+  return isColor(hex) ? hex : undefined;
+};
+
+// Rotations are snapped to quarter turns, which is all the prompt allows and keeps footprints on the grid
+const parseRotation = (rotation: unknown): BlockRotation | undefined => {
+  if (!isObject(rotation)) return undefined;
+  const { x, y, z } = rotation;
+  const snap = (angle: unknown) => (isFiniteNumber(angle) ? ((Math.round(angle / 90) * 90) % 360 + 360) % 360 : 0);
+  const snapped = { x: snap(x), y: snap(y), z: snap(z) };
+  return hasRotation(snapped) ? snapped : undefined;
+};
+
+// Problems that can't be fixed locally and have to go back to the model. Run after repairGeneratedLevel; once the
+// generation limits are met, the level also has to pass the level schema every other source of levels goes through.
+export function validateGeneratedLevel(data: unknown): string[] {
+  const errors: string[] = [];
+  if (!isObject(data)) {
+    return ['The response must be a single JSON object matching LevelConfiguration.'];
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push('"name" must be a non-empty string.');
+  }
+  if (!isFiniteNumber(data.initialProjectiles)) {
+    errors.push('"initialProjectiles" must be a number.');
+  }
+  if (!Array.isArray(data.structure)) {
+    errors.push('"structure" must be an array of BlockConfig objects.');
+    return errors;
+  }
+  if (data.structure.length === 0) {
+    errors.push('"structure" is empty. It must contain between 5 and 25 blocks.');
+  } else if (data.structure.length > MAX_GENERATED_BLOCKS) {
+    errors.push(`"structure" has ${data.structure.length} blocks, which exceeds the maximum of ${MAX_GENERATED_BLOCKS}. Use ${MAX_GENERATED_BLOCKS} blocks or fewer.`);
+  }
+  data.structure.forEach((block, index) => {
+    if (!isObject(block)) {
+      errors.push(`structure[${index}] is not an object.`);
+    } else if (!isFiniteNumber(block.x) || !isFiniteNumber(block.y) || !isFiniteNumber(block.z)) {
+      errors.push(`structure[${index}] (id "${block.id}") must have numeric x, y and z.`);
+    }
+  });
+  const kingCount = data.structure.filter(block => isObject(block) && block.isKing).length;
+  if (data.structure.length > 0 && kingCount !== 1) {
+    errors.push(`Exactly one block must have "isKing": true, but ${kingCount} do.`);
+  }
+  if (errors.length === 0) {
+    validateLevel(data).forEach(error => errors.push(`${error.path || 'level'}: ${error.message}`));
+  }
+  return errors;
+}
+
+// Fixes what can safely be fixed without asking the model again: ids, colors, shapes,
+// off-grid Y values, overlapping blocks, the golden block count, the projectile count and optional level fields
+// the level schema would reject.
+export function repairGeneratedLevel(data: unknown): LevelRepairResult {
+  const repairs: string[] = [];
+  if (!isObject(data) || !Array.isArray(data.structure)) {
+    return { level: null, repairs };
+  }
+  const { structure: rawStructure, par, ...fields } = data;
+  const level: LevelConfiguration = {
+    ...fields,
+    formatVersion: LEVEL_FORMAT_VERSION,
+    levelId: (typeof data.levelId === 'string' && data.levelId !== '') || isFiniteNumber(data.levelId)
+      ? data.levelId
+      : `ai_level_${Date.now()}_${Math.random().toString(36).substring(7)}`,
+    name: typeof data.name === 'string' ? data.name : '',
+    initialProjectiles: MAX_GENERATED_PROJECTILES,
+    structure: [],
+  };
+
+  if (isFiniteNumber(data.initialProjectiles)) {
+    const clamped = Math.min(MAX_GENERATED_PROJECTILES, Math.max(MIN_GENERATED_PROJECTILES, Math.round(data.initialProjectiles)));
+    if (clamped !== data.initialProjectiles) {
+      repairs.push(`Clamped initialProjectiles from ${data.initialProjectiles} to ${clamped}.`);
+    }
+    level.initialProjectiles = clamped;
+  } else {
+    repairs.push(`Set the missing initialProjectiles to ${MAX_GENERATED_PROJECTILES}.`);
+  }
+
+  if (par !== undefined) {
+    const isValidTarget = (value: unknown): value is number | undefined => value === undefined || (isInteger(value) && value >= 0);
+    if (isObject(par) && isValidTarget(par.shots) && isValidTarget(par.projectilesRemaining) && isValidTarget(par.blocksToppled)) {
+      level.par = { shots: par.shots, projectilesRemaining: par.projectilesRemaining, blocksToppled: par.blocksToppled };
+    } else {
+      repairs.push('Removed invalid par targets; the default par will be used.');
+    }
+  }
+
+  const positionedBlocks = rawStructure.filter((block): block is PositionedBlock =>
+    isObject(block) && isFiniteNumber(block.x) && isFiniteNumber(block.y) && isFiniteNumber(block.z));
+  if (positionedBlocks.length < rawStructure.length) {
+    repairs.push(`Dropped ${rawStructure.length - positionedBlocks.length} block(s) without numeric x, y and z.`);
+  }
+
+  const seenIds = new Set<string>();
+  let snappedCount = 0;
+  let unknownShapeCount = 0;
+  let unknownMaterialCount = 0;
+  let invalidHealthCount = 0;
+  let unknownSpecialCount = 0;
+  let unknownAnchorCount = 0;
+  let structure: BlockConfig[] = positionedBlocks
+    .map((rawBlock, index) => {
+      const rawId = typeof rawBlock.id === 'string' || isFiniteNumber(rawBlock.id) ? String(rawBlock.id) : '';
+      const id = rawId && !seenIds.has(rawId) ? rawId : `ai_block_${Date.now()}_${index}`;
+      seenIds.add(id);
+      const block: BlockConfig = { id, x: rawBlock.x, y: rawBlock.y, z: rawBlock.z, shape: 'cube' };
+      if (rawBlock.isKing === true) block.isKing = true;
+
+      if (isOneOf(BLOCK_SHAPES, rawBlock.shape)) block.shape = rawBlock.shape;
+      else if (rawBlock.shape !== undefined) unknownShapeCount++;
+
+      const color = parseColor(rawBlock.color);
+      if (color !== undefined) block.color = color;
+
+      if (isOneOf(BLOCK_MATERIALS, rawBlock.material)) block.material = rawBlock.material;
+      else if (rawBlock.material !== undefined) unknownMaterialCount++;
+
+      if (isOneOf(SPECIAL_BLOCKS, rawBlock.special)) block.special = rawBlock.special;
+      else if (rawBlock.special !== undefined) unknownSpecialCount++;
+
+      if (isOneOf(BLOCK_ANCHORS, rawBlock.anchor)) block.anchor = rawBlock.anchor;
+      else if (rawBlock.anchor !== undefined) unknownAnchorCount++;
+
+      if (isFiniteNumber(rawBlock.health) && rawBlock.health > 0) block.health = rawBlock.health;
+      else if (rawBlock.health !== undefined) invalidHealthCount++;
+
+      if (block.anchor === 'static') {
+        // Static blocks can't break or explode, so these would only fail validation
+        delete block.special;
+        delete block.health;
+      }
+
+      const rotation = parseRotation(rawBlock.rotation);
+      if (rotation !== undefined) block.rotation = rotation;
+
+      const snappedY = snapBlockY(block.y, getBlockHalfExtents(block.shape, block.rotation).y);
+      if (Math.abs(snappedY - block.y) > 1e-6) {
+        block.y = snappedY;
+        snappedCount++;
+      }
+      return block;
+    });
+  if (unknownShapeCount > 0) {
+    repairs.push(`Made ${unknownShapeCount} block(s) with an unknown shape cubes.`);
+  }
+  if (unknownMaterialCount > 0) {
+    repairs.push(`Reset ${unknownMaterialCount} block(s) with an unknown material to the default (wood).`);
+  }
+  if (unknownSpecialCount > 0) {
+    repairs.push(`Turned ${unknownSpecialCount} block(s) with an unknown special type into plain blocks.`);
+  }
+  if (unknownAnchorCount > 0) {
+    repairs.push(`Made ${unknownAnchorCount} block(s) with an unknown anchor free-standing.`);
+  }
+  if (invalidHealthCount > 0) {
+    repairs.push(`Removed invalid health from ${invalidHealthCount} block(s); they use their material's default.`);
+  }
+  if (snappedCount > 0) {
+    repairs.push(`Snapped ${snappedCount} block Y value(s) so each block rests on a whole-unit layer.`);
+  }
+
+  const kings = structure.filter(b => b.isKing);
+  if (kings.length === 0 && structure.length > 0) {
+    // The highest block is almost always the one the design is built around
+    const topBlock = structure.reduce((top, b) => (b.y > top.y ? b : top), structure[0]);
+    structure = structure.map(b => (b === topBlock ? { ...b, isKing: true } : b));
+    repairs.push(`No golden block was set; made the highest block ("${topBlock.id}") the golden block.`);
+  } else if (kings.length > 1) {
+    structure = structure.map(b => (b.isKing && b !== kings[0] ? { ...b, isKing: false } : b));
+    repairs.push(`Kept one golden block ("${kings[0].id}") out of ${kings.length}.`);
+  }
+  const explosiveKing = structure.find(b => b.isKing && b.special);
+  if (explosiveKing) {
+    structure = structure.map(b => {
+      if (b !== explosiveKing) return b;
+      const { special, ...plainKing } = b;
+      return plainKing;
+    });
+    repairs.push(`The golden block ("${explosiveKing.id}") cannot be a special block; made it a plain block.`);
+  }
+  const anchoredKing = structure.find(b => b.isKing && b.anchor);
+  if (anchoredKing) {
+    structure = structure.map(b => {
+      if (b !== anchoredKing) return b;
+      const { anchor, ...freeKing } = b;
+      return freeKing;
+    });
+    repairs.push(`The golden block ("${anchoredKing.id}") cannot be anchored; made it free-standing.`);
+  }
+
+  // The golden block goes first so it always survives overlap removal
+  const ordered = [...structure.filter(b => b.isKing), ...structure.filter(b => !b.isKing)];
+  const kept: BlockConfig[] = [];
+  const removedIds: string[] = [];
+  ordered.forEach(block => {
+    if (kept.some(other => blocksOverlap(block, other))) {
+      removedIds.push(block.id);
+    } else {
+      kept.push(block);
+    }
+  });
+  if (removedIds.length > 0) {
+    structure = structure.filter(b => !removedIds.includes(b.id));
+    repairs.push(`Removed ${removedIds.length} overlapping block(s): ${removedIds.join(', ')}.`);
+  }
+
+  level.structure = structure;
+
+  const schemaErrors = validateLevel(level);
+  const invalidFields = OPTIONAL_LEVEL_FIELDS.filter(field =>
+    schemaErrors.some(error => error.path === field || error.path.startsWith(`${field}.`)));
+  if (invalidFields.length > 0) {
+    invalidFields.forEach(field => delete level[field]);
+    repairs.push(`Removed invalid ${invalidFields.join(', ')}; the defaults will be used.`);
+  }
+  return { level, repairs };
+}
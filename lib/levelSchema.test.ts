@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { LEVEL_FORMAT_VERSION } from '../constants';
+import { LEVEL_CONFIGS } from '../levels';
+import { BLOCK_FRAGMENT_KIND, isBlockFragmentText, parseBlockFragment, parseLevel, parseLevelLibrary, validateLevel } from './levelSchema';
+
+const current = { ...LEVEL_CONFIGS[0], formatVersion: LEVEL_FORMAT_VERSION };
+
+// Written before levels had a format version: string colours and projectile counts, blocks without ids or shapes
+const legacy = {
+  levelId: 'old',
+  name: '옛 성',
+  initialProjectiles: '4',
+  structure: [
+    { x: 0, y: 0.5, z: 0, color: '#8b4513' },
+    { x: 0, y: 1.5, z: 0, color: '0xffd700', isKing: true },
+  ],
+};
+
+describe('parseLevel', () => {
+  it('migrates a version 0 file to the current version', () => {
+    const parsed = parseLevel(legacy);
+    expect(parsed).toMatchObject({ ok: true, migratedFrom: 0 });
+    if (!parsed.ok) return;
+    expect(parsed.level.formatVersion).toBe(LEVEL_FORMAT_VERSION);
+    expect(parsed.level.initialProjectiles).toBe(4);
+    expect(parsed.level.structure).toEqual([
+      { id: 'imported_block_0', x: 0, y: 0.5, z: 0, shape: 'cube', color: 0x8b4513 },
+      { id: 'imported_block_1', x: 0, y: 1.5, z: 0, shape: 'cube', color: 0xffd700, isKing: true },
+    ]);
+  });
+
+  it('leaves a current level as it is and drops an exported thumbnail', () => {
+    const parsed = parseLevel({ ...current, thumbnail: 'data:image/png;base64,' });
+    expect(parsed).toEqual({ ok: true, level: current });
+  });
+
+  it('rejects files from a newer version and versions that are not whole numbers', () => {
+    const newer = parseLevel({ ...current, formatVersion: LEVEL_FORMAT_VERSION + 1 });
+    expect(newer.ok).toBe(false);
+    if (!newer.ok) expect(newer.errors[0].path).toBe('formatVersion');
+    expect(parseLevel({ ...current, formatVersion: 1.5 })).toMatchObject({ ok: false, errors: [{ path: 'formatVersion' }] });
+    expect(parseLevel({ ...current, formatVersion: '9' })).toMatchObject({ ok: false, errors: [{ path: 'formatVersion' }] });
+  });
+});
+
+describe('validateLevel', () => {
+  it('reports every problem with the path of its field', () => {
+    const errors = validateLevel({
+      ...current,
+      initialProjectiles: 0,
+      par: { shots: -1 },
+      structure: [
+        { id: 'a', x: 0, y: '1', z: 0, shape: 'pyramid', isKing: true },
+        { id: 'a', x: 1, y: 0.5, z: 0, material: 'cheese', anchor: 'static', health: 2 },
+      ],
+    });
+    expect(errors.map(error => error.path)).toEqual([
+      'initialProjectiles',
+      'par.shots',
+      'structure[0].y',
+      'structure[0].shape',
+      'structure[1].material',
+      'structure[1].anchor',
+      'structure[1].id',
+    ]);
+  });
+
+  it('needs exactly one golden block', () => {
+    const structure = current.structure.map(block => ({ ...block, isKing: false }));
+    expect(validateLevel({ ...current, structure })).toEqual([{ path: 'structure', message: expect.stringContaining('0개') }]);
+  });
+});
+
+describe('parseLevelLibrary', () => {
+  it('keeps the valid levels and reports the rest by index', () => {
+    const { levels, rejected } = parseLevelLibrary([current, { name: '깨진 레벨', structure: 'none' }]);
+    expect(levels).toEqual([current]);
+    expect(rejected).toMatchObject([{ index: 1, name: '깨진 레벨' }]);
+  });
+});
+
+describe('parseBlockFragment', () => {
+  it('migrates the blocks of an older fragment', () => {
+    const fragment = parseBlockFragment({ kind: BLOCK_FRAGMENT_KIND, origin: { x: 0, y: 0, z: 0 }, blocks: [{ x: 0, y: 0.5, z: 0 }] });
+    expect(fragment.blocks).toEqual([{ id: 'imported_block_0', x: 0, y: 0.5, z: 0, shape: 'cube' }]);
+  });
+
+  it('throws for other data and invalid blocks', () => {
+    expect(() => parseBlockFragment(current)).toThrow();
+    expect(() => parseBlockFragment({
+      kind: BLOCK_FRAGMENT_KIND,
+      formatVersion: LEVEL_FORMAT_VERSION,
+      origin: { x: 0, y: 0, z: 0 },
+      blocks: [{ id: 'a', x: 0, y: 0.5 }],
+    })).toThrow('blocks[0].z');
+  });
+});
+
+describe('isBlockFragmentText', () => {
+  it('only claims JSON marked as a block fragment', () => {
+    expect(isBlockFragmentText(JSON.stringify({ kind: BLOCK_FRAGMENT_KIND, blocks: [] }))).toBe(true);
+    expect(isBlockFragmentText(JSON.stringify(current))).toBe(false);
+    expect(isBlockFragmentText('castleBreakerBlocks')).toBe(false);
+    expect(isBlockFragmentText('')).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+import { BlockAnchor, BlockConfig, BlockFragment, BlockMaterial, BlockShape, LevelConfiguration, ProjectileType, SpecialBlockType } from '../types';
+import { BLOCK_MATERIALS_CONFIG, BLOCK_ANCHORS_CONFIG, SPECIAL_BLOCKS_CONFIG, LEVEL_FORMAT_VERSION } from '../constants';
+import { isObject, isFiniteNumber, isInteger, isOneOf } from './typeGuards';
+
+export interface LevelSchemaError {
+  path: string; // e.g. "structure[3].x"; empty for the level itself
+  message: string;
+}
+
+export type LevelParseResult =
+  | { ok: true; level: LevelConfiguration; migratedFrom?: number } // migratedFrom is set when an older file was upgraded
+  | { ok: false; errors: LevelSchemaError[] };
+
+export interface LevelLibraryParseResult {
+  levels: LevelConfiguration[];
+  rejected: { index: number; name?: string; errors: LevelSchemaError[] }[];
+}
+
+export const BLOCK_SHAPES: BlockShape[] = ['cube', 'cylinder', 'sphere', 'cube_2x1x1', 'cube_3x1x1'];
+export const BLOCK_MATERIALS: BlockMaterial[] = BLOCK_MATERIALS_CONFIG.map(material => material.id);
+export const SPECIAL_BLOCKS: SpecialBlockType[] = SPECIAL_BLOCKS_CONFIG.map(special => special.id);
+export const BLOCK_ANCHORS: BlockAnchor[] = BLOCK_ANCHORS_CONFIG.map(anchor => anchor.id);
+const PROJECTILE_TYPES = Object.values(ProjectileType);
+
+export const BLOCK_FRAGMENT_KIND: BlockFragment['kind'] = 'castleBreakerBlocks';
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version n level to version n + 1. Files written before versioning count as version 0.
+
+const parseLegacyColor = (color: unknown): unknown => {
+  if (typeof color !== 'string') return color;
+  const hex = parseInt(color.replace(/^(0x|#)/i, ''), 16);
+  return isNaN(hex) ? color : hex;
+};
+
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0 -> v1: the old importers patched these up on load, so older files may rely on it
+  0: data => ({
+    ...data,
+    initialProjectiles: typeof data.initialProjectiles === 'string' ? Number(data.initialProjectiles) : data.initialProjectiles,
+    structure: Array.isArray(data.structure)
+      ? data.structure.map((block, index) => isObject(block) ? {
+          ...block,
+          id: block.id || `imported_block_${index}`,
+          shape: block.shape || 'cube',
+          color: parseLegacyColor(block.color),
+        } : block)
+      : data.structure,
+  }),
+  // v1 -> v2: blocks gained an optional rotation; existing blocks keep the default orientation
+  1: data => data,
+  // v2 -> v3: blocks gained an optional material; existing blocks stay wood
+  2: data => data,
+  // v3 -> v4: blocks gained optional health; existing blocks take their material's default
+  3: data => data,
+  // v4 -> v5: blocks gained an optional special type (explosive barrels, TNT); existing blocks are plain
+  4: data => data,
+  // v5 -> v6: blocks gained an optional anchor (static or pinned); existing blocks stay free
+  5: data => data,
+  // v6 -> v7: levels gained optional par targets for star ratings; existing levels use the default par
+  6: data => data,
+  // v7 -> v8: levels gained an optional hideTrajectory (hard mode) flag; existing levels keep the preview
+  7: data => data,
+  // v8 -> v9: levels gained an optional launcher; existing levels get a default one in front of the camera
+  8: data => data,
+};
+
+// NaN when the version isn't a number; callers reject anything that isn't a whole number
+export function getLevelFormatVersion(data: Record<string, unknown>): number {
+  if (data.formatVersion === undefined) return 0;
+  return typeof data.formatVersion === 'number' ? data.formatVersion : NaN;
+}
+
+// Runs every migration between the file's version and LEVEL_FORMAT_VERSION. Validate afterwards.
+export function migrateLevel(data: Record<string, unknown>): Record<string, unknown> {
+  let migrated = data;
+  for (let version = getLevelFormatVersion(data); version < LEVEL_FORMAT_VERSION; version++) {
+    migrated = { ...MIGRATIONS[version](migrated), formatVersion: version + 1 };
+  }
+  return migrated;
+}
+
+// --- Validation ---
+
+function validateVector(value: unknown, path: string, errors: LevelSchemaError[]) {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    errors.push({ path, message: 'x, y, z 숫자를 가진 객체여야 합니다.' });
+    return;
+  }
+  (['x', 'y', 'z'] as const).forEach(axis => {
+    if (!isFiniteNumber(value[axis])) errors.push({ path: `${path}.${axis}`, message: '숫자여야 합니다.' });
+  });
+}
+
+function validateBlock(block: unknown, path: string, errors: LevelSchemaError[]) {
+  if (!isObject(block)) {
+    errors.push({ path, message: '블록 객체여야 합니다.' });
+    return;
+  }
+  if (typeof block.id !== 'string' || block.id === '') {
+    errors.push({ path: `${path}.id`, message: '비어 있지 않은 문자열이어야 합니다.' });
+  }
+  (['x', 'y', 'z'] as const).forEach(axis => {
+    if (!isFiniteNumber(block[axis])) errors.push({ path: `${path}.${axis}`, message: '숫자여야 합니다.' });
+  });
+  if (block.shape !== undefined && !isOneOf(BLOCK_SHAPES, block.shape)) {
+    errors.push({ path: `${path}.shape`, message: `알 수 없는 모양 "${block.shape}"입니다. (${BLOCK_SHAPES.join(', ')} 중 하나)` });
+  }
+  if (block.material !== undefined && !isOneOf(BLOCK_MATERIALS, block.material)) {
+    errors.push({ path: `${path}.material`, message: `알 수 없는 재질 "${block.material}"입니다. (${BLOCK_MATERIALS.join(', ')} 중 하나)` });
+  }
+  if (block.special !== undefined && !isOneOf(SPECIAL_BLOCKS, block.special)) {
+    errors.push({ path: `${path}.special`, message: `알 수 없는 특수 블록 "${block.special}"입니다. (${SPECIAL_BLOCKS.join(', ')} 중 하나)` });
+  } else if (block.special !== undefined && block.isKing === true) {
+    errors.push({ path: `${path}.special`, message: '황금 블록은 특수 블록일 수 없습니다.' });
+  }
+  if (block.anchor !== undefined && !isOneOf(BLOCK_ANCHORS, block.anchor)) {
+    errors.push({ path: `${path}.anchor`, message: `알 수 없는 고정 방식 "${block.anchor}"입니다. (${BLOCK_ANCHORS.join(', ')} 중 하나)` });
+  } else if (block.anchor !== undefined && block.isKing === true) {
+    errors.push({ path: `${path}.anchor`, message: '황금 블록은 고정할 수 없습니다.' });
+  } else if (block.anchor === 'static' && (block.special !== undefined || block.health !== undefined)) {
+    errors.push({ path: `${path}.anchor`, message: '고정(static) 블록에는 special이나 health를 지정할 수 없습니다.' });
+  }
+  if (block.health !== undefined && !(isFiniteNumber(block.health) && block.health > 0)) {
+    errors.push({ path: `${path}.health`, message: '0보다 큰 숫자여야 합니다.' });
+  }
+  if (block.rotation !== undefined) {
+    validateVector(block.rotation, `${path}.rotation`, errors);
+  }
+  if (block.isKing !== undefined && typeof block.isKing !== 'boolean') {
+    errors.push({ path: `${path}.isKing`, message: 'true 또는 false여야 합니다.' });
+  }
+  if (block.color !== undefined && !(isInteger(block.color) && block.color >= 0 && block.color <= 0xffffff)) {
+    errors.push({ path: `${path}.color`, message: '0x000000~0xffffff 범위의 정수여야 합니다.' });
+  }
+}
+
+function validateAngleRange(value: unknown, path: string, limit: number, errors: LevelSchemaError[]) {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'min, max 숫자를 가진 객체여야 합니다.' });
+    return;
+  }
+  (['min', 'max'] as const).forEach(key => {
+    if (!isFiniteNumber(value[key])) errors.push({ path: `${path}.${key}`, message: '숫자여야 합니다.' });
+    else if (Math.abs(value[key]) > limit) errors.push({ path: `${path}.${key}`, message: `-${limit}~${limit} 범위여야 합니다.` });
+  });
+  if (isFiniteNumber(value.min) && isFiniteNumber(value.max) && value.min > value.max) {
+    errors.push({ path, message: 'min은 max보다 클 수 없습니다.' });
+  }
+  if (value.initial !== undefined && !isFiniteNumber(value.initial)) {
+    errors.push({ path: `${path}.initial`, message: '숫자여야 합니다.' });
+  }
+}
+
+function validateLauncher(launcher: unknown, errors: LevelSchemaError[]) {
+  if (!isObject(launcher)) {
+    errors.push({ path: 'launcher', message: '발사대 객체여야 합니다.' });
+    return;
+  }
+  if (launcher.position === undefined) errors.push({ path: 'launcher.position', message: '발사대 위치가 필요합니다.' });
+  validateVector(launcher.position, 'launcher.position', errors);
+  validateAngleRange(launcher.yaw, 'launcher.yaw', 360, errors);
+  validateAngleRange(launcher.pitch, 'launcher.pitch', 90, errors);
+}
+
+// Checks a level that is already at LEVEL_FORMAT_VERSION. Returns every problem found rather than stopping at the first.
+export function validateLevel(data: unknown): LevelSchemaError[] {
+  if (!isObject(data)) return [{ path: '', message: '레벨은 JSON 객체여야 합니다.' }];
+  const errors: LevelSchemaError[] = [];
+
+  if (data.formatVersion !== LEVEL_FORMAT_VERSION) {
+    errors.push({ path: 'formatVersion', message: `지원하는 버전은 ${LEVEL_FORMAT_VERSION}입니다.` });
+  }
+  if (!((typeof data.levelId === 'string' && data.levelId !== '') || isFiniteNumber(data.levelId))) {
+    errors.push({ path: 'levelId', message: '비어 있지 않은 문자열 또는 숫자여야 합니다.' });
+  }
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push({ path: 'name', message: '비어 있지 않은 문자열이어야 합니다.' });
+  }
+  if (!isInteger(data.initialProjectiles) || data.initialProjectiles < 1) {
+    errors.push({ path: 'initialProjectiles', message: '1 이상의 정수여야 합니다.' });
+  }
+  if (data.initialProjectileCounts !== undefined) {
+    if (!isObject(data.initialProjectileCounts)) {
+      errors.push({ path: 'initialProjectileCounts', message: '발사체 종류별 개수 객체여야 합니다.' });
+    } else {
+      Object.entries(data.initialProjectileCounts).forEach(([type, count]) => {
+        const path = `initialProjectileCounts.${type}`;
+        if (!isOneOf(PROJECTILE_TYPES, type)) errors.push({ path, message: '알 수 없는 발사체 종류입니다.' });
+        else if (!isInteger(count) || count < 0) errors.push({ path, message: '0 이상의 정수여야 합니다.' });
+      });
+    }
+  }
+  validateVector(data.cameraPosition, 'cameraPosition', errors);
+  validateVector(data.cameraTarget, 'cameraTarget', errors);
+  if (data.gameMessage !== undefined && typeof data.gameMessage !== 'string') {
+    errors.push({ path: 'gameMessage', message: '문자열이어야 합니다.' });
+  }
+  if (data.hideTrajectory !== undefined && typeof data.hideTrajectory !== 'boolean') {
+    errors.push({ path: 'hideTrajectory', message: 'true 또는 false여야 합니다.' });
+  }
+  if (data.launcher !== undefined) validateLauncher(data.launcher, errors);
+  const { par } = data;
+  if (par !== undefined) {
+    if (!isObject(par)) {
+      errors.push({ path: 'par', message: '파 목표 객체여야 합니다.' });
+    } else {
+      (['shots', 'projectilesRemaining', 'blocksToppled'] as const).forEach(key => {
+        const value = par[key];
+        if (value !== undefined && (!isInteger(value) || value < 0)) {
+          errors.push({ path: `par.${key}`, message: '0 이상의 정수여야 합니다.' });
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(data.structure)) {
+    errors.push({ path: 'structure', message: '블록 배열이어야 합니다.' });
+    return errors;
+  }
+  data.structure.forEach((block, index) => validateBlock(block, `structure[${index}]`, errors));
+
+  const seenIds = new Set<string>();
+  data.structure.forEach((block, index) => {
+    if (!isObject(block) || typeof block.id !== 'string') return;
+    if (seenIds.has(block.id)) errors.push({ path: `structure[${index}].id`, message: `"${block.id}" ID가 중복됩니다.` });
+    seenIds.add(block.id);
+  });
+  const kingCount = data.structure.filter(block => isObject(block) && block.isKing === true).length;
+  if (kingCount !== 1) {
+    errors.push({ path: 'structure', message: `황금 블록(isKing)은 정확히 하나여야 합니다. 현재 ${kingCount}개입니다.` });
+  }
+  return errors;
+}
+
+// --- Entry points for imported data ---
+
+// Single entry point for level JSON from any source: migrates older files, then validates.
+export function parseLevel(data: unknown): LevelParseResult {
+  if (!isObject(data)) return { ok: false, errors: validateLevel(data) };
+  const version = getLevelFormatVersion(data);
+  if (!isInteger(version) || version < 0) {
+    return { ok: false, errors: [{ path: 'formatVersion', message: '0 이상의 정수여야 합니다.' }] };
+  }
+  if (version > LEVEL_FORMAT_VERSION) {
+    return { ok: false, errors: [{ path: 'formatVersion', message: `버전 ${version} 파일은 이 게임(버전 ${LEVEL_FORMAT_VERSION})보다 새 버전입니다. 게임을 업데이트하세요.` }] };
+  }
+  // Exported files may carry a rendered thumbnail (lib/levelThumbnail.ts); it is regenerated locally, never stored
+  const { thumbnail, ...levelData } = data;
+  const migrated = migrateLevel(levelData);
+  const errors = validateLevel(migrated);
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    level: migrated as unknown as LevelConfiguration, // Every field was just checked by validateLevel
+    ...(version < LEVEL_FORMAT_VERSION && { migratedFrom: version }),
+  };
+}
+
+// Parses a library file (an array of levels). Invalid levels are reported individually instead of failing the whole file;
+// only a file that isn't an array at all throws.
+export function parseLevelLibrary(data: unknown): LevelLibraryParseResult {
+  if (!Array.isArray(data)) {
+    throw new Error("레벨 배열 형식이 아닙니다.");
+  }
+  const result: LevelLibraryParseResult = { levels: [], rejected: [] };
+  data.forEach((entry, index) => {
+    const parsed = parseLevel(entry);
+    if (parsed.ok) {
+      result.levels.push(parsed.level);
+    } else {
+      result.rejected.push({ index, name: isObject(entry) && typeof entry.name === 'string' ? entry.name : undefined, errors: parsed.errors });
+    }
+  });
+  return result;
+}
+
+// True when the text is JSON marked as a block fragment, valid or not, so the editor knows the paste is meant for it
+export function isBlockFragmentText(text: string): boolean {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isObject(data) && data.kind === BLOCK_FRAGMENT_KIND;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Parses a block fragment pasted into the editor. Older fragments are migrated like level files; invalid ones throw.
+export function parseBlockFragment(data: unknown): Pick<BlockFragment, 'origin' | 'blocks'> {
+  if (!isObject(data) || data.kind !== BLOCK_FRAGMENT_KIND) {
+    throw new Error("블록 조각 형식이 아닙니다.");
+  }
+  const version = getLevelFormatVersion(data);
+  if (!isInteger(version) || version < 0 || version > LEVEL_FORMAT_VERSION) {
+    throw new Error(`지원하지 않는 블록 조각 버전입니다. (${version})`);
+  }
+  const { structure } = migrateLevel({ formatVersion: version, structure: data.blocks });
+  const errors: LevelSchemaError[] = [];
+  if (data.origin === undefined) errors.push({ path: 'origin', message: 'x, y, z 숫자를 가진 객체여야 합니다.' });
+  validateVector(data.origin, 'origin', errors);
+  if (!Array.isArray(structure) || structure.length === 0) {
+    errors.push({ path: 'blocks', message: '블록이 하나 이상 있는 배열이어야 합니다.' });
+  } else {
+    structure.forEach((block, index) => validateBlock(block, `blocks[${index}]`, errors));
+  }
+  if (errors.length > 0) {
+    throw new Error(`잘못된 블록 조각입니다.\n${formatLevelSchemaErrors(errors)}`);
+  }
+  return { origin: data.origin as BlockFragment['origin'], blocks: structure as BlockConfig[] };
+}
+
+export function describeRejectedLevels(rejected: LevelLibraryParseResult['rejected']): string {
+  return rejected
+    .map(({ index, name, errors }) => `#${index + 1} ${name ?? '(이름 없음)'}\n${formatLevelSchemaErrors(errors, 3)}`)
+    .join('\n\n');
+}
+
+export function formatLevelSchemaErrors(errors: LevelSchemaError[], limit = 5): string {
+  const lines = errors.slice(0, limit).map(error => error.path ? `${error.path}: ${error.message}` : error.message);
+  if (errors.length > limit) lines.push(`외 ${errors.length - limit}개 오류`);
+  return lines.join('\n');
+}
@@ -0,0 +1,130 @@
+import * as THREE from 'three';
+import { LevelConfiguration } from '../types';
+import { LEVEL_THUMBNAIL_WIDTH, LEVEL_THUMBNAIL_HEIGHT, MAX_CACHED_THUMBNAILS } from '../constants';
+import { getLevelCameraView } from './blockGeometry';
+import { createAnchorOutline, createBlockGeometry, createBlockMaterial } from './blockMeshes';
+import { DEG_TO_RAD } from './math';
+
+// Preview images of levels, rendered offscreen from the level's structure and camera fields.
+// Thumbnails are PNG data URLs cached by a hash of what they show, so renaming or re-saving a level reuses its image.
+
+type ThumbnailSource = Pick<LevelConfiguration, 'structure' | 'cameraPosition' | 'cameraTarget'>;
+
+const thumbnailCache = new Map<string, string>(); // Content hash -> data URL, oldest first
+let sharedRenderer: THREE.WebGLRenderer | null = null;
+let isRendererUnavailable = false; // WebGL failed once; don't keep retrying
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+// FNV-1a over the fields that affect the picture
+export function getLevelContentHash(level: ThumbnailSource): string {
+  const content = JSON.stringify([level.structure, level.cameraPosition ?? null, level.cameraTarget ?? null]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, '0')}-${content.length.toString(36)}`;
+}
+
+const getRenderer = (): THREE.WebGLRenderer | null => {
+  if (sharedRenderer || isRendererUnavailable) return sharedRenderer;
+  try {
+    // One renderer for every thumbnail; browsers only allow a handful of WebGL contexts at once
+    sharedRenderer = new THREE.WebGLRenderer({ antialias: true, preserveDrawingBuffer: true });
+    sharedRenderer.setPixelRatio(1);
+    sharedRenderer.setSize(LEVEL_THUMBNAIL_WIDTH, LEVEL_THUMBNAIL_HEIGHT, false);
+  } catch (error) {
+    console.error("Level thumbnails are unavailable, WebGL could not be started:", error);
+    isRendererUnavailable = true;
+  }
+  return sharedRenderer;
+};
+
+const disposeScene = (scene: THREE.Scene) => {
+  scene.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      object.geometry.dispose();
+      (object.material as THREE.Material).dispose();
+    }
+  });
+};
+
+// Same lighting, ground and camera as the game view, minus shadows
+const renderThumbnail = (renderer: THREE.WebGLRenderer, level: ThumbnailSource): string => {
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0x2d3748);
+  scene.add(new THREE.AmbientLight(0xffffff, 0.6));
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
+  directionalLight.position.set(5, 10, 7.5);
+  scene.add(directionalLight);
+
+  const ground = new THREE.Mesh(new THREE.PlaneGeometry(50, 50), new THREE.MeshStandardMaterial({ color: 0x4a5568, roughness: 0.8, metalness: 0.2 }));
+  ground.rotation.x = -Math.PI / 2;
+  scene.add(ground);
+
+  level.structure.forEach(block => {
+    const mesh = new THREE.Mesh(createBlockGeometry(block.shape), createBlockMaterial(block));
+    if (block.anchor) {
+      mesh.add(createAnchorOutline(mesh.geometry, block.anchor));
+    }
+    mesh.position.set(block.x, block.y, block.z);
+    if (block.rotation) {
+      mesh.rotation.set(block.rotation.x * DEG_TO_RAD, block.rotation.y * DEG_TO_RAD, block.rotation.z * DEG_TO_RAD);
+    }
+    scene.add(mesh);
+  });
+
+  const { position, target } = getLevelCameraView(level);
+  const camera = new THREE.PerspectiveCamera(75, LEVEL_THUMBNAIL_WIDTH / LEVEL_THUMBNAIL_HEIGHT, 0.1, 1000);
+  camera.position.set(position.x, position.y, position.z);
+  camera.lookAt(target.x, target.y, target.z);
+
+  try {
+    renderer.render(scene, camera);
+    return renderer.domElement.toDataURL('image/png');
+  } finally {
+    disposeScene(scene);
+  }
+};
+
+export function getCachedLevelThumbnail(level: ThumbnailSource): string | undefined {
+  return thumbnailCache.get(getLevelContentHash(level));
+}
+
+// Returns the thumbnail, rendering it now if it isn't cached. Null when WebGL is unavailable.
+export function getLevelThumbnail(level: ThumbnailSource): string | null {
+  const hash = getLevelContentHash(level);
+  const cached = thumbnailCache.get(hash);
+  if (cached) return cached;
+
+  const renderer = getRenderer();
+  if (!renderer) return null;
+  try {
+    const thumbnail = renderThumbnail(renderer, level);
+    thumbnailCache.set(hash, thumbnail);
+    if (thumbnailCache.size > MAX_CACHED_THUMBNAILS) {
+      thumbnailCache.delete(thumbnailCache.keys().next().value!);
+    }
+    return thumbnail;
+  } catch (error) {
+    console.error("Error rendering level thumbnail:", error);
+    return null;
+  }
+}
+
+// Exported level files carry their thumbnail so other tools can show a preview; parseLevel drops it again on import
+export function withThumbnail(level: LevelConfiguration): LevelConfiguration & { thumbnail?: string } {
+  const thumbnail = getLevelThumbnail(level);
+  return thumbnail ? { ...level, thumbnail } : level;
+}
+
+// Like getLevelThumbnail, but renders at most one uncached thumbnail per frame so opening a long list doesn't stall
+export function loadLevelThumbnail(level: ThumbnailSource): Promise<string | null> {
+  const cached = getCachedLevelThumbnail(level);
+  if (cached) return Promise.resolve(cached);
+  const result = renderQueue.then(() => new Promise<string | null>(resolve => {
+    requestAnimationFrame(() => resolve(getLevelThumbnail(level)));
+  }));
+  renderQueue = result;
+  return result;
+}
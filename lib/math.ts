@@ -0,0 +1,10 @@
+// Small numeric helpers shared by the simulation, the renderers and the editor
+
+export type Vector3Like = { x: number; y: number; z: number };
+
+export const DEG_TO_RAD = Math.PI / 180;
+export const RAD_TO_DEG = 180 / Math.PI;
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const roundTo = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
@@ -0,0 +1,658 @@
+import * as CANNON from 'cannon-es';
+import { CollideEvent, PhysicsObject, LevelConfiguration, BlockConfig, BlockShape, BlockMaterial, BlockMaterialConfig, SpecialBlockType, SpecialBlockConfig, ProjectileType, ShotConfig, SimulationEvent, SimulationResult } from '../types';
+import {
+  PROJECTILE_RADIUS, PROJECTILE_MASS, PROJECTILE_VELOCITY_MULTIPLIER,
+  BLOCK_SIZE, BLOCK_MATERIALS_CONFIG, DEFAULT_BLOCK_MATERIAL, SPECIAL_BLOCKS_CONFIG, DEFAULT_FRICTION, DEFAULT_RESTITUTION,
+  STANDARD_PROJECTILE_COLOR,
+  HEAVY_PROJECTILE_RADIUS, HEAVY_PROJECTILE_MASS, HEAVY_PROJECTILE_COLOR,
+  EXPLOSIVE_PROJECTILE_RADIUS, EXPLOSIVE_PROJECTILE_MASS, EXPLOSIVE_PROJECTILE_COLOR, EXPLOSION_RADIUS, EXPLOSION_STRENGTH, EXPLOSIVE_PROJECTILE_LIFESPAN_MS,
+  CLUSTER_PROJECTILE_RADIUS, CLUSTER_PROJECTILE_MASS, CLUSTER_PROJECTILE_COLOR, CLUSTER_SPLIT_DELAY_MS,
+  SUBMUNITION_COUNT, SUBMUNITION_RADIUS, SUBMUNITION_MASS, SUBMUNITION_SPREAD_IMPULSE, SUBMUNITION_LIFESPAN_MS,
+  DAMAGE_SPEED_THRESHOLD, EXPLOSION_DAMAGE_MULTIPLIER, DEBRIS_PIECES_PER_AXIS, DEBRIS_SPREAD_SPEED, DEBRIS_LIFESPAN_MS,
+  GRAVITY, SIMULATION_TIME_STEP, SIMULATION_MAX_SUB_STEPS, DEFAULT_SIMULATION_SEED,
+  PROJECTILE_LINEAR_DAMPING, TRAJECTORY_PREVIEW_TIME,
+} from '../constants';
+import { getShapeHalfExtents } from './blockGeometry';
+import { createSeededRandom, RandomSource } from './random';
+import { DEG_TO_RAD } from './math';
+
+const CYLINDER_SEGMENTS = 16;
+
+export interface ProjectileSpec {
+  radius: number;
+  mass: number;
+  color: number;
+  lifeSpan?: number; // ms
+}
+
+export function getProjectileSpec(projectileType: ProjectileType): ProjectileSpec {
+  switch (projectileType) {
+    case ProjectileType.HEAVY:
+      return { radius: HEAVY_PROJECTILE_RADIUS, mass: HEAVY_PROJECTILE_MASS, color: HEAVY_PROJECTILE_COLOR };
+    case ProjectileType.EXPLOSIVE:
+      return { radius: EXPLOSIVE_PROJECTILE_RADIUS, mass: EXPLOSIVE_PROJECTILE_MASS, color: EXPLOSIVE_PROJECTILE_COLOR, lifeSpan: EXPLOSIVE_PROJECTILE_LIFESPAN_MS };
+    case ProjectileType.CLUSTER:
+      return { radius: CLUSTER_PROJECTILE_RADIUS, mass: CLUSTER_PROJECTILE_MASS, color: CLUSTER_PROJECTILE_COLOR, lifeSpan: CLUSTER_SPLIT_DELAY_MS };
+    case ProjectileType.STANDARD:
+    default:
+      return { radius: PROJECTILE_RADIUS, mass: PROJECTILE_MASS, color: STANDARD_PROJECTILE_COLOR };
+  }
+}
+
+// Durations are counted in fixed simulation steps so they end on the same step on every machine
+export function msToSteps(ms: number): number {
+  return Math.round(ms / 1000 / SIMULATION_TIME_STEP);
+}
+
+// Where a shot's projectile appears and how fast it leaves. The launch speed doesn't depend on the projectile's
+// mass, only its radius (through the spawn offset) differs between types.
+export function getLaunchState(shot: ShotConfig): { position: CANNON.Vec3; velocity: CANNON.Vec3 } {
+  const { radius } = getProjectileSpec(shot.projectileType);
+  const direction = new CANNON.Vec3(shot.direction.x, shot.direction.y, shot.direction.z).unit();
+  const launchOffset = radius + 0.5 + BLOCK_SIZE / 2;
+  const position = new CANNON.Vec3(shot.origin.x, shot.origin.y, shot.origin.z).vadd(direction.scale(launchOffset));
+  return { position, velocity: direction.scale(PROJECTILE_VELOCITY_MULTIPLIER * shot.power) };
+}
+
+export interface TrajectoryOptions {
+  duration?: number; // Seconds of flight to trace
+  world?: CANNON.World; // When given, the path stops at the first body it would pass through
+}
+
+// Traces a shot's free flight with the simulation's own fixed step, gravity and air drag (applied in the same
+// order as Cannon does), until it reaches the ground or something in the world. Gravity accelerates every mass
+// equally and drag is a per-step factor, so the path is the same for every projectile type fired the same way.
+export function predictTrajectory(shot: ShotConfig, options: TrajectoryOptions = {}): { x: number; y: number; z: number }[] {
+  const { duration = TRAJECTORY_PREVIEW_TIME, world } = options;
+  const { radius } = getProjectileSpec(shot.projectileType);
+  const { position, velocity } = getLaunchState(shot);
+  const dampingFactor = Math.pow(1 - PROJECTILE_LINEAR_DAMPING, SIMULATION_TIME_STEP);
+  const rayResult = new CANNON.RaycastResult();
+  const points = [{ x: position.x, y: position.y, z: position.z }];
+
+  for (let step = 0; step < Math.ceil(duration / SIMULATION_TIME_STEP); step++) {
+    velocity.scale(dampingFactor, velocity);
+    velocity.y += GRAVITY * SIMULATION_TIME_STEP;
+    const next = position.vadd(velocity.scale(SIMULATION_TIME_STEP));
+
+    if (world && world.raycastClosest(position, next, { skipBackfaces: true }, rayResult)) {
+      points.push({ x: rayResult.hitPointWorld.x, y: rayResult.hitPointWorld.y, z: rayResult.hitPointWorld.z });
+      break;
+    }
+    if (next.y <= radius) {
+      // Cut the last segment where the projectile's bottom touches the ground
+      const t = (position.y - radius) / (position.y - next.y);
+      points.push({ x: position.x + (next.x - position.x) * t, y: radius, z: position.z + (next.z - position.z) * t });
+      break;
+    }
+    points.push({ x: next.x, y: next.y, z: next.z });
+    position.copy(next);
+  }
+  return points;
+}
+
+export function getBlockMaterialConfig(material: BlockMaterial = DEFAULT_BLOCK_MATERIAL): BlockMaterialConfig {
+  return BLOCK_MATERIALS_CONFIG.find(config => config.id === material)
+    ?? BLOCK_MATERIALS_CONFIG.find(config => config.id === DEFAULT_BLOCK_MATERIAL)!;
+}
+
+export function getSpecialBlockConfig(special: SpecialBlockType): SpecialBlockConfig | undefined {
+  return SPECIAL_BLOCKS_CONFIG.find(config => config.id === special);
+}
+
+interface SurfaceMaterials {
+  ground: CANNON.Material;
+  projectile: CANNON.Material;
+  blocks: Map<BlockMaterial, CANNON.Material>;
+}
+
+// One Cannon material per surface, plus a contact material for every pair so mixed contacts are well defined
+function createSurfaceMaterials(world: CANNON.World): SurfaceMaterials {
+  const surfaces: { material: CANNON.Material; friction: number; restitution: number }[] = [];
+  const addSurface = (name: string, friction: number, restitution: number) => {
+    const material = new CANNON.Material(name);
+    surfaces.push({ material, friction, restitution });
+    return material;
+  };
+
+  const ground = addSurface('ground', DEFAULT_FRICTION, DEFAULT_RESTITUTION);
+  const projectile = addSurface('projectile', DEFAULT_FRICTION, DEFAULT_RESTITUTION);
+  const blocks = new Map(BLOCK_MATERIALS_CONFIG.map(config => [config.id, addSurface(config.id, config.friction, config.restitution)]));
+
+  surfaces.forEach((a, i) => {
+    surfaces.slice(i).forEach(b => {
+      world.addContactMaterial(new CANNON.ContactMaterial(a.material, b.material, {
+        friction: Math.sqrt(a.friction * b.friction),
+        restitution: Math.max(a.restitution, b.restitution),
+      }));
+    });
+  });
+  return { ground, projectile, blocks };
+}
+
+export function createBlockShape(shape: BlockShape = 'cube'): CANNON.Shape {
+  switch (shape) {
+    case 'cylinder':
+      return new CANNON.Cylinder(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE, CYLINDER_SEGMENTS);
+    case 'sphere':
+      return new CANNON.Sphere(BLOCK_SIZE / 2);
+    case 'cube_2x1x1':
+      return new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE, BLOCK_SIZE / 2, BLOCK_SIZE / 2));
+    case 'cube_3x1x1':
+      return new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE * 1.5, BLOCK_SIZE / 2, BLOCK_SIZE / 2));
+    case 'cube':
+    default:
+      return new CANNON.Box(new CANNON.Vec3(BLOCK_SIZE / 2, BLOCK_SIZE / 2, BLOCK_SIZE / 2));
+  }
+}
+
+const FALLEN_DROP = BLOCK_SIZE * 0.375; // How far a block's centre may sink below where it was placed
+const FALLEN_UP_DOT = 0.5; // cos 60°: how far it may tip from how it was placed
+
+// How close a block is to counting as fallen: its drop or tilt as a share of the limit, whichever is larger.
+// Above 1 it has fallen. Tilt is measured against the placed orientation so blocks laid on their side don't count as
+// fallen from the start, and is ignored for spheres, which may roll.
+export function getBlockFallProgress(body: CANNON.Body, initialY: number, initialUp = new CANNON.Vec3(0, 1, 0)): number {
+  const drop = (initialY - body.position.y) / FALLEN_DROP;
+  if (body.shapes[0]?.type === CANNON.Shape.types.SPHERE) return drop;
+  const bodyUpDirection = body.quaternion.vmult(new CANNON.Vec3(0, 1, 0));
+  return Math.max(drop, (1 - bodyUpDirection.dot(initialUp)) / (1 - FALLEN_UP_DOT));
+}
+
+export type SimulationListener = (event: SimulationEvent) => void;
+
+// Renderer-free game world. Views (GameCanvas) and headless tools (tests, balancing, bots)
+// drive it through step() and react to the events it emits.
+export interface Simulation {
+  world: CANNON.World;
+  loadLevel: (levelConfig: LevelConfiguration) => void;
+  launch: (shot: ShotConfig) => PhysicsObject;
+  step: (deltaTime?: number) => void;
+  getBlocks: () => PhysicsObject[];
+  getProjectiles: () => PhysicsObject[];
+  getDebris: () => PhysicsObject[]; // Fragments of shattered blocks, removed after DEBRIS_LIFESPAN_MS
+  getKingPosition: () => { x: number; y: number; z: number } | null;
+  getTime: () => number; // Simulated seconds since the level was loaded (getStepCount() * SIMULATION_TIME_STEP)
+  getStepCount: () => number; // Fixed steps taken since the level was loaded
+  subscribe: (listener: SimulationListener) => () => void;
+  dispose: () => void;
+}
+
+export interface SimulationOptions {
+  // With a seed, cluster spread is drawn from a seeded generator that restarts on every loadLevel, so the same
+  // shots on the same steps give the same result. Without one it uses Math.random.
+  seed?: number;
+  // step(deltaTime) runs the game logic (fuses, lifespans, fallen checks) after every fixed step instead of once per
+  // frame, so frame rate can't change the outcome. Frame time only decides how many steps are taken.
+  deterministic?: boolean;
+}
+
+export function createSimulation(levelConfig?: LevelConfiguration, options: SimulationOptions = {}): Simulation {
+  const { seed, deterministic = false } = options;
+  const world = new CANNON.World({ gravity: new CANNON.Vec3(0, GRAVITY, 0) });
+  world.broadphase = new CANNON.SAPBroadphase(world);
+  (world.solver as CANNON.GSSolver).iterations = 10;
+
+  const surfaceMaterials = createSurfaceMaterials(world);
+
+  const groundBody = new CANNON.Body({ mass: 0, shape: new CANNON.Plane(), material: surfaceMaterials.ground });
+  groundBody.quaternion.setFromEuler(-Math.PI / 2, 0, 0);
+  world.addBody(groundBody);
+
+  let blocks: PhysicsObject[] = [];
+  let projectiles: PhysicsObject[] = [];
+  let debris: PhysicsObject[] = [];
+  let shatteredBlocks: PhysicsObject[] = []; // Out of health this step, broken up after the world step finishes
+  let listeners: SimulationListener[] = [];
+  let projectileCounter = 0;
+  let levelStartStep = 0;
+  let stepAccumulator = 0; // Unstepped frame time in deterministic mode
+  let random: RandomSource = seed !== undefined ? createSeededRandom(seed) : Math.random;
+
+  const getStepCount = () => world.stepnumber - levelStartStep;
+  const getTime = () => getStepCount() * SIMULATION_TIME_STEP;
+
+  const emit = (event: SimulationEvent) => {
+    listeners.forEach(listener => listener(event));
+  };
+
+  const removeObject = (obj: PhysicsObject) => {
+    if (obj.onCollideHandler) {
+      obj.body.removeEventListener('collide', obj.onCollideHandler);
+    }
+    if (obj.constraint) {
+      world.removeConstraint(obj.constraint);
+    }
+    world.removeBody(obj.body);
+  };
+
+  const damageBlock = (obj: PhysicsObject, damage: number, chainDepth?: number) => {
+    if (obj.health === undefined || obj.health <= 0 || damage <= 0) return;
+    obj.health = Math.max(0, obj.health - damage);
+    if (obj.health === 0) {
+      if (chainDepth !== undefined) obj.chainDepth = chainDepth;
+      // A special block that breaks goes off instead of just shattering
+      if (obj.special) armSpecialBlock(obj, obj.chainDepth ?? 0, true); else shatteredBlocks.push(obj);
+    }
+  };
+
+  // Sets a special block's fuse. Already armed blocks keep their original timing.
+  const armSpecialBlock = (obj: PhysicsObject, chainDepth: number, immediate = false) => {
+    const config = obj.special && getSpecialBlockConfig(obj.special);
+    if (!config || obj.detonateAtStep !== undefined) return;
+    obj.chainDepth = chainDepth;
+    obj.detonateAtStep = getStepCount() + (immediate ? 0 : msToSteps(config.fuseMs));
+  };
+
+  const createBlock = (blockConf: BlockConfig): PhysicsObject => {
+    const materialConfig = getBlockMaterialConfig(blockConf.material);
+    const isStatic = blockConf.anchor === 'static';
+    const body = new CANNON.Body({
+      mass: isStatic ? 0 : materialConfig.mass,
+      shape: createBlockShape(blockConf.shape),
+      material: surfaceMaterials.blocks.get(blockConf.material ?? DEFAULT_BLOCK_MATERIAL),
+    });
+    body.position.set(blockConf.x, blockConf.y, blockConf.z);
+    if (blockConf.rotation) {
+      const { x, y, z } = blockConf.rotation;
+      body.quaternion.setFromEuler(x * DEG_TO_RAD, y * DEG_TO_RAD, z * DEG_TO_RAD, 'XYZ');
+    }
+    world.addBody(body);
+
+    // Static blocks can neither break nor explode
+    const health = isStatic ? undefined : (blockConf.health ?? materialConfig.health);
+    const specialConfig = !isStatic && blockConf.special ? getSpecialBlockConfig(blockConf.special) : undefined;
+    const blockObject: PhysicsObject = {
+      body,
+      id: blockConf.id,
+      isKing: !!blockConf.isKing,
+      initialY: blockConf.y,
+      initialUp: body.quaternion.vmult(new CANNON.Vec3(0, 1, 0)),
+      isFallen: false,
+      blockConfig: blockConf,
+      health,
+      maxHealth: health,
+      special: specialConfig ? specialConfig.id : undefined,
+    };
+
+    if (blockConf.anchor === 'pinned') {
+      // Pin the block's centre to the same point on the (static) ground body
+      const pivot = groundBody.pointToLocalFrame(body.position);
+      const constraint = new CANNON.PointToPointConstraint(body, new CANNON.Vec3(0, 0, 0), groundBody, pivot);
+      world.addConstraint(constraint);
+      blockObject.constraint = constraint;
+    }
+
+    if (health !== undefined || specialConfig) {
+      // Damage is the speed change the hit forces on this block: a static body or the ground takes the whole
+      // impact speed, a light body only a share of it
+      const onCollideImpact = (event: CollideEvent) => {
+        if (!event.contact) return;
+        const other = event.body;
+        const impactSpeed = Math.abs(event.contact.getImpactVelocityAlongNormal());
+        const share = other.mass === 0 ? 1 : other.mass / (other.mass + body.mass);
+        damageBlock(blockObject, impactSpeed * share - DAMAGE_SPEED_THRESHOLD);
+        if (specialConfig && impactSpeed * share > specialConfig.triggerSpeed) {
+          armSpecialBlock(blockObject, blockObject.chainDepth ?? 0);
+        }
+      };
+      body.addEventListener('collide', onCollideImpact);
+      blockObject.onCollideHandler = onCollideImpact;
+    }
+    return blockObject;
+  };
+
+  // Replaces a block with DEBRIS_PIECES_PER_AXIS^3 box fragments filling its local bounds
+  const shatterBlock = (obj: PhysicsObject) => {
+    const { body } = obj;
+    const halfExtents = getShapeHalfExtents(obj.blockConfig?.shape);
+    const n = DEBRIS_PIECES_PER_AXIS;
+    const pieceHalfExtents = new CANNON.Vec3(halfExtents.x / n, halfExtents.y / n, halfExtents.z / n);
+    const pieceMass = body.mass / (n * n * n);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        for (let k = 0; k < n; k++) {
+          const localOffset = new CANNON.Vec3(
+            (2 * i + 1 - n) * pieceHalfExtents.x,
+            (2 * j + 1 - n) * pieceHalfExtents.y,
+            (2 * k + 1 - n) * pieceHalfExtents.z
+          );
+          const offset = body.quaternion.vmult(localOffset);
+          const pieceBody = new CANNON.Body({ mass: pieceMass, shape: new CANNON.Box(pieceHalfExtents), material: body.material ?? undefined });
+          pieceBody.position.copy(body.position.vadd(offset));
+          pieceBody.quaternion.copy(body.quaternion);
+          // Keep the block's motion (including its spin) and push each fragment away from the centre
+          pieceBody.velocity.copy(body.velocity.vadd(body.angularVelocity.cross(offset)).vadd(offset.unit().scale(DEBRIS_SPREAD_SPEED)));
+          pieceBody.angularVelocity.copy(body.angularVelocity);
+          world.addBody(pieceBody);
+
+          debris.push({
+            body: pieceBody,
+            id: `debris_${obj.id}_${i}${j}${k}`,
+            initialY: pieceBody.position.y, isFallen: true,
+            blockConfig: obj.blockConfig,
+            isDebris: true,
+            lifeSpanSteps: msToSteps(DEBRIS_LIFESPAN_MS),
+            spawnStep: getStepCount(),
+          });
+        }
+      }
+    }
+  };
+
+  const updateDestroyedBlocks = () => {
+    if (shatteredBlocks.length === 0) return;
+    const destroyed = shatteredBlocks;
+    shatteredBlocks = [];
+
+    destroyed.forEach(obj => {
+      if (!blocks.includes(obj)) return;
+      shatterBlock(obj);
+      removeObject(obj);
+      const wasFallen = obj.isFallen;
+      obj.isFallen = true;
+      emit({ type: 'blockDestroyed', blockId: obj.id, isKing: !!obj.isKing, time: getTime(), ...(obj.chainDepth && { chainDepth: obj.chainDepth }) });
+      if (obj.isKing && !wasFallen) {
+        emit({ type: 'kingFallen', blockId: obj.id, time: getTime() });
+      }
+    });
+    blocks = blocks.filter(obj => !destroyed.includes(obj));
+  };
+
+  // Explodes every armed special block whose fuse has run out. The block itself is destroyed first so its own
+  // blast doesn't act on it; blocks it sets off are handled on a later step, which spreads a chain over time.
+  const updateSpecialBlocks = () => {
+    const due = blocks.filter(obj => obj.detonateAtStep !== undefined && obj.detonateAtStep <= getStepCount() && !shatteredBlocks.includes(obj));
+    due.forEach(obj => {
+      const config = getSpecialBlockConfig(obj.special!)!;
+      shatteredBlocks.push(obj);
+      handleExplosion(obj.body.position.clone(), config.explosionRadius, config.explosionStrength, (obj.chainDepth ?? 0) + 1, obj.id);
+    });
+  };
+
+  const updateDebris = () => {
+    const expired = debris.filter(piece =>
+      piece.body.position.y < -10 || getStepCount() - (piece.spawnStep ?? 0) > (piece.lifeSpanSteps ?? msToSteps(DEBRIS_LIFESPAN_MS))
+    );
+    if (expired.length === 0) return;
+    expired.forEach(removeObject);
+    debris = debris.filter(piece => !expired.includes(piece));
+  };
+
+  const loadLevel = (config: LevelConfiguration) => {
+    projectiles.forEach(removeObject);
+    projectiles = [];
+    debris.forEach(removeObject);
+    debris = [];
+    shatteredBlocks = [];
+    blocks.forEach(removeObject);
+    blocks = config.structure.map(createBlock);
+    levelStartStep = world.stepnumber;
+    stepAccumulator = 0;
+    if (seed !== undefined) random = createSeededRandom(seed);
+  };
+
+  // chainDepth is 0 for a projectile's explosion and grows by one for each special block in a chain
+  const handleExplosion = (position: CANNON.Vec3, explosionRadius: number, explosionStrength: number, chainDepth = 0, sourceBlockId?: string) => {
+    emit({
+      type: 'explosion', position: { x: position.x, y: position.y, z: position.z }, radius: explosionRadius, strength: explosionStrength,
+      time: getTime(), chainDepth, ...(sourceBlockId && { sourceBlockId }),
+    });
+
+    blocks.forEach(obj => {
+      if (shatteredBlocks.includes(obj) || obj.body.mass === 0) return;
+      const distVec = new CANNON.Vec3();
+      obj.body.position.vsub(position, distVec);
+      const distance = distVec.length();
+
+      if (distance < explosionRadius) {
+        distVec.normalize();
+        const strengthFactor = Math.max(0, (1 - (distance / explosionRadius)));
+        const impulseMagnitude = explosionStrength * strengthFactor;
+        distVec.scale(impulseMagnitude, distVec);
+        obj.body.applyImpulse(distVec, obj.body.position);
+        if (obj.body.sleepState === CANNON.Body.SLEEPING) {
+          obj.body.wakeUp();
+        }
+        // Credit for anything this blast knocks over goes to the deepest chain that reached the block
+        obj.chainDepth = Math.max(obj.chainDepth ?? 0, chainDepth);
+        damageBlock(obj, (impulseMagnitude / obj.body.mass) * EXPLOSION_DAMAGE_MULTIPLIER - DAMAGE_SPEED_THRESHOLD, chainDepth);
+        armSpecialBlock(obj, chainDepth);
+      }
+    });
+  };
+
+  const launch = (shot: ShotConfig): PhysicsObject => {
+    const { radius, mass, lifeSpan } = getProjectileSpec(shot.projectileType);
+
+    const projectileBody = new CANNON.Body({ mass, shape: new CANNON.Sphere(radius), material: surfaceMaterials.projectile });
+    projectileBody.linearDamping = PROJECTILE_LINEAR_DAMPING;
+
+    const { position, velocity } = getLaunchState(shot);
+    projectileBody.position.copy(position);
+    projectileBody.velocity.copy(velocity);
+    world.addBody(projectileBody);
+
+    const projectileObject: PhysicsObject = {
+      body: projectileBody,
+      id: `proj_${shot.projectileType}_${projectileCounter++}`,
+      initialY: projectileBody.position.y, isFallen: false,
+      projectileType: shot.projectileType,
+      lifeSpanSteps: lifeSpan !== undefined ? msToSteps(lifeSpan) : undefined,
+      spawnStep: getStepCount(),
+      hasSplit: false,
+    };
+
+    if (shot.projectileType === ProjectileType.EXPLOSIVE) {
+      const onCollideExplosive = (event: CollideEvent) => {
+        if (projectileObject.hasSplit || !event.contact || !event.contact.bi || !event.contact.bj) {
+          return;
+        }
+        const otherBody = event.contact.bi === projectileBody ? event.contact.bj : event.contact.bi;
+        const isBlock = blocks.some(pObj => pObj.body === otherBody);
+
+        if (isBlock && Math.abs(event.contact.getImpactVelocityAlongNormal()) > 1.0) {
+          handleExplosion(projectileBody.position.clone(), EXPLOSION_RADIUS, EXPLOSION_STRENGTH);
+          projectileObject.hasSplit = true;
+        }
+      };
+      projectileBody.addEventListener('collide', onCollideExplosive);
+      projectileObject.onCollideHandler = onCollideExplosive;
+    }
+
+    projectiles.push(projectileObject);
+    return projectileObject;
+  };
+
+  const updateFallenBlocks = () => {
+    blocks.forEach(obj => {
+      // Anchored blocks are part of the scenery, so they never count as fallen however they swing
+      if (obj.isFallen || obj.blockConfig?.anchor) return;
+      if (getBlockFallProgress(obj.body, obj.initialY, obj.initialUp) > 1) {
+        obj.isFallen = true;
+        emit({ type: 'blockFallen', blockId: obj.id, isKing: !!obj.isKing, time: getTime(), ...(obj.chainDepth && { chainDepth: obj.chainDepth }) });
+        if (obj.isKing) {
+          emit({ type: 'kingFallen', blockId: obj.id, time: getTime() });
+        }
+      }
+    });
+  };
+
+  const splitCluster = (proj: PhysicsObject): PhysicsObject[] => {
+    const submunitions: PhysicsObject[] = [];
+    for (let i = 0; i < SUBMUNITION_COUNT; i++) {
+      const submunitionBody = new CANNON.Body({ mass: SUBMUNITION_MASS, shape: new CANNON.Sphere(SUBMUNITION_RADIUS), material: surfaceMaterials.projectile });
+      submunitionBody.linearDamping = 0.2;
+      submunitionBody.position.copy(proj.body.position);
+
+      const spreadDir = new CANNON.Vec3(random() - 0.5, random() - 0.5, random() - 0.5).unit();
+      submunitionBody.velocity.copy(proj.body.velocity);
+      submunitionBody.applyImpulse(spreadDir.scale(SUBMUNITION_SPREAD_IMPULSE, spreadDir), submunitionBody.position);
+      world.addBody(submunitionBody);
+
+      submunitions.push({
+        body: submunitionBody,
+        id: `sub_${proj.id}_${i}`, initialY: submunitionBody.position.y, isFallen: false,
+        projectileType: ProjectileType.STANDARD,
+        isSubmunition: true,
+        lifeSpanSteps: msToSteps(SUBMUNITION_LIFESPAN_MS),
+        spawnStep: getStepCount(),
+      });
+    }
+    return submunitions;
+  };
+
+  const updateProjectiles = () => {
+    const projectilesToRemove: PhysicsObject[] = [];
+    const newSubmunitions: PhysicsObject[] = [];
+
+    projectiles.forEach(proj => {
+      const expired = proj.lifeSpanSteps !== undefined && proj.spawnStep !== undefined && getStepCount() - proj.spawnStep > proj.lifeSpanSteps;
+
+      if (proj.projectileType === ProjectileType.EXPLOSIVE && !proj.hasSplit) {
+        if (expired || proj.body.sleepState === CANNON.Body.SLEEPING) {
+          handleExplosion(proj.body.position.clone(), EXPLOSION_RADIUS, EXPLOSION_STRENGTH);
+          proj.hasSplit = true;
+        }
+      } else if (proj.projectileType === ProjectileType.CLUSTER && !proj.hasSplit && expired) {
+        proj.hasSplit = true;
+        newSubmunitions.push(...splitCluster(proj));
+      }
+
+      let shouldRemove = false;
+      if (proj.body.position.y < -10) {
+        shouldRemove = true;
+      } else if (proj.hasSplit) {
+        shouldRemove = true;
+      } else if (expired && proj.isSubmunition) {
+        shouldRemove = true;
+      } else if (proj.body.sleepState === CANNON.Body.SLEEPING && proj.body.velocity.lengthSquared() < 0.01) {
+        if (!proj.projectileType || proj.isSubmunition) {
+          shouldRemove = true;
+        }
+      }
+
+      if (shouldRemove) {
+        projectilesToRemove.push(proj);
+      }
+    });
+
+    projectilesToRemove.forEach(removeObject);
+    projectiles = projectiles.filter(p => !projectilesToRemove.includes(p));
+    projectiles.push(...newSubmunitions);
+  };
+
+  const updateGameLogic = () => {
+    updateFallenBlocks();
+    updateProjectiles();
+    updateSpecialBlocks();
+    updateDestroyedBlocks();
+    updateDebris();
+  };
+
+  // Without a deltaTime the world advances exactly one fixed step, which is what headless runs use.
+  // With one, as many fixed steps as fit are taken (up to SIMULATION_MAX_SUB_STEPS). In deterministic mode each of
+  // them is followed by the game logic; otherwise Cannon's internal accumulator steps the world and the logic runs once.
+  const step = (deltaTime?: number) => {
+    if (deltaTime === undefined) {
+      world.step(SIMULATION_TIME_STEP);
+      updateGameLogic();
+    } else if (deterministic) {
+      stepAccumulator += deltaTime;
+      let subSteps = 0;
+      while (stepAccumulator >= SIMULATION_TIME_STEP && subSteps < SIMULATION_MAX_SUB_STEPS) {
+        world.step(SIMULATION_TIME_STEP);
+        updateGameLogic();
+        stepAccumulator -= SIMULATION_TIME_STEP;
+        subSteps++;
+      }
+      // A slow frame drops the time it couldn't step rather than catching up later, like Cannon does
+      if (subSteps === SIMULATION_MAX_SUB_STEPS) stepAccumulator %= SIMULATION_TIME_STEP;
+    } else {
+      world.step(SIMULATION_TIME_STEP, deltaTime, SIMULATION_MAX_SUB_STEPS);
+      updateGameLogic();
+    }
+  };
+
+  const getKingPosition = () => {
+    const king = blocks.find(obj => obj.isKing && !obj.isFallen);
+    return king ? { x: king.body.position.x, y: king.body.position.y, z: king.body.position.z } : null;
+  };
+
+  const subscribe = (listener: SimulationListener) => {
+    listeners.push(listener);
+    return () => { listeners = listeners.filter(l => l !== listener); };
+  };
+
+  const dispose = () => {
+    projectiles.forEach(removeObject);
+    blocks.forEach(removeObject);
+    debris.forEach(removeObject);
+    projectiles = [];
+    blocks = [];
+    debris = [];
+    shatteredBlocks = [];
+    listeners = [];
+  };
+
+  if (levelConfig) {
+    loadLevel(levelConfig);
+  }
+
+  return {
+    world,
+    loadLevel,
+    launch,
+    step,
+    getBlocks: () => blocks,
+    getProjectiles: () => projectiles,
+    getDebris: () => debris,
+    getKingPosition,
+    getTime,
+    getStepCount,
+    subscribe,
+    dispose,
+  };
+}
+
+export interface RunSimulationOptions {
+  settleTime?: number; // Seconds to keep simulating after the last shot
+  maxTime?: number; // Hard cap on simulated seconds
+  stopWhenKingFalls?: boolean;
+  seed?: number; // Defaults to DEFAULT_SIMULATION_SEED so the same shots always give the same result
+}
+
+// Runs a whole attempt without a renderer: fires each shot at its fireAt time and steps until the world settles.
+export function runSimulation(levelConfig: LevelConfiguration, shots: ShotConfig[], options: RunSimulationOptions = {}): SimulationResult {
+  const { settleTime = 5, maxTime = 60, stopWhenKingFalls = false, seed = DEFAULT_SIMULATION_SEED } = options;
+  const simulation = createSimulation(levelConfig, { seed });
+  const events: SimulationEvent[] = [];
+  simulation.subscribe(event => events.push(event));
+
+  const pendingShots = [...shots].sort((a, b) => (a.fireAt || 0) - (b.fireAt || 0));
+  const lastShotTime = pendingShots.length > 0 ? (pendingShots[pendingShots.length - 1].fireAt || 0) : 0;
+  const endTime = Math.min(maxTime, lastShotTime + settleTime);
+
+  let kingFallen = false;
+  while (simulation.getTime() < endTime) {
+    while (pendingShots.length > 0 && (pendingShots[0].fireAt || 0) <= simulation.getTime()) {
+      simulation.launch(pendingShots.shift()!);
+    }
+    simulation.step();
+    kingFallen = events.some(e => e.type === 'kingFallen');
+    if (kingFallen && stopWhenKingFalls) break;
+  }
+
+  // Destroyed blocks are no longer in getBlocks(), so they are collected from the events
+  const destroyedBlockIds = events.flatMap(e => e.type === 'blockDestroyed' ? [e.blockId] : []);
+  const result: SimulationResult = {
+    events,
+    fallenBlockIds: [...simulation.getBlocks().filter(b => b.isFallen).map(b => b.id), ...destroyedBlockIds],
+    destroyedBlockIds,
+    kingFallen,
+    time: simulation.getTime(),
+  };
+  simulation.dispose();
+  return result;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyProfile, getLevelProgress, parseProfile, recordAttemptResult, unlockLevel } from './playerProfile';
+
+describe('recordAttemptResult', () => {
+  it('keeps the best score, stars and time across attempts', () => {
+    let profile = createEmptyProfile();
+    profile = recordAttemptResult(profile, 1, { won: true, score: 300, stars: 2, timeMs: 9000 });
+    profile = recordAttemptResult(profile, 1, { won: false, score: 500, stars: 0, timeMs: 4000 });
+    profile = recordAttemptResult(profile, 1, { won: true, score: 200, stars: 3, timeMs: 12000 });
+    expect(getLevelProgress(profile, '1')).toMatchObject({ attempts: 3, completions: 2, bestScore: 500, bestStars: 3, bestTimeMs: 9000 });
+  });
+});
+
+describe('parseProfile', () => {
+  it('reads back a profile it wrote', () => {
+    const profile = unlockLevel(recordAttemptResult(createEmptyProfile(), 'custom_1', { won: true, score: 100, stars: 1, timeMs: 5000 }), 'custom_2');
+    expect(parseProfile(JSON.parse(JSON.stringify(profile)))).toEqual(profile);
+  });
+
+  it('rejects progress with the wrong shape and newer versions', () => {
+    const profile = createEmptyProfile();
+    expect(() => parseProfile({ ...profile, levels: { 1: { attempts: -1 } } })).toThrow();
+    expect(() => parseProfile({ ...profile, formatVersion: profile.formatVersion + 1 })).toThrow();
+    expect(() => parseProfile([])).toThrow();
+  });
+});
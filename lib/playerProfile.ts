@@ -0,0 +1,102 @@
+import { PlayerProfile, LevelProgress } from '../types';
+import { PROFILE_FORMAT_VERSION } from '../constants';
+import { isObject, isInteger } from './typeGuards';
+
+const LOCAL_STORAGE_PROFILE_ID = 'dominoCastleProfile';
+
+export interface AttemptResult {
+  won: boolean;
+  score: number;
+  stars: number; // 0 when not won
+  timeMs: number;
+}
+
+const isCount = (value: unknown): value is number => isInteger(value) && value >= 0;
+
+const EMPTY_PROGRESS: LevelProgress = { attempts: 0, completions: 0, bestScore: 0, bestStars: 0 };
+
+export function createEmptyProfile(): PlayerProfile {
+  return { formatVersion: PROFILE_FORMAT_VERSION, levels: {}, unlockedLevelIds: [], createdAt: Date.now() };
+}
+
+export function getLevelProgress(profile: PlayerProfile, levelId: string | number): LevelProgress {
+  return profile.levels[String(levelId)] ?? EMPTY_PROGRESS;
+}
+
+export function getBestStarsByLevel(profile: PlayerProfile): Record<string, number> {
+  return Object.fromEntries(Object.entries(profile.levels).map(([levelId, progress]) => [levelId, progress.bestStars]));
+}
+
+export function recordAttemptResult(profile: PlayerProfile, levelId: string | number, result: AttemptResult): PlayerProfile {
+  const key = String(levelId);
+  const progress = getLevelProgress(profile, key);
+  const updated: LevelProgress = {
+    attempts: progress.attempts + 1,
+    completions: progress.completions + (result.won ? 1 : 0),
+    bestScore: Math.max(progress.bestScore, result.score),
+    bestStars: Math.max(progress.bestStars, result.stars),
+    bestTimeMs: result.won ? Math.min(progress.bestTimeMs ?? Infinity, result.timeMs) : progress.bestTimeMs,
+    lastPlayedAt: Date.now(),
+  };
+  return { ...profile, levels: { ...profile.levels, [key]: updated } };
+}
+
+export function unlockLevel(profile: PlayerProfile, levelId: string | number): PlayerProfile {
+  const key = String(levelId);
+  if (profile.unlockedLevelIds.includes(key)) return profile;
+  return { ...profile, unlockedLevelIds: [...profile.unlockedLevelIds, key] };
+}
+
+export function setLastLevel(profile: PlayerProfile, levelId: string | number): PlayerProfile {
+  const key = String(levelId);
+  return profile.lastLevelId === key ? profile : { ...profile, lastLevelId: key };
+}
+
+// Validates a stored or imported profile. Throws an Error with a Korean message when it can't be used.
+export function parseProfile(data: unknown): PlayerProfile {
+  if (!isObject(data) || !isObject(data.levels)) {
+    throw new Error("플레이어 프로필 JSON 객체가 아닙니다.");
+  }
+  if (!isInteger(data.formatVersion) || data.formatVersion > PROFILE_FORMAT_VERSION) {
+    throw new Error(`지원하지 않는 프로필 버전입니다. (지원 버전: ${PROFILE_FORMAT_VERSION})`);
+  }
+  const levels: Record<string, LevelProgress> = {};
+  Object.entries(data.levels).forEach(([levelId, progress]) => {
+    if (!isObject(progress) || !isCount(progress.attempts) || !isCount(progress.completions) ||
+        typeof progress.bestScore !== 'number' || !isCount(progress.bestStars) ||
+        (progress.bestTimeMs !== undefined && !isCount(progress.bestTimeMs))) {
+      throw new Error(`"${levelId}" 레벨의 진행 기록이 올바르지 않습니다.`);
+    }
+    levels[levelId] = {
+      attempts: progress.attempts,
+      completions: progress.completions,
+      bestScore: progress.bestScore,
+      bestStars: progress.bestStars,
+      ...(progress.bestTimeMs !== undefined && { bestTimeMs: progress.bestTimeMs }),
+      ...(typeof progress.lastPlayedAt === 'number' && { lastPlayedAt: progress.lastPlayedAt }),
+    };
+  });
+  const unlockedLevelIds = Array.isArray(data.unlockedLevelIds) ? data.unlockedLevelIds.map(String) : [];
+  return {
+    formatVersion: PROFILE_FORMAT_VERSION,
+    levels,
+    unlockedLevelIds,
+    ...(data.lastLevelId !== undefined && { lastLevelId: String(data.lastLevelId) }),
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : Date.now(),
+  };
+}
+
+export function loadProfile(): PlayerProfile {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_PROFILE_ID);
+    return stored ? parseProfile(JSON.parse(stored)) : createEmptyProfile();
+  } catch (error) {
+    console.error("Error reading player profile from localStorage:", error);
+    return createEmptyProfile();
+  }
+}
+
+// Throws if localStorage is full or unavailable
+export function saveProfile(profile: PlayerProfile): void {
+  localStorage.setItem(LOCAL_STORAGE_PROFILE_ID, JSON.stringify(profile));
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ProceduralGeneratorOptions } from '../types';
+import { generateProceduralLevel, generateStableProceduralLevel } from './proceduralGenerator';
+import { analyzeStability } from './stabilityAnalyzer';
+import { validateLevel } from './levelSchema';
+
+const options: ProceduralGeneratorOptions = {
+  seed: 1,
+  style: 'tower',
+  blockBudget: 5,
+  shapeMix: { cube: 1, cylinder: 1, cube_2x1x1: 1, cube_3x1x1: 1 },
+  difficulty: 'easy',
+};
+
+describe('generateProceduralLevel', () => {
+  it('builds the same level from the same options', () => {
+    expect(generateProceduralLevel(options)).toEqual(generateProceduralLevel(options));
+    expect(generateProceduralLevel({ ...options, seed: 2 })).not.toEqual(generateProceduralLevel(options));
+  });
+
+  it('stays within the budget with exactly one golden block and passes the level schema', () => {
+    (['tower', 'wall', 'fortress', 'bridge'] as const).forEach(style => {
+      const level = generateProceduralLevel({ ...options, style, blockBudget: 30, difficulty: 'hard' });
+      expect(validateLevel(level)).toEqual([]);
+      expect(level.structure.length).toBeLessThanOrEqual(30);
+      expect(level.structure.filter(block => block.isKing)).toHaveLength(1);
+    });
+  });
+});
+
+describe('generateStableProceduralLevel', () => {
+  it('replaces a stack that sinks under the solver with one that stands', async () => {
+    // Seed 1's own roll is a cylinder stack that drifts just past the move threshold
+    expect(analyzeStability(generateProceduralLevel(options)).isStable).toBe(false);
+    const generated = await generateStableProceduralLevel(options);
+    expect(generated!.report.isStable).toBe(true);
+    expect(analyzeStability(generated!.level)).toEqual(generated!.report);
+    expect(await generateStableProceduralLevel(options)).toEqual(generated);
+  });
+
+  it('keeps a roll that already stands', async () => {
+    const standing = { ...options, style: 'wall' as const, blockBudget: 12 };
+    const generated = await generateStableProceduralLevel(standing);
+    expect(generated!.level).toEqual(generateProceduralLevel(standing));
+  });
+
+  it('resolves to null once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await generateStableProceduralLevel(options, { signal: controller.signal })).toBeNull();
+  });
+});
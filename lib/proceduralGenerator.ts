@@ -0,0 +1,304 @@
+import {
+  BlockConfig,
+  BlockShape,
+  LevelConfiguration,
+  ProceduralDifficulty,
+  ProceduralGeneratorOptions,
+  ProceduralStyle,
+  StabilityReport,
+} from '../types';
+import { BLOCK_SIZE, MIN_PROCEDURAL_BLOCKS, MAX_PROCEDURAL_BLOCKS, PROCEDURAL_STABILITY_ATTEMPTS, LEVEL_FORMAT_VERSION } from '../constants';
+import { RandomSource, createSeededRandom, randomInt } from './random';
+import { blocksOverlap, getBlockHalfExtents } from './blockGeometry';
+import { analyzeStabilityAsync, AsyncStabilityOptions } from './stabilityAnalyzer';
+
+export interface StableProceduralLevel {
+  level: LevelConfiguration;
+  report: StabilityReport; // Stability of the returned level; unstable only if even the cube-only fallback moved
+}
+
+export const PROCEDURAL_STYLE_LABELS: Record<ProceduralStyle, string> = {
+  tower: '탑',
+  wall: '성벽',
+  fortress: '요새',
+  bridge: '다리',
+};
+
+export const PROCEDURAL_DIFFICULTY_LABELS: Record<ProceduralDifficulty, string> = {
+  easy: '쉬움',
+  normal: '보통',
+  hard: '어려움',
+};
+
+const DIFFICULTY_SETTINGS: Record<ProceduralDifficulty, { projectiles: number; embedKing: boolean }> = {
+  easy: { projectiles: 12, embedKing: false },
+  normal: { projectiles: 8, embedKing: false },
+  hard: { projectiles: 5, embedKing: true }, // Golden block is buried inside the structure instead of sitting on top
+};
+
+const STYLE_PALETTES: Record<ProceduralStyle, number[]> = {
+  tower: [0x8b4513, 0xa0522d, 0xcd853f, 0xd2691e],
+  wall: [0x708090, 0x778899, 0x696969, 0xa9a9a9],
+  fortress: [0x808080, 0x696969, 0x8b4513, 0xa9a9a9],
+  bridge: [0x8b4513, 0xdeb887, 0x708090, 0xa0522d],
+};
+
+const MAX_LAYERS = 6;
+const SINGLE_CELL_SHAPES: BlockShape[] = ['cube', 'cylinder'];
+const ROW_SHAPES: BlockShape[] = ['cube', 'cylinder', 'cube_2x1x1', 'cube_3x1x1'];
+
+interface KingSpot {
+  x: number;
+  layer: number;
+  z: number;
+}
+
+interface StructureBuilder {
+  random: RandomSource;
+  shapeMix: Partial<Record<BlockShape, number>>;
+  palette: number[];
+  blocks: BlockConfig[];
+  remaining: number; // Blocks left in the budget for the structure itself
+}
+
+const layerToY = (layer: number) => BLOCK_SIZE / 2 + layer * BLOCK_SIZE;
+const shapeLength = (shape: BlockShape) => getBlockHalfExtents(shape).x * 2 / BLOCK_SIZE;
+
+function pickShape(builder: StructureBuilder, candidates: BlockShape[]): BlockShape {
+  const weights = candidates.map(shape => Math.max(0, builder.shapeMix[shape] ?? 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) return candidates[0];
+  let roll = builder.random() * total;
+  for (let i = 0; i < candidates.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return candidates[i];
+  }
+  return candidates[candidates.length - 1];
+}
+
+function addBlock(builder: StructureBuilder, shape: BlockShape, x: number, layer: number, z: number): BlockConfig | null {
+  if (builder.remaining <= 0) return null;
+  const block: BlockConfig = {
+    id: `proc_${builder.blocks.length}`,
+    x,
+    y: layerToY(layer),
+    z,
+    shape,
+    color: builder.palette[randomInt(builder.random, 0, builder.palette.length - 1)],
+  };
+  builder.blocks.push(block);
+  builder.remaining--;
+  return block;
+}
+
+// Splits a row of cells into pieces so consecutive layers can be staggered like brickwork.
+function planRow(builder: StructureBuilder, cellCount: number, staggered: boolean): { shape: BlockShape; start: number }[] {
+  const pieces: { shape: BlockShape; start: number }[] = [];
+  let cell = 0;
+  if (staggered && cellCount > 1) {
+    pieces.push({ shape: pickShape(builder, SINGLE_CELL_SHAPES), start: 0 });
+    cell = 1;
+  }
+  while (cell < cellCount) {
+    const fitting = ROW_SHAPES.filter(shape => shapeLength(shape) <= cellCount - cell);
+    const shape = pickShape(builder, fitting);
+    pieces.push({ shape, start: cell });
+    cell += shapeLength(shape);
+  }
+  return pieces;
+}
+
+// Lays a full row along X, or nothing if the budget can't cover the whole row.
+function buildRow(builder: StructureBuilder, firstCellX: number, cellCount: number, layer: number, z: number): boolean {
+  const pieces = planRow(builder, cellCount, layer % 2 === 1);
+  if (pieces.length > builder.remaining) return false;
+  pieces.forEach(({ shape, start }) => {
+    addBlock(builder, shape, firstCellX + start + (shapeLength(shape) - 1) / 2, layer, z);
+  });
+  return true;
+}
+
+function buildTower(builder: StructureBuilder): KingSpot {
+  // Widen the footprint rather than exceed the layer cap; tall thin stacks wobble under the solver
+  let width = 1;
+  while (width < 3 && builder.remaining > width * width * MAX_LAYERS) width++;
+  const firstCellX = -(width - 1) / 2;
+  let layer = 0;
+  while (layer < MAX_LAYERS && builder.remaining >= width * width) {
+    for (let row = 0; row < width; row++) {
+      buildRow(builder, firstCellX, width, layer, firstCellX + row);
+    }
+    layer++;
+  }
+  return { x: 0, layer, z: 0 };
+}
+
+function buildWall(builder: StructureBuilder): KingSpot {
+  const cellCount = Math.max(1, Math.min(builder.remaining, Math.min(9, Math.max(3, Math.round(Math.sqrt(builder.remaining * 1.5))))));
+  const firstCellX = -(cellCount - 1) / 2;
+  let layer = 0;
+  while (layer < MAX_LAYERS && buildRow(builder, firstCellX, cellCount, layer, 0)) {
+    layer++;
+  }
+  return { x: firstCellX + Math.floor(cellCount / 2), layer, z: 0 };
+}
+
+function buildFortress(builder: StructureBuilder): KingSpot {
+  const keepHeight = builder.remaining >= 24 ? 2 : 1;
+  let side = 6;
+  while (side > 3 && 4 * (side - 1) > builder.remaining - keepHeight) side--;
+  if (4 * (side - 1) > builder.remaining - keepHeight) return buildTower(builder);
+
+  const edge = (side - 1) / 2;
+  for (let layer = 0; layer < keepHeight; layer++) {
+    addBlock(builder, pickShape(builder, SINGLE_CELL_SHAPES), 0, layer, 0);
+  }
+
+  const ringCells = 4 * (side - 1);
+  let layer = 0;
+  while (layer < MAX_LAYERS && builder.remaining >= ringCells) {
+    // Front and back walls can use long blocks; the side walls run along Z and stay single cells
+    const built = buildRow(builder, -edge, side, layer, -edge) && buildRow(builder, -edge, side, layer, edge);
+    if (!built) break;
+    for (let z = -edge + 1; z <= edge - 1; z++) {
+      addBlock(builder, pickShape(builder, SINGLE_CELL_SHAPES), -edge, layer, z);
+      addBlock(builder, pickShape(builder, SINGLE_CELL_SHAPES), edge, layer, z);
+    }
+    layer++;
+  }
+
+  // Leftover blocks become turrets on the corners
+  if (layer > 0 && builder.remaining >= 4) {
+    [[-edge, -edge], [edge, -edge], [-edge, edge], [edge, edge]].forEach(([x, z]) => {
+      addBlock(builder, pickShape(builder, SINGLE_CELL_SHAPES), x, layer, z);
+    });
+  }
+  return { x: 0, layer: keepHeight, z: 0 };
+}
+
+function buildBridge(builder: StructureBuilder): KingSpot {
+  const longWeight = builder.shapeMix.cube_3x1x1 ?? 0;
+  const spanShape: BlockShape = longWeight > 0 || !(builder.shapeMix.cube_2x1x1 ?? 0) ? 'cube_3x1x1' : 'cube_2x1x1';
+  const spanLength = shapeLength(spanShape);
+  let pillarHeight = 2;
+  while (pillarHeight > 1 && builder.remaining < pillarHeight * 2 + 1) pillarHeight--;
+  if (builder.remaining < pillarHeight * 2 + 1) return buildTower(builder);
+
+  const spanCount = Math.max(1, Math.min(4, Math.floor(builder.remaining / (pillarHeight * 2 + 1))));
+  const spanCenters = Array.from({ length: spanCount }, (_, i) => (i - (spanCount - 1) / 2) * spanLength);
+  spanCenters.forEach(center => {
+    // Pillars sit under both ends of the span. They are always cubes; cylinder pillars let the span slide off.
+    const pillarOffset = (spanLength - 1) / 2;
+    [center - pillarOffset, center + pillarOffset].forEach(x => {
+      for (let layer = 0; layer < pillarHeight; layer++) {
+        addBlock(builder, 'cube', x, layer, 0);
+      }
+    });
+    addBlock(builder, spanShape, center, pillarHeight, 0);
+  });
+
+  // Leftover blocks become railings along the ends of each span, keeping the middle clear for the golden block
+  const middleCenter = spanCenters[Math.floor(spanCount / 2)];
+  spanCenters.forEach(center => {
+    const railOffset = (spanLength - 1) / 2;
+    [center - railOffset, center + railOffset].forEach(x => {
+      if (center === middleCenter && Math.abs(x - center) < 1) return;
+      addBlock(builder, pickShape(builder, SINGLE_CELL_SHAPES), x, pillarHeight + 1, 0);
+    });
+  });
+  return { x: middleCenter, layer: pillarHeight + 1, z: 0 };
+}
+
+const STYLE_BUILDERS: Record<ProceduralStyle, (builder: StructureBuilder) => KingSpot> = {
+  tower: buildTower,
+  wall: buildWall,
+  fortress: buildFortress,
+  bridge: buildBridge,
+};
+
+// Spheres roll off anything but the ground, so they are only scattered in front of the structure.
+function scatterSpheres(builder: StructureBuilder, budget: number) {
+  const weights = Object.values(builder.shapeMix).reduce<number>((sum, weight) => sum + Math.max(0, weight ?? 0), 0);
+  const sphereWeight = Math.max(0, builder.shapeMix.sphere ?? 0);
+  if (sphereWeight === 0 || weights === 0) return;
+  const count = Math.min(builder.remaining, Math.round(budget * sphereWeight / weights));
+  const frontZ = Math.max(...builder.blocks.map(b => b.z + getBlockHalfExtents(b.shape).z)) + BLOCK_SIZE;
+  for (let i = 0; i < count; i++) {
+    const x = (i - (count - 1) / 2) * BLOCK_SIZE * 1.5;
+    addBlock(builder, 'sphere', x, 0, frontZ + randomInt(builder.random, 0, 1) * BLOCK_SIZE);
+  }
+}
+
+// Hard levels turn a buried cube into the golden block so the structure has to be brought down around it
+function embedKing(builder: StructureBuilder): BlockConfig | null {
+  const covered = builder.blocks.filter(block =>
+    SINGLE_CELL_SHAPES.includes(block.shape ?? 'cube') &&
+    builder.blocks.some(other => other !== block && other.y > block.y && blocksOverlap(other, { ...block, y: block.y + BLOCK_SIZE }))
+  );
+  if (covered.length === 0) return null;
+  const king = covered[randomInt(builder.random, 0, covered.length - 1)];
+  king.shape = 'cube';
+  king.isKing = true;
+  delete king.color;
+  return king;
+}
+
+// One roll of the structure. The same options always give the same level.
+export function generateProceduralLevel(options: ProceduralGeneratorOptions): LevelConfiguration {
+  return buildProceduralLevel(options, createSeededRandom(options.seed));
+}
+
+// Rolls the structure until it passes the stability check: the seed's own roll first, then re-rolls drawn from the
+// seed, then the seed's roll built from cubes only, since stacked cylinders sink a little under the solver. The
+// result depends only on the options. Resolves to null when aborted.
+export async function generateStableProceduralLevel(
+  options: ProceduralGeneratorOptions,
+  stabilityOptions: Pick<AsyncStabilityOptions, 'signal' | 'onProgress'> = {}
+): Promise<StableProceduralLevel | null> {
+  const rolls: (() => LevelConfiguration)[] = [
+    ...Array.from({ length: PROCEDURAL_STABILITY_ATTEMPTS }, (_, attempt) => () =>
+      buildProceduralLevel(options, createSeededRandom(options.seed ^ Math.imul(attempt, 0x9e3779b9)))),
+    () => buildProceduralLevel({ ...options, shapeMix: { cube: 1, ...(options.shapeMix.sphere && { sphere: options.shapeMix.sphere }) } }, createSeededRandom(options.seed)),
+  ];
+  // Collapsing blocks weigh more than ones that merely shift
+  const problemCount = (report: StabilityReport) => report.fallenBlockIds.length * 2 + report.movedBlockIds.length;
+  let best: StableProceduralLevel | null = null;
+  for (const roll of rolls) {
+    const level = roll();
+    const report = await analyzeStabilityAsync(level, stabilityOptions);
+    if (!report) return null;
+    if (!best || problemCount(report) < problemCount(best.report)) best = { level, report };
+    if (report.isStable) break;
+  }
+  return best;
+}
+
+function buildProceduralLevel(options: ProceduralGeneratorOptions, random: RandomSource): LevelConfiguration {
+  const budget = Math.max(MIN_PROCEDURAL_BLOCKS, Math.min(MAX_PROCEDURAL_BLOCKS, Math.floor(options.blockBudget)));
+  const settings = DIFFICULTY_SETTINGS[options.difficulty];
+  const builder: StructureBuilder = {
+    random,
+    shapeMix: options.shapeMix,
+    palette: STYLE_PALETTES[options.style],
+    blocks: [],
+    remaining: budget - 1, // One block is reserved for the golden block
+  };
+
+  const kingSpot = STYLE_BUILDERS[options.style](builder);
+  scatterSpheres(builder, budget);
+
+  const embedded = settings.embedKing ? embedKing(builder) : null;
+  if (!embedded) {
+    builder.blocks.push({ id: 'proc_king', x: kingSpot.x, y: layerToY(kingSpot.layer), z: kingSpot.z, shape: 'cube', isKing: true });
+  }
+
+  const label = PROCEDURAL_STYLE_LABELS[options.style];
+  return {
+    formatVersion: LEVEL_FORMAT_VERSION,
+    levelId: `proc_${options.style}_${options.seed}`,
+    name: `절차적 ${label} #${options.seed}`,
+    structure: builder.blocks,
+    initialProjectiles: settings.projectiles,
+    gameMessage: `${label}을(를) 무너뜨리고 황금 블록을 쓰러뜨리세요!`,
+  };
+}
@@ -0,0 +1,21 @@
+// Small seeded PRNG (mulberry32) so generated content and simulations can be reproduced from a seed.
+export type RandomSource = () => number; // Returns a float in [0, 1), like Math.random
+
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+export function randomInt(random: RandomSource, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
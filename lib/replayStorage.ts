@@ -0,0 +1,92 @@
+import { ShotReplay, RecordedShot, ProjectileType } from '../types';
+import { MAX_REPLAYS_PER_LEVEL, REPLAY_SETTLE_TIME } from '../constants';
+import { parseLevel, formatLevelSchemaErrors } from './levelSchema';
+import { isObject, isFiniteNumber, isInteger, isOneOf } from './typeGuards';
+
+const LOCAL_STORAGE_REPLAYS_ID = 'dominoCastleReplays';
+const PROJECTILE_TYPES = Object.values(ProjectileType);
+
+type ReplayStore = Record<string, ShotReplay[]>; // Keyed by String(levelId), newest first
+
+const isVector = (value: unknown): value is { x: number; y: number; z: number } =>
+  isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y) && isFiniteNumber(value.z);
+
+function readStore(): ReplayStore {
+  try {
+    const stored = localStorage.getItem(LOCAL_STORAGE_REPLAYS_ID);
+    const store = stored ? JSON.parse(stored) : {};
+    return isObject(store) ? store as ReplayStore : {}; // Only ever written by saveReplay and deleteReplay
+  } catch (error) {
+    console.error("Error reading replays from localStorage:", error);
+    return {};
+  }
+}
+
+export function loadReplays(levelId: string | number): ShotReplay[] {
+  const replays = readStore()[String(levelId)];
+  return Array.isArray(replays) ? replays : [];
+}
+
+// Stores a replay under its level and returns that level's updated list. Throws if localStorage is full or unavailable.
+export function saveReplay(replay: ShotReplay): ShotReplay[] {
+  const store = readStore();
+  const key = String(replay.levelId);
+  const replays = [replay, ...(store[key] ?? []).filter(existing => existing.id !== replay.id)].slice(0, MAX_REPLAYS_PER_LEVEL);
+  localStorage.setItem(LOCAL_STORAGE_REPLAYS_ID, JSON.stringify({ ...store, [key]: replays }));
+  return replays;
+}
+
+export function deleteReplay(levelId: string | number, replayId: string): ShotReplay[] {
+  const store = readStore();
+  const key = String(levelId);
+  const replays = (store[key] ?? []).filter(replay => replay.id !== replayId);
+  localStorage.setItem(LOCAL_STORAGE_REPLAYS_ID, JSON.stringify({ ...store, [key]: replays }));
+  return replays;
+}
+
+// Replays run until the last shot has had time to play out
+export function getReplayDuration(replay: ShotReplay): number {
+  const lastShotTime = replay.shots.reduce((latest, shot) => Math.max(latest, shot.fireAt), 0);
+  return lastShotTime + REPLAY_SETTLE_TIME;
+}
+
+// Validates a replay from an imported file. Throws an Error with a Korean message when it can't be used.
+export function parseReplay(data: unknown): ShotReplay {
+  if (!isObject(data)) {
+    throw new Error("리플레이 JSON 객체가 아닙니다.");
+  }
+  const parsedLevel = parseLevel(data.level);
+  if (!parsedLevel.ok) {
+    throw new Error(`리플레이에 포함된 레벨이 올바르지 않습니다:\n${formatLevelSchemaErrors(parsedLevel.errors)}`);
+  }
+  if (!Array.isArray(data.shots) || data.shots.length === 0) {
+    throw new Error("리플레이에 발사 기록이 없습니다.");
+  }
+  const shots: RecordedShot[] = data.shots.map((shot, index) => {
+    if (!isObject(shot) || !isOneOf(PROJECTILE_TYPES, shot.projectileType) || !isFiniteNumber(shot.power) ||
+        !isVector(shot.origin) || !isVector(shot.direction) || !isFiniteNumber(shot.fireAt) || shot.fireAt < 0) {
+      throw new Error(`${index + 1}번째 발사 기록이 올바르지 않습니다.`);
+    }
+    return {
+      projectileType: shot.projectileType,
+      power: shot.power,
+      origin: { x: shot.origin.x, y: shot.origin.y, z: shot.origin.z },
+      direction: { x: shot.direction.x, y: shot.direction.y, z: shot.direction.z },
+      fireAt: shot.fireAt,
+      timestamp: isFiniteNumber(shot.timestamp) ? shot.timestamp : 0,
+    };
+  });
+
+  const level = parsedLevel.level;
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : `replay_${Date.now()}`,
+    levelId: level.levelId,
+    levelName: level.name,
+    level,
+    shots: shots.sort((a, b) => a.fireAt - b.fireAt),
+    score: isFiniteNumber(data.score) ? data.score : 0,
+    kingFallen: data.kingFallen === true,
+    recordedAt: isFiniteNumber(data.recordedAt) ? data.recordedAt : Date.now(),
+    ...(isInteger(data.seed) && { seed: data.seed }),
+  };
+}
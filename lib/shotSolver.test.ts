@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { ProjectileType } from '../types';
+import { LEVEL_CONFIGS } from '../levels';
+import { PROJECTILE_TYPES_CONFIG } from '../constants';
+import { createSimulation, runSimulation } from './physicsSimulation';
+import { getLauncherShot, getLevelLauncher } from './launcher';
+import { captureWorldSnapshot, planShot } from './shotSolver';
+
+const level = LEVEL_CONFIGS[0];
+const simulation = createSimulation(level);
+const snapshot = captureWorldSnapshot(level, simulation, getLevelLauncher(level));
+simulation.dispose();
+
+// Only standard projectiles, so each play-out is a single shot
+const projectileCounts = Object.fromEntries(PROJECTILE_TYPES_CONFIG.map(config => [config.id, config.id === ProjectileType.STANDARD ? 5 : 0])) as Record<ProjectileType, number>;
+
+describe('planShot', () => {
+  it('finds a shot that topples the golden block of level 1 when fired', async () => {
+    const plan = await planShot(snapshot, projectileCounts);
+    expect(plan).toMatchObject({ projectileType: ProjectileType.STANDARD, kingFallen: true });
+    const shot = getLauncherShot(snapshot.level.launcher!, plan!.aim, plan!.power, plan!.projectileType);
+    expect(runSimulation(snapshot.level, [shot]).kingFallen).toBe(true);
+  }, 60000);
+
+  it('still picks a shot when the time limit passes before anything is played out', async () => {
+    const plan = await planShot(snapshot, projectileCounts, { timeLimitMs: 1 });
+    expect(plan).toMatchObject({ projectileType: ProjectileType.STANDARD, simulationsRun: 0 });
+  });
+
+  it('resolves to null once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await planShot(snapshot, projectileCounts, { signal: controller.signal })).toBeNull();
+  });
+});
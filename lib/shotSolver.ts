@@ -0,0 +1,253 @@
+import * as CANNON from 'cannon-es';
+import { BlockConfig, BlockRotation, LauncherAim, LauncherConfig, LevelConfiguration, ProjectileType, ShotPlan, WorldSnapshot } from '../types';
+import {
+  DEFAULT_SIMULATION_SEED, SIMULATION_TIME_STEP, MIN_LAUNCH_POWER, MAX_LAUNCH_POWER, PROJECTILE_TYPES_CONFIG,
+  SOLVER_YAW_OFFSETS, SOLVER_PITCH_STEP, SOLVER_POWER_STEP, SOLVER_CANDIDATE_COUNT, SOLVER_MIN_PITCH_SEPARATION,
+  SOLVER_FLIGHT_TIME, SOLVER_SETTLE_TIME, SOLVER_REST_SPEED, SOLVER_REFERENCE_BLOCK_COUNT, SOLVER_MIN_CANDIDATE_COUNT,
+  SOLVER_MIN_SETTLE_TIME, SOLVER_CHUNK_MS, SOLVER_TIME_LIMIT_MS,
+} from '../constants';
+import { createSimulation, getBlockFallProgress, predictTrajectory, Simulation } from './physicsSimulation';
+import { clampAim, getAimTowards, getLauncherShot } from './launcher';
+import { RAD_TO_DEG, roundTo } from './math';
+
+// Plans the delegate's next shot. The world is copied into a fresh simulation, flight paths over a grid of aim and
+// power are screened by where they first touch something, and the paths that land nearest the golden block are
+// played out in full for each projectile type. The first shot that topples it is taken, otherwise the one that
+// brings it closest to falling. All of it runs in slices of SOLVER_CHUNK_MS between which the page gets to draw,
+// within a total time limit.
+
+export interface ShotPlanOptions {
+  signal?: AbortSignal; // Planning stops at the next slice once aborted and resolves to null
+  timeLimitMs?: number; // Defaults to SOLVER_TIME_LIMIT_MS
+}
+
+interface ScreenedPath {
+  aim: LauncherAim;
+  power: number;
+  miss: number; // Distance from where the path first touches something to the golden block
+}
+
+interface SolverClock {
+  signal?: AbortSignal;
+  deadline: number; // performance.now() value planning has to stop by
+}
+
+const SNAPSHOT_DIGITS = 3; // Decimal places positions, angles and powers are rounded to
+
+const round = (value: number) => roundTo(value, SNAPSHOT_DIGITS);
+
+// XYZ Euler angles in degrees, the order BlockRotation is applied in
+const getRotation = (quaternion: CANNON.Quaternion): BlockRotation => {
+  const { x, y, z, w } = quaternion;
+  const m11 = 1 - 2 * (y * y + z * z), m12 = 2 * (x * y - z * w), m13 = 2 * (x * z + y * w);
+  const m22 = 1 - 2 * (x * x + z * z), m23 = 2 * (y * z - x * w);
+  const m32 = 2 * (y * z + x * w), m33 = 1 - 2 * (x * x + y * y);
+  const pitch = Math.asin(Math.max(-1, Math.min(1, m13)));
+  const isGimbalLocked = Math.abs(m13) > 0.9999999;
+  return {
+    x: round((isGimbalLocked ? Math.atan2(m32, m22) : Math.atan2(-m23, m33)) * RAD_TO_DEG),
+    y: round(pitch * RAD_TO_DEG),
+    z: round((isGimbalLocked ? 0 : Math.atan2(-m12, m11)) * RAD_TO_DEG),
+  };
+};
+
+const isAtRest = (body: CANNON.Body) =>
+  body.velocity.lengthSquared() < SOLVER_REST_SPEED ** 2 && body.angularVelocity.lengthSquared() < SOLVER_REST_SPEED ** 2;
+
+// On the ground a projectile can roll on for many seconds, and rarely topples anything left standing
+const isOnGround = (body: CANNON.Body) => body.position.y - (body.shapes[0] as CANNON.Sphere).radius < 0.05;
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Calls step until it reports it is done, one slice at a time with the page drawn in between. False when aborted
+// or out of time first; the first slice always runs, so a spent time limit still leaves something to go on. A single
+// step on a large structure can take longer than a slice; it then yields after each.
+async function runChunked(step: () => boolean, clock: SolverClock): Promise<boolean> {
+  for (let isFirstSlice = true; ; isFirstSlice = false) {
+    await yieldToBrowser();
+    if (clock.signal?.aborted || (!isFirstSlice && performance.now() >= clock.deadline)) return false;
+    const sliceEnd = performance.now() + SOLVER_CHUNK_MS;
+    do {
+      if (step()) return true;
+    } while (performance.now() < sliceEnd);
+  }
+}
+
+// Each physics step costs more the more blocks there are, so big structures get fewer and shorter play-outs
+function getSolverBudget(blockCount: number) {
+  const scale = Math.min(1, SOLVER_REFERENCE_BLOCK_COUNT / Math.max(1, blockCount));
+  return {
+    candidateCount: Math.max(SOLVER_MIN_CANDIDATE_COUNT, Math.round(SOLVER_CANDIDATE_COUNT * scale)),
+    stepCount: Math.ceil(Math.max(SOLVER_MIN_SETTLE_TIME, SOLVER_SETTLE_TIME * scale) / SIMULATION_TIME_STEP),
+  };
+}
+
+// Rebuilds the running world as a level. Velocities, lit fuses, debris and spent projectiles are left out, so the
+// copy is only faithful once isSettled is true.
+export function captureWorldSnapshot(level: LevelConfiguration, simulation: Simulation, launcher: LauncherConfig): WorldSnapshot {
+  const blocks = simulation.getBlocks();
+  const structure: BlockConfig[] = blocks.map(obj => {
+    const { position, quaternion } = obj.body;
+    return {
+      ...obj.blockConfig!,
+      id: obj.id,
+      x: round(position.x), y: round(position.y), z: round(position.z),
+      rotation: getRotation(quaternion),
+      ...(obj.health !== undefined && { health: obj.health }),
+    };
+  });
+  const king = blocks.find(obj => obj.isKing && !obj.isFallen);
+  return {
+    level: { ...level, structure, launcher },
+    king: king ? {
+      id: king.id,
+      initialY: king.initialY,
+      initialUp: king.initialUp ? { x: king.initialUp.x, y: king.initialUp.y, z: king.initialUp.z } : { x: 0, y: 1, z: 0 },
+    } : null,
+    isSettled: blocks.every(obj => isAtRest(obj.body)) && simulation.getProjectiles().every(obj => isOnGround(obj.body) || isAtRest(obj.body)),
+  };
+}
+
+// Every aim and power on the grid, traced against the standing blocks and ranked by how near the golden block they
+// first touch something. Kept paths differ in elevation so both a flat shot and a lob get played out. Out of time,
+// only the paths traced so far are ranked; null once aborted.
+async function screenPaths(
+  snapshot: WorldSnapshot,
+  launcher: LauncherConfig,
+  kingPosition: CANNON.Vec3,
+  candidateCount: number,
+  clock: SolverClock
+): Promise<ScreenedPath[] | null> {
+  const towardsKing = getAimTowards(launcher, kingPosition);
+  const powerSteps = Math.round((MAX_LAUNCH_POWER - MIN_LAUNCH_POWER) / SOLVER_POWER_STEP);
+  const seen = new Set<string>();
+  const grid: { aim: LauncherAim; power: number }[] = [];
+  SOLVER_YAW_OFFSETS.forEach(yawOffset => {
+    for (let pitch = launcher.pitch.min; pitch <= launcher.pitch.max; pitch += SOLVER_PITCH_STEP) {
+      const aim = clampAim(launcher, { yaw: towardsKing.yaw + yawOffset, pitch });
+      const key = `${aim.yaw.toFixed(2)}/${aim.pitch.toFixed(2)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      for (let i = 0; i <= powerSteps; i++) grid.push({ aim, power: round(MIN_LAUNCH_POWER + i * SOLVER_POWER_STEP) });
+    }
+  });
+
+  const simulation = createSimulation(snapshot.level);
+  const paths: ScreenedPath[] = [];
+  await runChunked(() => {
+    const { aim, power } = grid[paths.length];
+    const points = predictTrajectory(getLauncherShot(launcher, aim, power, ProjectileType.STANDARD), {
+      duration: SOLVER_FLIGHT_TIME,
+      world: simulation.world,
+    });
+    const end = points[points.length - 1];
+    paths.push({ aim, power, miss: kingPosition.distanceTo(new CANNON.Vec3(end.x, end.y, end.z)) });
+    return paths.length === grid.length;
+  }, clock);
+  simulation.dispose();
+  if (clock.signal?.aborted) return null;
+
+  paths.sort((a, b) => a.miss - b.miss || b.power - a.power);
+  const kept: ScreenedPath[] = [];
+  for (const path of paths) {
+    if (kept.length >= candidateCount) break;
+    const isTooClose = kept.some(other => other.aim.yaw === path.aim.yaw && Math.abs(other.aim.pitch - path.aim.pitch) < SOLVER_MIN_PITCH_SEPARATION);
+    if (!isTooClose) kept.push(path);
+  }
+  return kept;
+}
+
+// Fires one shot into a fresh copy of the world and watches the golden block against where it was first placed,
+// the same test the game uses. Stops early once the world comes to rest; out of time, reports what it saw so far.
+// Null once aborted.
+async function playOut(
+  snapshot: WorldSnapshot,
+  launcher: LauncherConfig,
+  path: ScreenedPath,
+  projectileType: ProjectileType,
+  stepCount: number,
+  clock: SolverClock
+) {
+  const king = snapshot.king!;
+  const simulation = createSimulation(snapshot.level, { seed: DEFAULT_SIMULATION_SEED });
+  let kingFallen = false;
+  let blocksToppled = 0;
+  simulation.subscribe(event => {
+    if (event.type === 'blockFallen' || event.type === 'blockDestroyed') blocksToppled++;
+    if (event.type === 'blockDestroyed' && event.isKing) kingFallen = true;
+  });
+  const blocks = simulation.getBlocks();
+  const kingBody = blocks.find(obj => obj.id === king.id)!.body;
+  const initialUp = new CANNON.Vec3(king.initialUp.x, king.initialUp.y, king.initialUp.z);
+
+  simulation.launch(getLauncherShot(launcher, path.aim, path.power, projectileType));
+  let kingProgress = 0;
+  let stepsRun = 0;
+  await runChunked(() => {
+    simulation.step();
+    stepsRun++;
+    kingProgress = Math.max(kingProgress, getBlockFallProgress(kingBody, king.initialY, initialUp));
+    if (kingProgress > 1) kingFallen = true;
+    const isSettled = blocks.every(obj => obj.isFallen || isAtRest(obj.body)) &&
+      simulation.getProjectiles().every(obj => isOnGround(obj.body) || isAtRest(obj.body));
+    return kingFallen || isSettled || stepsRun >= stepCount;
+  }, clock);
+  simulation.dispose();
+  if (clock.signal?.aborted) return null;
+  return { kingFallen, kingProgress: kingFallen ? 1 : Math.max(0, kingProgress), blocksToppled };
+}
+
+// Null when there is no golden block standing, no projectile left, or the signal was aborted. Once the time limit
+// passes, the best shot played out so far is taken, or the best screened path if none was.
+export async function planShot(
+  snapshot: WorldSnapshot,
+  projectileCounts: Record<ProjectileType, number>,
+  options: ShotPlanOptions = {}
+): Promise<ShotPlan | null> {
+  const { signal, timeLimitMs = SOLVER_TIME_LIMIT_MS } = options;
+  const launcher = snapshot.level.launcher;
+  const king = snapshot.king && snapshot.level.structure.find(block => block.id === snapshot.king!.id);
+  // Plentiful projectiles are tried first, so a one-shot win doesn't spend a scarce one it didn't need
+  const projectileTypes = PROJECTILE_TYPES_CONFIG
+    .filter(config => projectileCounts[config.id] > 0)
+    .sort((a, b) => projectileCounts[b.id] - projectileCounts[a.id])
+    .map(config => config.id);
+  if (!launcher || !king || projectileTypes.length === 0) return null;
+
+  const clock: SolverClock = { signal, deadline: performance.now() + timeLimitMs };
+  const budget = getSolverBudget(snapshot.level.structure.length);
+  const paths = await screenPaths(snapshot, launcher, new CANNON.Vec3(king.x, king.y, king.z), budget.candidateCount, clock);
+  if (!paths) return null;
+
+  const candidates = projectileTypes.flatMap(projectileType => paths.map(path => ({ projectileType, path })));
+  let best: ShotPlan | null = null;
+  let simulationsRun = 0;
+  for (const { projectileType, path } of candidates) {
+    if (performance.now() >= clock.deadline) break;
+    const outcome = await playOut(snapshot, launcher, path, projectileType, budget.stepCount, clock);
+    if (!outcome) return null;
+    simulationsRun++;
+    if (!best || outcome.kingProgress > best.kingProgress ||
+        (outcome.kingProgress === best.kingProgress && outcome.blocksToppled > best.blocksToppled)) {
+      best = { projectileType, aim: path.aim, power: path.power, ...outcome, simulationsRun };
+    }
+    if (outcome.kingFallen) break;
+  }
+  if (!best && paths.length > 0) {
+    best = { projectileType: projectileTypes[0], aim: paths[0].aim, power: paths[0].power, kingFallen: false, kingProgress: 0, blocksToppled: 0, simulationsRun };
+  }
+  return best && { ...best, simulationsRun };
+}
+
+// Short Korean summary for the game message
+export function describeShotPlan(plan: ShotPlan): string {
+  const name = PROJECTILE_TYPES_CONFIG.find(config => config.id === plan.projectileType)?.name || '발사체';
+  const shot = `${name}, 좌우 ${Math.round(plan.aim.yaw)}°, 상하 ${Math.round(plan.aim.pitch)}°, 파워 ${Math.round(plan.power * 100)}%`;
+  if (plan.simulationsRun === 0) {
+    return `시간 안에 시뮬레이션하지 못해 황금 블록 가까이 날아가는 ${shot}를 고릅니다.`;
+  }
+  if (plan.kingFallen) {
+    return `${shot}로 한 발에 황금 블록을 쓰러뜨릴 수 있습니다 (시뮬레이션 ${plan.simulationsRun}회).`;
+  }
+  return `한 발에 쓰러뜨리는 발사를 찾지 못해 황금 블록을 가장 크게 흔드는 ${shot}를 고릅니다 (예상 ${Math.round(plan.kingProgress * 100)}%, 시뮬레이션 ${plan.simulationsRun}회).`;
+}
@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { LevelConfiguration } from '../types';
+import { LEVEL_CONFIGS } from '../levels';
+import { parseLevelLibrary } from './levelSchema';
+import { analyzeStability, analyzeStabilityAsync, getStructureHash } from './stabilityAnalyzer';
+
+const library = parseLevelLibrary(JSON.parse(readFileSync(new URL('../domino_castle_library.json', import.meta.url), 'utf8')));
+
+// A cube resting half off the edge of the one below
+const overhang: LevelConfiguration = {
+  levelId: 'overhang',
+  name: '돌출',
+  initialProjectiles: 1,
+  structure: [
+    { id: 'base', x: 0, y: 0.5, z: 0 },
+    { id: 'top', x: 0.6, y: 1.5, z: 0, isKing: true },
+  ],
+};
+
+// Blocks in shipped levels known to shift a little before the first shot without falling
+const KNOWN_MOVED_BLOCK_IDS: Record<string, string[]> = {
+  // The steps are staggered by quarter units. block_13 hangs half off block_7, and every grid cell below it would
+  // overlap a neighbouring block, so it and the golden block resting on it settle slightly.
+  custom_1750224705021_i0z7c: ['block_13', 'block_16'],
+};
+
+describe('analyzeStability', () => {
+  it('finds every shipped library level stable', () => {
+    expect(library.rejected).toEqual([]);
+    library.levels.forEach(level => {
+      const report = analyzeStability(level);
+      const knownMoved = KNOWN_MOVED_BLOCK_IDS[String(level.levelId)] ?? [];
+      expect({ levelId: level.levelId, fallen: report.fallenBlockIds, moved: report.movedBlockIds.filter(id => !knownMoved.includes(id)) })
+        .toEqual({ levelId: level.levelId, fallen: [], moved: [] });
+    });
+  }, 120000);
+
+  it('reports a block that topples off its support', () => {
+    const report = analyzeStability(overhang);
+    expect(report.isStable).toBe(false);
+    expect(report.fallenBlockIds).toContain('top');
+  });
+});
+
+describe('analyzeStabilityAsync', () => {
+  it('gives the same report as the synchronous check and ends at full progress', async () => {
+    const progress: number[] = [];
+    const report = await analyzeStabilityAsync(overhang, { onProgress: value => progress.push(value) });
+    expect(report).toEqual(analyzeStability(overhang));
+    expect(progress[progress.length - 1]).toBe(1);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+  });
+
+  it('resolves to null once aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await analyzeStabilityAsync(LEVEL_CONFIGS[2], { signal: controller.signal })).toBeNull();
+  });
+});
+
+describe('getStructureHash', () => {
+  it('changes when a block moves and not otherwise', () => {
+    const structure = LEVEL_CONFIGS[0].structure;
+    expect(getStructureHash(structure.map(block => ({ ...block })))).toBe(getStructureHash(structure));
+    const moved = structure.map((block, index) => (index === 0 ? { ...block, x: block.x + 0.5 } : block));
+    expect(getStructureHash(moved)).not.toBe(getStructureHash(structure));
+  });
+});
@@ -0,0 +1,161 @@
+import * as CANNON from 'cannon-es';
+import { BlockConfig, LevelConfiguration, StabilityReport } from '../types';
+import { SIMULATION_TIME_STEP, STABILITY_SETTLE_TIME, STABILITY_MOVE_THRESHOLD, STABILITY_ROTATION_THRESHOLD_DEG,
+  STABILITY_REST_SPEED, STABILITY_REST_TIME, STABILITY_CHUNK_MS } from '../constants';
+import { createSimulation } from './physicsSimulation';
+import { DEG_TO_RAD } from './math';
+
+export interface StabilityOptions {
+  settleTime?: number; // Seconds
+  moveThreshold?: number; // World units
+  rotationThresholdDeg?: number;
+}
+
+export interface AsyncStabilityOptions extends StabilityOptions {
+  signal?: AbortSignal; // The check stops between chunks once aborted and resolves to null
+  onProgress?: (progress: number) => void; // Share of the settle time simulated so far, 0 to 1
+}
+
+interface StabilityRun {
+  advance: (deadline: number) => boolean; // Steps until done or performance.now() passes the deadline; true when done
+  getProgress: () => number;
+  finish: () => StabilityReport; // Disposes the simulation
+  dispose: () => void;
+}
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Lets the structure settle under gravity with no projectiles, a few steps at a time, and reports every block that
+// drifted or toppled.
+function startStabilityRun(levelConfig: LevelConfiguration, options: StabilityOptions): StabilityRun {
+  const {
+    settleTime = STABILITY_SETTLE_TIME,
+    moveThreshold = STABILITY_MOVE_THRESHOLD,
+    rotationThresholdDeg = STABILITY_ROTATION_THRESHOLD_DEG,
+  } = options;
+
+  const simulation = createSimulation(levelConfig);
+  // Blocks that shatter while settling leave the simulation, so they are recorded as they break
+  const destroyedBlockIds: string[] = [];
+  simulation.subscribe(event => {
+    if (event.type === 'blockDestroyed') destroyedBlockIds.push(event.blockId);
+  });
+  const initialStates = new Map(simulation.getBlocks().map(block => [
+    block.id,
+    { position: block.body.position.clone(), quaternion: block.body.quaternion.clone() },
+  ]));
+
+  // Large structures are expensive to step, so stop early once every block has been at rest for a while
+  const stepCount = Math.ceil(settleTime / SIMULATION_TIME_STEP);
+  const restStepsRequired = Math.ceil(STABILITY_REST_TIME / SIMULATION_TIME_STEP);
+  let stepsTaken = 0;
+  let restSteps = 0;
+  const isDone = () => stepsTaken >= stepCount || restSteps >= restStepsRequired;
+
+  const advance = (deadline: number) => {
+    while (!isDone()) {
+      simulation.step();
+      stepsTaken++;
+      const isAtRest = simulation.getBlocks().every(block =>
+        block.body.velocity.lengthSquared() < STABILITY_REST_SPEED ** 2 &&
+        block.body.angularVelocity.lengthSquared() < STABILITY_REST_SPEED ** 2
+      );
+      restSteps = isAtRest ? restSteps + 1 : 0;
+      if (performance.now() >= deadline) break;
+    }
+    return isDone();
+  };
+
+  const finish = (): StabilityReport => {
+    const movedBlockIds: string[] = [];
+    const fallenBlockIds: string[] = [...destroyedBlockIds];
+    let maxDisplacement = 0;
+    const rotationThreshold = rotationThresholdDeg * DEG_TO_RAD;
+
+    simulation.getBlocks().forEach(block => {
+      const initial = initialStates.get(block.id);
+      if (!initial) return;
+
+      const displacement = block.body.position.distanceTo(initial.position);
+      // Angle of the rotation taking the initial orientation to the current one
+      const delta = initial.quaternion.inverse().mult(block.body.quaternion, new CANNON.Quaternion());
+      const rotation = 2 * Math.acos(Math.min(1, Math.abs(delta.w)));
+      maxDisplacement = Math.max(maxDisplacement, displacement);
+
+      if (block.isFallen) {
+        fallenBlockIds.push(block.id);
+      } else if (displacement > moveThreshold || rotation > rotationThreshold) {
+        movedBlockIds.push(block.id);
+      }
+    });
+
+    simulation.dispose();
+
+    return {
+      isStable: movedBlockIds.length === 0 && fallenBlockIds.length === 0,
+      movedBlockIds,
+      fallenBlockIds,
+      maxDisplacement,
+      settleTime,
+    };
+  };
+
+  return {
+    advance,
+    getProgress: () => (isDone() ? 1 : stepsTaken / stepCount),
+    finish,
+    dispose: () => simulation.dispose(),
+  };
+}
+
+// Runs the whole check at once. Fine for tests and small structures; the editor uses analyzeStabilityAsync.
+export function analyzeStability(levelConfig: LevelConfiguration, options: StabilityOptions = {}): StabilityReport {
+  const run = startStabilityRun(levelConfig, options);
+  run.advance(Infinity);
+  return run.finish();
+}
+
+// The same check spread over tasks of STABILITY_CHUNK_MS each, so a structure of hundreds of blocks doesn't freeze the
+// page while it settles. Resolves to null when aborted.
+export async function analyzeStabilityAsync(levelConfig: LevelConfiguration, options: AsyncStabilityOptions = {}): Promise<StabilityReport | null> {
+  const { signal, onProgress, ...stabilityOptions } = options;
+  const run = startStabilityRun(levelConfig, stabilityOptions);
+  let isDone = false;
+  while (!isDone) {
+    await yieldToBrowser();
+    if (signal?.aborted) {
+      run.dispose();
+      return null;
+    }
+    isDone = run.advance(performance.now() + STABILITY_CHUNK_MS);
+    onProgress?.(run.getProgress());
+  }
+  return run.finish();
+}
+
+// Identifies a structure for caching its stability report. The check only depends on the blocks, so an unchanged
+// structure never has to settle again. FNV-1a over the JSON; collisions only cost a stale highlight.
+export function getStructureHash(structure: BlockConfig[]): string {
+  const json = JSON.stringify(structure);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${structure.length}:${(hash >>> 0).toString(36)}`;
+}
+
+// Short Korean summary used by the editor's status messages
+export function describeStabilityReport(report: StabilityReport): string {
+  if (report.isStable) {
+    return `구조물이 안정적입니다 (${report.settleTime}초 안정화 테스트 통과).`;
+  }
+  const parts: string[] = [];
+  if (report.fallenBlockIds.length > 0) {
+    parts.push(`${report.fallenBlockIds.length}개 블록이 스스로 무너짐`);
+  }
+  if (report.movedBlockIds.length > 0) {
+    parts.push(`${report.movedBlockIds.length}개 블록이 움직임`);
+  }
+  return `구조물이 불안정합니다: ${parts.join(', ')} (${report.settleTime}초 안정화 테스트).`;
+}
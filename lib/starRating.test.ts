@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { LEVEL_CONFIGS } from '../levels';
+import { POINTS_PER_UNUSED_PROJECTILE } from '../constants';
+import { getLevelPar, rateLevelClear } from './starRating';
+
+describe('getLevelPar', () => {
+  it('uses the level par when it has one', () => {
+    expect(getLevelPar(LEVEL_CONFIGS[0], 10)).toEqual(LEVEL_CONFIGS[0].par);
+  });
+
+  it('scales the default par to the level', () => {
+    const level = { ...LEVEL_CONFIGS[2], par: undefined };
+    expect(getLevelPar(level, 10)).toEqual({ shots: 3, blocksToppled: 4 });
+  });
+});
+
+describe('rateLevelClear', () => {
+  const par = { shots: 2, blocksToppled: 4 };
+
+  it('gives 3 stars when every target is met', () => {
+    expect(rateLevelClear(par, { shotsFired: 2, projectilesRemaining: 3, blocksToppled: 5 }))
+      .toEqual({ stars: 3, bonusPoints: 3 * POINTS_PER_UNUSED_PROJECTILE, parMet: 2, parTotal: 2 });
+  });
+
+  it('gives 2 stars for half the targets and 1 for a bare win', () => {
+    expect(rateLevelClear(par, { shotsFired: 2, projectilesRemaining: 0, blocksToppled: 3 }).stars).toBe(2);
+    expect(rateLevelClear(par, { shotsFired: 5, projectilesRemaining: 0, blocksToppled: 1 }).stars).toBe(1);
+  });
+});
@@ -0,0 +1,32 @@
+import { LevelConfiguration, LevelPar, StarRating } from '../types';
+import { POINTS_PER_UNUSED_PROJECTILE, MAX_STARS, DEFAULT_PAR_SHOT_RATIO, DEFAULT_PAR_TOPPLED_RATIO } from '../constants';
+
+export interface AttemptStats {
+  shotsFired: number;
+  projectilesRemaining: number;
+  blocksToppled: number; // Toppled or destroyed, golden block included
+}
+
+export function getLevelPar(level: LevelConfiguration, totalProjectiles: number): LevelPar {
+  if (level.par && Object.keys(level.par).length > 0) return level.par;
+  const freeBlockCount = level.structure.filter(block => !block.anchor).length;
+  return {
+    shots: Math.max(1, Math.ceil(totalProjectiles * DEFAULT_PAR_SHOT_RATIO)),
+    blocksToppled: Math.ceil(freeBlockCount * DEFAULT_PAR_TOPPLED_RATIO),
+  };
+}
+
+export function rateLevelClear(par: LevelPar, stats: AttemptStats): StarRating {
+  const results: boolean[] = [];
+  if (par.shots !== undefined) results.push(stats.shotsFired <= par.shots);
+  if (par.projectilesRemaining !== undefined) results.push(stats.projectilesRemaining >= par.projectilesRemaining);
+  if (par.blocksToppled !== undefined) results.push(stats.blocksToppled >= par.blocksToppled);
+  const parMet = results.filter(Boolean).length;
+  const parTotal = results.length;
+  const stars = parMet === parTotal ? MAX_STARS : parMet * 2 >= parTotal ? 2 : 1;
+  return { stars, bonusPoints: stats.projectilesRemaining * POINTS_PER_UNUSED_PROJECTILE, parMet, parTotal };
+}
+
+export function formatStars(stars: number): string {
+  return '★'.repeat(stars) + '☆'.repeat(MAX_STARS - stars);
+}
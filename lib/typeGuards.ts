@@ -0,0 +1,12 @@
+// Runtime checks for JSON read from files, localStorage and the Gemini API. The fields of a checked object are still
+// unknown and have to be narrowed one by one.
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+export const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
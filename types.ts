@@ -17,20 +17,34 @@ export interface ProjectileConfig {
   defaultCount: number;
 }
 
+// What cannon-es passes to a body's 'collide' listener
+export interface CollideEvent {
+  body: CANNON.Body; // The other body in the collision
+  contact: CANNON.ContactEquation;
+}
+
 export interface PhysicsObject {
-  mesh: THREE.Mesh;
   body: CANNON.Body;
   id: string;
   isKing?: boolean; // True if this is the Golden Block (target block)
   initialY: number; // Center Y of the physics body
+  initialUp?: CANNON.Vec3; // World direction of the block's local up axis when placed, used for tilt detection
   isFallen: boolean;
+  blockConfig?: BlockConfig; // Set for structure blocks, used by views to build their meshes
+  health?: number; // Remaining hit points; undefined for indestructible blocks
+  maxHealth?: number;
+  isDebris?: boolean; // Fragment of a shattered block
+  special?: SpecialBlockType;
+  detonateAtStep?: number; // Simulation step an armed special block goes off on
+  chainDepth?: number; // Block explosions in the chain that last hit this block, 0 = set off by the player's shot
+  constraint?: CANNON.Constraint; // Holds a pinned block in place
   // Projectile-specific properties
   projectileType?: ProjectileType;
-  lifeSpan?: number; // in seconds, for projectiles like explosives/clusters
-  creationTime?: number; // performance.now() at creation
+  lifeSpanSteps?: number; // In simulation steps, for projectiles like explosives/clusters and debris
+  spawnStep?: number; // Simulation step at creation
   hasSplit?: boolean; // For cluster projectiles
   isSubmunition?: boolean; // To identify cluster submunitions
-  onCollideHandler?: (event: any) => void; // Optional: for event handlers like explosive's collision
+  onCollideHandler?: (event: CollideEvent) => void; // Optional: for event handlers like explosive's collision
 }
 
 export interface GameState {
@@ -42,21 +56,76 @@ export interface GameState {
   gameMessage: string;
   currentLevelIndex: number;
   isLevelWon: boolean; // True if golden block hit in current level
+  stars: number; // Star rating of the current level, 0 until it is won and the world has settled
 }
 
 export type BlockShape = 'cube' | 'cylinder' | 'sphere' | 'cube_2x1x1' | 'cube_3x1x1';
 
+export type BlockMaterial = 'wood' | 'stone' | 'ice' | 'rubber' | 'glass';
+
+// Anchored blocks hold their place: 'static' blocks never move (terrain, cliffs, pedestals),
+// 'pinned' blocks are held at their centre but can still swing around it (seesaws, hanging platforms).
+export type BlockAnchor = 'static' | 'pinned';
+
+export interface BlockAnchorConfig {
+  id: BlockAnchor;
+  name: string;
+  description: string;
+  outlineColor: number; // Edge outline that marks anchored blocks in the game and the editor
+}
+
+// Blocks with behaviour of their own. Both explode when hit hard enough or caught in another explosion.
+export type SpecialBlockType = 'barrel' | 'tnt';
+
+export interface SpecialBlockConfig {
+  id: SpecialBlockType;
+  name: string;
+  description: string;
+  color: number; // Used when the block has no color of its own
+  explosionRadius: number;
+  explosionStrength: number;
+  triggerSpeed: number; // Impact speed (m/s) that sets the block off
+  fuseMs: number; // Delay between being set off and exploding
+}
+
+export interface BlockMaterialConfig {
+  id: BlockMaterial;
+  name: string;
+  description: string;
+  mass: number; // Mass of one block, whatever its shape
+  friction: number;
+  restitution: number; // Bounciness, 0 = none
+  color: number; // Used when the block has no color of its own
+  roughness: number;
+  metalness: number;
+  opacity: number; // 1 = opaque
+  health?: number; // Default hit points for blocks of this material; undefined = indestructible
+}
+
+// Euler angles in degrees, applied in XYZ order (the default order of both Three.js and Cannon)
+export interface BlockRotation {
+  x: number;
+  y: number; // Yaw: 90 turns a long cube to run along Z
+  z: number; // 90 stands a long cube upright
+}
+
 export interface BlockConfig {
   id: string;
   x: number; // Center x
   y: number; // Center y
   z: number; // Center z
   shape?: BlockShape; // Defaults to 'cube' if undefined
+  rotation?: BlockRotation; // Defaults to no rotation (long cubes lie along X)
+  material?: BlockMaterial; // Defaults to DEFAULT_BLOCK_MATERIAL ('wood')
+  health?: number; // Hit points before the block shatters; defaults to the material's health (none = indestructible)
+  special?: SpecialBlockType; // Explosive behaviour; not allowed on the Golden Block
+  anchor?: BlockAnchor; // Omit for a normal free block. Anchored blocks never count as fallen; not allowed on the Golden Block
   isKing?: boolean; // True if this is the Golden Block (target block)
   color?: number; // Hex color code, e.g., 0xff0000 for red
 }
 
 export interface LevelConfiguration {
+  formatVersion?: number; // Level file schema version (LEVEL_FORMAT_VERSION); files without it are treated as version 0
   levelId: string | number; // Updated to allow string for custom IDs
   name: string;
   structure: BlockConfig[];
@@ -65,10 +134,226 @@ export interface LevelConfiguration {
   cameraPosition?: { x: number; y: number; z: number };
   cameraTarget?: { x: number; y: number; z: number };
   gameMessage?: string; // Optional: custom message for the start of the level
+  par?: LevelPar; // Targets for a 3-star clear; a default scaled to the level is used when missing
+  hideTrajectory?: boolean; // Hard mode: no trajectory preview while aiming
+  launcher?: LauncherConfig; // Where shots are fired from; a default in front of the start camera when missing
+}
+
+// Angles in degrees. Yaw turns around +Y with 0 facing -Z; pitch is the elevation above the horizon.
+export interface LauncherAim {
+  yaw: number;
+  pitch: number;
+}
+
+export interface LauncherAngleRange {
+  min: number;
+  max: number;
+  initial?: number; // Aim at the start of the level; the middle of the range when missing
+}
+
+export interface LauncherConfig {
+  position: { x: number; y: number; z: number }; // Barrel pivot
+  yaw: LauncherAngleRange;
+  pitch: LauncherAngleRange; // Within -90..90
+}
+
+// Things the player can do from the keyboard or a gamepad (lib/inputBindings.ts)
+export type InputAction =
+  | 'aimLeft' | 'aimRight' | 'aimUp' | 'aimDown'
+  | 'charge' // Held to charge, released to fire
+  | 'previousProjectile' | 'nextProjectile'
+  | 'cameraLeft' | 'cameraRight' | 'cameraUp' | 'cameraDown'
+  | 'restartLevel' | 'nextLevel';
+
+export interface InputActionConfig {
+  id: InputAction;
+  name: string;
+}
+
+export interface InputBinding {
+  keys: string[]; // KeyboardEvent.code values, so bindings don't depend on the keyboard layout or the Korean IME
+  gamepadButtons: number[]; // Button indices in the browser's standard gamepad mapping
+}
+
+export type InputBindings = Record<InputAction, InputBinding>;
+
+// Blocks copied from the level editor to the clipboard, so they can be pasted into another level
+export interface BlockFragment {
+  kind: 'castleBreakerBlocks';
+  formatVersion: number; // LEVEL_FORMAT_VERSION of the blocks
+  origin: { x: number; y: number; z: number }; // Grid point at the bottom center of the copied blocks
+  blocks: BlockConfig[]; // Positions relative to origin
+}
+
+// Every target given must be met for 3 stars and at least half of them for 2. Winning always earns 1.
+export interface LevelPar {
+  shots?: number; // Most shots a 3-star clear may fire
+  projectilesRemaining?: number; // Fewest projectiles a 3-star clear may leave unused
+  blocksToppled?: number; // Fewest blocks (golden block included) a 3-star clear must topple or destroy
+}
+
+export interface StarRating {
+  stars: number; // 1-3
+  bonusPoints: number; // For unused projectiles
+  parMet: number; // Par targets met
+  parTotal: number;
 }
 
 export interface ExplosionParticleSystem {
   points: THREE.Points; // The THREE.js Points object
   velocities: THREE.Vector3[]; // Array of velocity vectors for each particle
-  creationTime: number; // Timestamp of when the system was created (performance.now())
+  creationStep: number; // Simulation step the explosion happened on; particles age with the simulation, not the wall clock
+  lastStep: number; // Simulation step the particles were last moved to
+}
+
+export interface ShotConfig {
+  projectileType: ProjectileType;
+  power: number; // Between MIN_LAUNCH_POWER and MAX_LAUNCH_POWER
+  origin: { x: number; y: number; z: number }; // Point the shot is fired from, e.g. the camera position
+  direction: { x: number; y: number; z: number }; // Aim direction, normalised by the simulation
+  fireAt?: number; // Simulation time in seconds, used by headless runs. Defaults to 0
+}
+
+export type SimulationEvent =
+  | { type: 'blockFallen'; blockId: string; isKing: boolean; time: number; chainDepth?: number }
+  | { type: 'kingFallen'; blockId: string; time: number }
+  | { type: 'blockDestroyed'; blockId: string; isKing: boolean; time: number; chainDepth?: number }
+  // sourceBlockId is set when a special block exploded; chainDepth counts block explosions leading up to this one
+  | { type: 'explosion'; position: { x: number; y: number; z: number }; radius: number; strength: number; time: number; sourceBlockId?: string; chainDepth: number };
+
+export interface SimulationResult {
+  events: SimulationEvent[];
+  fallenBlockIds: string[]; // Includes destroyed blocks
+  destroyedBlockIds: string[];
+  kingFallen: boolean;
+  time: number; // Simulated seconds
+}
+
+export interface RecordedShot extends ShotConfig {
+  fireAt: number; // Fixed-step simulation time since the level was loaded, so a replay fires on the same step
+  timestamp: number; // Wall-clock launch time (ms since epoch)
+}
+
+// One finished attempt. The level is stored as played so later edits to it don't change the replay.
+export interface ShotReplay {
+  id: string;
+  levelId: string | number;
+  levelName: string;
+  level: LevelConfiguration;
+  shots: RecordedShot[]; // origin/direction are the camera position and view direction at launch
+  score: number;
+  kingFallen: boolean;
+  recordedAt: number; // ms since epoch
+  seed?: number; // Simulation seed of the attempt; DEFAULT_SIMULATION_SEED when missing
+}
+
+export interface LevelProgress {
+  attempts: number; // Finished attempts: won, or out of projectiles
+  completions: number;
+  bestScore: number;
+  bestStars: number; // 0 = never cleared
+  bestTimeMs?: number; // Fastest clear, from loading the level to the golden block falling
+  lastPlayedAt?: number; // ms since epoch
+}
+
+export interface PlayerProfile {
+  formatVersion: number; // PROFILE_FORMAT_VERSION
+  levels: Record<string, LevelProgress>; // Keyed by String(levelId)
+  unlockedLevelIds: string[]; // Unlocked by clearing the level before them in play order
+  lastLevelId?: string; // Level to resume on the next visit
+  createdAt: number; // ms since epoch
+}
+
+// How a campaign chapter opens. Chapters without a rule are always open.
+export type ChapterUnlockRule =
+  | { type: 'chapterCleared'; chapterId: string } // Every level of another chapter cleared
+  | { type: 'stars'; stars: number }; // Total best stars across the pack
+
+export interface CampaignChapter {
+  id: string;
+  name: string;
+  description?: string;
+  levelIds: (string | number)[]; // Play order; ids that aren't loaded are skipped
+  unlock?: ChapterUnlockRule;
+  sequential?: boolean; // Each level needs the one before it cleared
+}
+
+// Ordered chapters of levels. Playable levels no chapter lists are shown in an extra custom chapter.
+export interface CampaignPack {
+  id: string;
+  name: string;
+  chapters: CampaignChapter[];
+}
+
+export interface ReplayPlaybackState {
+  time: number; // Replay position in simulated seconds
+  duration: number;
+  isPaused: boolean;
+  speed: number; // 1 = real time
+}
+
+export interface StabilityReport {
+  isStable: boolean; // True if no block moved or fell while settling
+  movedBlockIds: string[]; // Blocks that drifted or rotated but did not count as fallen
+  fallenBlockIds: string[]; // Blocks flagged fallen by the same check used during play
+  maxDisplacement: number; // Largest distance any block travelled, in world units
+  settleTime: number; // Simulated seconds
+}
+
+// The world as it stands mid-level, rebuilt as a level so a fresh simulation can stand in for it
+export interface WorldSnapshot {
+  level: LevelConfiguration; // Standing blocks at their current position, rotation and remaining health
+  king: { id: string; initialY: number; initialUp: { x: number; y: number; z: number } } | null; // Where it was placed, to judge its fall
+  isSettled: boolean; // No projectile in flight and every block at rest
+}
+
+export interface ShotPlan {
+  projectileType: ProjectileType;
+  aim: LauncherAim;
+  power: number;
+  kingFallen: boolean; // Predicted to topple the golden block by itself
+  kingProgress: number; // How close the shot gets the golden block to falling, 0..1
+  blocksToppled: number;
+  simulationsRun: number; // Candidate shots played out to choose it
+}
+
+export interface GenerationAttempt {
+  attempt: number; // 1-based
+  succeeded: boolean;
+  error?: string; // Validation or parse problems sent back to the model
+  repairs: string[]; // Fixes applied locally before validation
+}
+
+export interface GenerationResult {
+  level: LevelConfiguration;
+  attempts: GenerationAttempt[];
+}
+
+export type ProceduralStyle = 'tower' | 'wall' | 'fortress' | 'bridge';
+export type ProceduralDifficulty = 'easy' | 'normal' | 'hard';
+
+export interface ProceduralGeneratorOptions {
+  seed: number;
+  style: ProceduralStyle;
+  blockBudget: number; // Maximum number of blocks, golden block included
+  shapeMix: Partial<Record<BlockShape, number>>; // Relative weights; shapes with no weight are not used where a choice exists
+  difficulty: ProceduralDifficulty;
+}
+
+// Level editor placement tools. Placing a block also places its mirrored, rotated and arrayed copies.
+export interface EditorSymmetry {
+  mirrorX: boolean; // Mirror across the plane x = origin.x
+  mirrorZ: boolean; // Mirror across the plane z = origin.z
+  radialCount: number; // Copies spread evenly around origin's vertical axis; 1 = off
+  origin: { x: number; z: number };
+}
+
+export type EditorArrayMode = 'off' | 'linear' | 'grid';
+
+export interface EditorArray {
+  mode: EditorArrayMode;
+  axis: 'x' | 'z'; // Direction of a linear array
+  count: number; // Copies along the axis (linear) or along X (grid), original included
+  rows: number; // Rows along Z (grid only)
+  spacing: number; // Blocks between copies, center to center
 }